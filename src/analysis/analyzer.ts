@@ -1,120 +1,75 @@
-import type { AnalysisResult, BpmKeyResult, WorkerResponse } from './types';
+import { DEFAULT_DETECTION } from './spec';
+import type { AnalysisResult, BpmKeyResult, DetectionParams, SpectrogramParams, SpectrogramResult } from './types';
+import { EssentiaWorkerPool } from './workerPool';
 
-// Singleton Worker — WASM initialization happens only once
-let sharedWorker: Worker | null = null;
-let workerReady = false;
-let initPromise: Promise<string> | null = null;
+export { AnalysisCancelledError, isAnalysisCancelled } from './workerClient';
 
-function getWorker(): Worker {
-  if (!sharedWorker) {
-    sharedWorker = new Worker(
-      new URL('../workers/essentia.worker.ts', import.meta.url),
-      { type: 'module' },
-    );
-  }
-  return sharedWorker;
+export interface AnalyzeOptions {
+  /** abort() で解析を中断する。Promise は AnalysisCancelledError で reject される */
+  signal?: AbortSignal;
 }
 
-function ensureInit(): Promise<string> {
-  if (workerReady) return Promise.resolve('cached');
-  if (initPromise) return initPromise;
-
-  const worker = getWorker();
-  initPromise = new Promise<string>((resolve, reject) => {
-    const handler = (e: MessageEvent<WorkerResponse>) => {
-      if (e.data.type === 'ready') {
-        worker.removeEventListener('message', handler);
-        workerReady = true;
-        resolve(e.data.version ?? 'unknown');
-      } else if (e.data.type === 'error') {
-        worker.removeEventListener('message', handler);
-        initPromise = null;
-        reject(new Error(e.data.message));
-      }
-    };
-    worker.addEventListener('message', handler);
-    worker.postMessage({ type: 'init' });
-  });
-  return initPromise;
+export interface AnalyzeAudioOptions extends AnalyzeOptions {
+  /** 省略時は DEFAULT_DETECTION */
+  detection?: DetectionParams;
 }
 
+// Shared Worker pool — WASM initialization happens once per worker
+export const analysisPool = new EssentiaWorkerPool();
+
 export class AudioAnalyzer {
   private onProgress: (phase: string, percent: number, label: string) => void;
   private onPartial: (data: Partial<AnalysisResult>) => void;
+  private pool: EssentiaWorkerPool;
 
   constructor(
     onProgress: (phase: string, percent: number, label: string) => void,
     onPartial: (data: Partial<AnalysisResult>) => void,
+    pool: EssentiaWorkerPool = analysisPool,
   ) {
     this.onProgress = onProgress;
     this.onPartial = onPartial;
+    this.pool = pool;
   }
 
   init(): Promise<string> {
-    return ensureInit();
+    return this.pool.init();
   }
 
-  analyzeBpmKey(audioData: Float32Array, sampleRate: number): Promise<BpmKeyResult> {
-    if (!workerReady) {
-      return Promise.reject(new Error('Analyzer not initialized'));
-    }
-
-    const worker = getWorker();
-
-    return new Promise((resolve, reject) => {
-      const handler = (e: MessageEvent<WorkerResponse>) => {
-        const msg = e.data;
-        if (msg.type === 'progress') {
-          this.onProgress(msg.phase ?? '', msg.percent ?? 0, msg.label ?? '');
-        } else if (msg.type === 'bpmKeyComplete' && msg.bpmKeyData) {
-          worker.removeEventListener('message', handler);
-          resolve(msg.bpmKeyData);
-        } else if (msg.type === 'error') {
-          worker.removeEventListener('message', handler);
-          reject(new Error(msg.message));
-        }
-      };
-      worker.addEventListener('message', handler);
-
-      const data = new Float32Array(audioData);
-      worker.postMessage(
-        { type: 'analyzeBpmKey', audioData: data, sampleRate },
-        [data.buffer],
-      );
-    });
+  analyzeBpmKey(audioData: Float32Array, sampleRate: number, options: AnalyzeOptions = {}): Promise<BpmKeyResult> {
+    const data = new Float32Array(audioData);
+    return this.pool.run(client => client.request(
+      { type: 'analyzeBpmKey', audioData: data, sampleRate },
+      [data.buffer],
+      { onProgress: this.onProgress, signal: options.signal },
+    ));
   }
 
-  analyze(audioData: Float32Array, sampleRate: number, leftChannel?: Float32Array, rightChannel?: Float32Array): Promise<void> {
-    if (!workerReady) {
-      return Promise.reject(new Error('Analyzer not initialized'));
-    }
-
-    const worker = getWorker();
-
-    return new Promise((resolve, reject) => {
-      const handler = (e: MessageEvent<WorkerResponse>) => {
-        const msg = e.data;
-        if (msg.type === 'progress') {
-          this.onProgress(msg.phase ?? '', msg.percent ?? 0, msg.label ?? '');
-        } else if (msg.type === 'partial' && msg.data) {
-          this.onPartial(msg.data);
-        } else if (msg.type === 'complete') {
-          worker.removeEventListener('message', handler);
-          resolve();
-        } else if (msg.type === 'error') {
-          worker.removeEventListener('message', handler);
-          reject(new Error(msg.message));
-        }
-      };
-      worker.addEventListener('message', handler);
+  analyzeSpectrogram(
+    audioData: Float32Array,
+    sampleRate: number,
+    params: SpectrogramParams,
+    options: AnalyzeOptions = {},
+  ): Promise<SpectrogramResult> {
+    const data = new Float32Array(audioData);
+    return this.pool.run(client => client.request(
+      { type: 'spectrogram', audioData: data, sampleRate, params },
+      [data.buffer],
+      { onProgress: this.onProgress, signal: options.signal },
+    ));
+  }
 
-      // Copy buffers for transfer (postMessage transfers ownership)
-      const left = new Float32Array(leftChannel ?? audioData);
-      const right = new Float32Array(rightChannel ?? audioData);
-      worker.postMessage(
-        { type: 'analyze', leftChannel: left, rightChannel: right, sampleRate },
-        [left.buffer, right.buffer],
-      );
-    });
+  /** channels は AudioBuffer のチャンネル順（channelLayout の並び）で渡す */
+  analyze(channels: Float32Array[], sampleRate: number, options: AnalyzeAudioOptions = {}): Promise<void> {
+    // Copy buffers for transfer (postMessage transfers ownership)
+    const copies = channels.map(c => new Float32Array(c));
+    return this.pool.run(client => client.request(
+      {
+        type: 'analyze', channels: copies, sampleRate,
+        detection: options.detection ?? DEFAULT_DETECTION,
+      },
+      copies.map(c => c.buffer),
+      { onProgress: this.onProgress, onPartial: this.onPartial, signal: options.signal },
+    ));
   }
 }
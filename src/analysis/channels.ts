@@ -0,0 +1,57 @@
+// チャンネル配置と BS.1770 のチャンネル重み
+// 並び順は WAVE (WAVEFORMATEXTENSIBLE) / Web Audio の既定順に合わせる
+
+export interface ChannelInfo {
+  /** 短い表示名（L, R, C, LFE, Ls ...） */
+  label: string;
+  /** BS.1770 のチャンネル重み G_i。LFE は 0（ラウドネス計算から除外） */
+  weight: number;
+  /** チャンネルマップ上の位置（3 列 × 3 行のグリッド、1 始まり） */
+  row: number;
+  col: number;
+}
+
+// サラウンドは +1.5 dB（BS.1770-4 Table 3）
+const SURROUND_WEIGHT = 1.41;
+
+function ch(label: string, weight: number, row: number, col: number): ChannelInfo {
+  return { label, weight, row, col };
+}
+
+const L = ch('L', 1.0, 1, 1);
+const R = ch('R', 1.0, 1, 3);
+const C = ch('C', 1.0, 1, 2);
+const LFE = ch('LFE', 0, 2, 2);
+const LS = ch('Ls', SURROUND_WEIGHT, 3, 1);
+const RS = ch('Rs', SURROUND_WEIGHT, 3, 3);
+
+const LAYOUTS: Record<number, { name: string; channels: ChannelInfo[] }> = {
+  1: { name: 'Mono', channels: [ch('M', 1.0, 1, 2)] },
+  2: { name: 'Stereo', channels: [L, R] },
+  3: { name: '3.0', channels: [L, R, C] },
+  4: { name: 'Quad', channels: [L, R, LS, RS] },
+  6: { name: '5.1', channels: [L, R, C, LFE, LS, RS] },
+  8: {
+    name: '7.1',
+    channels: [
+      L, R, C, LFE,
+      ch('Lrs', SURROUND_WEIGHT, 3, 1), ch('Rrs', SURROUND_WEIGHT, 3, 3),
+      ch('Ls', SURROUND_WEIGHT, 2, 1), ch('Rs', SURROUND_WEIGHT, 2, 3),
+    ],
+  },
+};
+
+/** チャンネル数から配置を推定する。未知のチャンネル数は重み 1.0 の連番 */
+export function channelLayout(count: number): ChannelInfo[] {
+  const known = LAYOUTS[count];
+  if (known) return known.channels;
+  return Array.from({ length: count }, (_, i) => ch(`Ch${i + 1}`, 1.0, Math.floor(i / 3) + 1, (i % 3) + 1));
+}
+
+export function channelLayoutName(count: number): string {
+  return LAYOUTS[count]?.name ?? `${count}ch`;
+}
+
+export function channelLabel(count: number, index: number): string {
+  return channelLayout(count)[index]?.label ?? `Ch${index + 1}`;
+}
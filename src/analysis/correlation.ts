@@ -0,0 +1,40 @@
+// L/R 相関の時系列（Worker の計測と表示側の区間検出で共有する）
+
+// Momentary Loudness と同じく 400ms 窓を 100ms ずつずらす
+export const CORRELATION_HOP_SEC = 0.1;
+export const CORRELATION_WINDOW_SEC = 0.4;
+
+/** 相関係数がしきい値を下回り続けた区間 */
+export interface CorrelationRegion {
+  start: number;
+  end: number;
+  /** 区間内の最小相関係数 */
+  min: number;
+}
+
+/** correlationSeries から、threshold 未満が minDuration 秒以上続いた区間を取り出す */
+export function findLowCorrelationRegions(series: number[], threshold: number, minDuration: number): CorrelationRegion[] {
+  const regions: CorrelationRegion[] = [];
+  let i = 0;
+  while (i < series.length) {
+    if (series[i] >= threshold) { i++; continue; }
+    let j = i;
+    let min = series[i];
+    while (j + 1 < series.length && series[j + 1] < threshold) {
+      j++;
+      if (series[j] < min) min = series[j];
+    }
+    const start = i * CORRELATION_HOP_SEC;
+    const end = j * CORRELATION_HOP_SEC + CORRELATION_WINDOW_SEC;
+    if (end - start >= minDuration) regions.push({ start, end, min });
+    i = j + 1;
+  }
+  return regions;
+}
+
+/** time（秒）を含む窓の相関係数。窓の中心で引く */
+export function correlationAt(series: number[], time: number): number | null {
+  if (series.length === 0) return null;
+  const i = Math.round((time - CORRELATION_WINDOW_SEC / 2) / CORRELATION_HOP_SEC);
+  return series[Math.min(series.length - 1, Math.max(0, i))];
+}
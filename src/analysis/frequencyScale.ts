@@ -0,0 +1,58 @@
+// 周波数軸のスケール変換（スペクトログラムの行割り当てと軸表示で共有する）
+import type { FrequencyScale } from './types';
+
+// log スケールの下限。これより下は表示しても情報が少ない
+export const LOG_MIN_HZ = 20;
+
+function hzToMel(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+function melToHz(mel: number): number {
+  return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+export function scaleMinHz(scale: FrequencyScale): number {
+  return scale === 'log' ? LOG_MIN_HZ : 0;
+}
+
+/** 周波数をスケール上の位置 0〜1 に変換する（0 = minHz, 1 = maxHz） */
+export function frequencyToPosition(scale: FrequencyScale, hz: number, maxHz: number): number {
+  const minHz = scaleMinHz(scale);
+  if (scale === 'mel') {
+    return (hzToMel(hz) - hzToMel(minHz)) / (hzToMel(maxHz) - hzToMel(minHz));
+  }
+  return Math.log(Math.max(hz, minHz) / minHz) / Math.log(maxHz / minHz);
+}
+
+/** frequencyToPosition の逆変換 */
+export function positionToFrequency(scale: FrequencyScale, pos: number, maxHz: number): number {
+  const minHz = scaleMinHz(scale);
+  if (scale === 'mel') {
+    return melToHz(hzToMel(minHz) + pos * (hzToMel(maxHz) - hzToMel(minHz)));
+  }
+  return minHz * Math.pow(maxHz / minHz, pos);
+}
+
+/** bins 行に等分割したときの境界周波数（bins + 1 個、低域→高域） */
+export function scaleEdges(scale: FrequencyScale, bins: number, maxHz: number): Float32Array {
+  const edges = new Float32Array(bins + 1);
+  for (let i = 0; i <= bins; i++) edges[i] = positionToFrequency(scale, i / bins, maxHz);
+  return edges;
+}
+
+export function formatFrequency(hz: number): string {
+  return hz >= 1000 ? `${(hz / 1000).toFixed(hz >= 10000 ? 1 : 2)} kHz` : `${Math.round(hz)} Hz`;
+}
+
+// 1/3 オクターブバンドの ISO 公称中心周波数（20 Hz〜20 kHz）
+export const THIRD_OCTAVE_CENTERS = [
+  20, 25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630, 800,
+  1000, 1250, 1600, 2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000, 12500, 16000, 20000,
+];
+
+/** 中心周波数 hz の 1/fraction オクターブ帯域の下端・上端 */
+export function bandEdges(hz: number, fraction: number): [number, number] {
+  const half = Math.pow(2, 1 / (2 * fraction));
+  return [hz / half, hz * half];
+}
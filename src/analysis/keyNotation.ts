@@ -0,0 +1,79 @@
+// キーの表記: 標準表記・Camelot・Open Key と平行調（BpmKeyView とキーの色帯で共通）
+
+export type KeyNotation = 'standard' | 'camelot' | 'openkey';
+
+export const KEY_NOTATIONS: { id: KeyNotation; name: string }[] = [
+  { id: 'standard', name: '標準' },
+  { id: 'camelot', name: 'Camelot' },
+  { id: 'openkey', name: 'Open Key' },
+];
+
+const KEY_DISPLAY: Record<string, string> = {
+  C: 'C', 'C#': 'C#/Db', D: 'D', 'D#': 'D#/Eb', E: 'E', F: 'F',
+  'F#': 'F#/Gb', G: 'G', 'G#': 'G#/Ab', A: 'A', 'A#': 'A#/Bb', B: 'B',
+  Db: 'C#/Db', Eb: 'D#/Eb', Gb: 'F#/Gb', Ab: 'G#/Ab', Bb: 'A#/Bb',
+};
+
+const SCALE_DISPLAY: Record<string, string> = {
+  major: 'Major',
+  minor: 'Minor',
+};
+
+// 5 度圏の並び（C から時計回り）
+const CIRCLE_OF_FIFTHS = ['C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'G#', 'D#', 'A#', 'F'];
+const FLAT_TO_SHARP: Record<string, string> = { Db: 'C#', Eb: 'D#', Gb: 'F#', Ab: 'G#', Bb: 'A#' };
+
+/** 5 度圏上の位置（C = 0、G = 1 …）。不明なキーは -1 */
+export function fifthsIndex(key: string): number {
+  return CIRCLE_OF_FIFTHS.indexOf(FLAT_TO_SHARP[key] ?? key);
+}
+
+/** 平行調と同じになるよう、短調は平行長調（短 3 度上）の 5 度圏上の位置を返す */
+export function wheelPosition(key: string, scale: string): number {
+  const index = fifthsIndex(key);
+  if (index < 0) return -1;
+  return scale === 'minor' ? (index + 9) % 12 : index;
+}
+
+/** 異名同音（C# と Db 等）を同じキーとみなして比べる */
+export function isSameKey(a: { key: string; scale: string }, b: { key: string; scale: string }): boolean {
+  return a.scale === b.scale && (a.key === b.key || (fifthsIndex(a.key) >= 0 && fifthsIndex(a.key) === fifthsIndex(b.key)));
+}
+
+export function keyName(key: string): string {
+  return KEY_DISPLAY[key] ?? key;
+}
+
+export function scaleName(scale: string): string {
+  return SCALE_DISPLAY[scale] ?? scale;
+}
+
+/** Camelot: 8B = C major、8A = A minor。5 度上で数字が 1 つ進む */
+export function camelotCode(key: string, scale: string): string | null {
+  const position = wheelPosition(key, scale);
+  if (position < 0) return null;
+  return `${((position + 7) % 12) + 1}${scale === 'minor' ? 'A' : 'B'}`;
+}
+
+/** Open Key: 1d = C major、1m = A minor */
+export function openKeyCode(key: string, scale: string): string | null {
+  const position = wheelPosition(key, scale);
+  if (position < 0) return null;
+  return `${position + 1}${scale === 'minor' ? 'm' : 'd'}`;
+}
+
+/** 平行調（C major ⇔ A minor） */
+export function relativeKey(key: string, scale: string): { key: string; scale: string } | null {
+  const index = fifthsIndex(key);
+  if (index < 0 || (scale !== 'major' && scale !== 'minor')) return null;
+  return scale === 'major'
+    ? { key: CIRCLE_OF_FIFTHS[(index + 3) % 12], scale: 'minor' }
+    : { key: CIRCLE_OF_FIFTHS[(index + 9) % 12], scale: 'major' };
+}
+
+/** notation の表記でキーを書く。Camelot / Open Key に無いキーは標準表記にする */
+export function formatKey(key: string, scale: string, notation: KeyNotation = 'standard'): string {
+  const code = notation === 'camelot' ? camelotCode(key, scale) : notation === 'openkey' ? openKeyCode(key, scale) : null;
+  if (code) return code;
+  return scale ? `${keyName(key)} ${scaleName(scale)}` : keyName(key);
+}
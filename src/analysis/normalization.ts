@@ -0,0 +1,68 @@
+// 配信プラットフォームのラウドネス正規化シミュレーション（DetailView の表・バッチ表・プレイヤーで共通）
+// 各社の公開情報に基づく目安。実際の挙動はアプリ・設定・アルバム単位の正規化などで変わる
+
+/**
+ * 目標より小さい曲を持ち上げるときの扱い
+ * - none: 下げるだけで持ち上げない
+ * - headroom: ピークが ceiling を超えない範囲までしか持ち上げない
+ * - limiter: 目標まで持ち上げ、超えたピークはリミッターで ceiling に抑える
+ */
+export type PositiveGainPolicy = 'none' | 'headroom' | 'limiter';
+
+export interface NormalizationPlatform {
+  id: string;
+  name: string;
+  /** 目標ラウドネス (LUFS) */
+  target: number;
+  positiveGain: PositiveGainPolicy;
+  /** headroom / limiter で許すピーク (dBTP) */
+  ceiling: number;
+}
+
+export const NORMALIZATION_PLATFORMS: NormalizationPlatform[] = [
+  { id: 'spotify', name: 'Spotify（標準）', target: -14, positiveGain: 'headroom', ceiling: -1 },
+  { id: 'spotify-loud', name: 'Spotify（大）', target: -11, positiveGain: 'limiter', ceiling: -1 },
+  { id: 'apple-music', name: 'Apple Music', target: -16, positiveGain: 'headroom', ceiling: -1 },
+  { id: 'youtube', name: 'YouTube', target: -14, positiveGain: 'none', ceiling: -1 },
+  { id: 'tidal', name: 'Tidal', target: -14, positiveGain: 'none', ceiling: -1 },
+  { id: 'amazon-music', name: 'Amazon Music', target: -14, positiveGain: 'none', ceiling: -1 },
+];
+
+export interface NormalizationResult {
+  platform: NormalizationPlatform;
+  /** 適用されるゲイン (dB) */
+  gain: number;
+  /** リミッターがかかるか（limiter のプラットフォームで正規化後のピークが ceiling を超える） */
+  limiter: boolean;
+  /** 正規化後のピーク (dBTP) */
+  resultPeak: number;
+  /** 正規化後のラウドネス (LUFS)。リミッターによる目減りは含めない */
+  resultLoudness: number;
+}
+
+/** Integrated が測れない（無音）ときは null */
+export function simulateNormalization(
+  platform: NormalizationPlatform,
+  integratedLUFS: number,
+  truePeakDBTP: number,
+): NormalizationResult | null {
+  if (!isFinite(integratedLUFS)) return null;
+  let gain = platform.target - integratedLUFS;
+  if (gain > 0) {
+    if (platform.positiveGain === 'none') gain = 0;
+    else if (platform.positiveGain === 'headroom') gain = Math.min(gain, Math.max(0, platform.ceiling - truePeakDBTP));
+  }
+  const peak = truePeakDBTP + gain;
+  const limiter = platform.positiveGain === 'limiter' && peak > platform.ceiling;
+  return {
+    platform,
+    gain,
+    limiter,
+    resultPeak: limiter ? platform.ceiling : peak,
+    resultLoudness: integratedLUFS + gain,
+  };
+}
+
+export function findPlatform(id: string): NormalizationPlatform | undefined {
+  return NORMALIZATION_PLATFORMS.find(p => p.id === id);
+}
@@ -0,0 +1,8 @@
+// クオリティチェック結果の集約（パネル・バッチ表で共通）
+import type { ChannelDcOffset } from './types';
+
+/** チャンネル中で最も大きい DC オフセット (dBFS)。チャンネルが無ければ null */
+export function worstDcOffset(channels: ChannelDcOffset[]): number | null {
+  if (channels.length === 0) return null;
+  return Math.max(...channels.map(c => c.dB));
+}
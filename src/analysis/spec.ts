@@ -0,0 +1,327 @@
+// 納品スペック（プロファイル）定義と判定ロジック
+import type { DetectionParams } from './types';
+
+export type Severity = 'warning' | 'danger';
+export type JudgeLevel = 'safe' | Severity;
+
+export interface Judgement {
+  level: JudgeLevel;
+  msg: string;
+}
+
+export type SpecMetricId =
+  | 'duration'
+  | 'sampleRate'
+  | 'channels'
+  | 'format'
+  | 'integratedLUFS'
+  | 'truePeakDBTP'
+  | 'loudnessRange'
+  | 'maxMomentary'
+  | 'maxShortTerm'
+  | 'shortTermP10'
+  | 'shortTermP95'
+  | 'stereoWidth'
+  | 'correlation'
+  | 'subBassSide'
+  | 'monoDrop'
+  | 'monoBandCancel'
+  | 'clipCount'
+  | 'clickCount'
+  | 'internalSilence'
+  | 'dcOffset'
+  | 'channelBalance'
+  | 'polarity'
+  | 'headSilence'
+  | 'tailSilence';
+
+/** 数値の上下限。null の側は判定しない */
+export interface RangeRule {
+  kind: 'range';
+  min: number | null;
+  max: number | null;
+  belowSeverity: Severity;
+  aboveSeverity: Severity;
+}
+
+/** 許可された値の列挙（サンプルレート、フォーマット等） */
+export interface AllowedRule {
+  kind: 'allowed';
+  values: string[];
+  severity: Severity;
+}
+
+export type SpecRule = RangeRule | AllowedRule;
+
+export interface SpecProfile {
+  id: string;
+  name: string;
+  builtin: boolean;
+  rules: Partial<Record<SpecMetricId, SpecRule>>;
+  /** 検出パラメータ（解析時に Worker へ渡すもの・表示側で判定するもの） */
+  detection: DetectionParams;
+}
+
+export const DEFAULT_DETECTION: DetectionParams = {
+  truePeakCeiling: -1.0,
+  correlationThreshold: 0,
+  correlationMinDuration: 1.0,
+  clipLevel: -0.01,
+  clipMinRun: 3,
+  clickThreshold: 20,
+  silenceThreshold: -60,
+  silenceMinDuration: 0.5,
+};
+
+export type DetectionParamId = keyof DetectionParams;
+
+interface DetectionParamMeta {
+  label: string;
+  unit: string;
+  step: number;
+}
+
+export const DETECTION_PARAMS: Record<DetectionParamId, DetectionParamMeta> = {
+  truePeakCeiling: { label: 'True Peak オーバー上限', unit: 'dBTP', step: 0.1 },
+  correlationThreshold: { label: '低相関のしきい値', unit: '', step: 0.05 },
+  correlationMinDuration: { label: '低相関の継続時間', unit: '秒', step: 0.1 },
+  clipLevel: { label: 'クリップ判定レベル', unit: 'dBFS', step: 0.01 },
+  clipMinRun: { label: 'クリップの連続サンプル数', unit: 'サンプル', step: 1 },
+  clickThreshold: { label: 'クリック検出のしきい値', unit: 'dB', step: 1 },
+  silenceThreshold: { label: '曲中の無音レベル', unit: 'dBFS', step: 1 },
+  silenceMinDuration: { label: '曲中の無音の最小長', unit: '秒', step: 0.1 },
+};
+
+export const DETECTION_PARAM_IDS = Object.keys(DETECTION_PARAMS) as DetectionParamId[];
+
+interface SpecMetric {
+  label: string;
+  unit: string;
+  kind: SpecRule['kind'];
+  lowText: string;
+  highText: string;
+  decimals?: number;
+  signed?: boolean;
+  format?: (v: number) => string;
+}
+
+function formatMinSec(sec: number): string {
+  const m = Math.floor(sec / 60);
+  const s = Math.floor(sec % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+export const SPEC_METRICS: Record<SpecMetricId, SpecMetric> = {
+  duration: { label: '長さ', unit: '', kind: 'range', lowText: 'ちょっと短めかも', highText: 'ちょっと長めかも', format: formatMinSec },
+  sampleRate: { label: 'サンプルレート', unit: 'Hz', kind: 'allowed', lowText: '', highText: '' },
+  channels: { label: 'チャンネル', unit: 'ch', kind: 'range', lowText: 'チャンネル不足', highText: 'チャンネル過多', decimals: 0 },
+  format: { label: 'フォーマット', unit: '', kind: 'allowed', lowText: '', highText: '' },
+  integratedLUFS: { label: 'Integrated', unit: 'LUFS', kind: 'range', lowText: '音圧低め', highText: '音圧高め', decimals: 1 },
+  truePeakDBTP: { label: 'True Peak', unit: 'dBTP', kind: 'range', lowText: 'ピーク低め', highText: 'ピーク超過', decimals: 1, signed: true },
+  loudnessRange: { label: 'Loudness Range', unit: 'LU', kind: 'range', lowText: 'ダイナミクス少なめ', highText: 'ダイナミクス広め', decimals: 1 },
+  maxMomentary: { label: 'Max Momentary', unit: 'LUFS', kind: 'range', lowText: '', highText: '瞬間的に大きすぎる', decimals: 1 },
+  maxShortTerm: { label: 'Max Short-term', unit: 'LUFS', kind: 'range', lowText: '', highText: '3 秒平均の最大が大きすぎる', decimals: 1 },
+  shortTermP10: { label: 'Short-term P10', unit: 'LUFS', kind: 'range', lowText: '静かな部分が小さすぎる', highText: '静かな部分も大きい', decimals: 1 },
+  shortTermP95: { label: 'Short-term P95', unit: 'LUFS', kind: 'range', lowText: '大きい部分が控えめ', highText: '大きい部分が大きすぎる', decimals: 1 },
+  stereoWidth: { label: 'Stereo Width', unit: '%', kind: 'range', lowText: 'ちょっと狭め', highText: 'ちょっと広め', decimals: 0 },
+  correlation: { label: 'Correlation', unit: '', kind: 'range', lowText: '位相に注意 — モノラル再生で音が痩せるかも', highText: 'ほぼモノラル', decimals: 2, signed: true },
+  subBassSide: { label: 'Sub-bass Side', unit: 'dB', kind: 'range', lowText: '', highText: '低域に Side 成分 — モノラル再生・アナログ盤で問題になりやすい', decimals: 1, signed: true },
+  monoDrop: { label: 'Mono 化の音量差', unit: 'dB', kind: 'range', lowText: 'モノラル再生で音量が落ちる', highText: '', decimals: 1, signed: true },
+  monoBandCancel: { label: 'Mono 化の打ち消し（最大）', unit: 'dB', kind: 'range', lowText: 'モノラル再生で消える帯域あり', highText: '', decimals: 1, signed: true },
+  clipCount: { label: 'クリップ', unit: '箇所', kind: 'range', lowText: '', highText: 'クリップあり — 歪みの原因に', decimals: 0 },
+  clickCount: { label: 'クリック / ポップ', unit: '箇所', kind: 'range', lowText: '', highText: 'クリック・ノイズの疑い — 編集点や書き出しを確認', decimals: 0 },
+  internalSilence: { label: '曲中の無音', unit: '箇所', kind: 'range', lowText: '', highText: '曲の途中に無音 — ドロップアウトやミュートの消し忘れ？', decimals: 0 },
+  dcOffset: { label: 'DC オフセット（最大）', unit: 'dBFS', kind: 'range', lowText: '', highText: 'DC オフセットあり — ハイパスで除去を', decimals: 1 },
+  channelBalance: { label: 'L/R バランス', unit: 'LU', kind: 'range', lowText: 'R 寄り', highText: 'L 寄り', decimals: 1, signed: true },
+  polarity: { label: '極性（低域の L/R 相関）', unit: '', kind: 'range', lowText: '片チャンネルの極性反転の疑い', highText: '', decimals: 2, signed: true },
+  headSilence: { label: '冒頭無音', unit: '秒', kind: 'range', lowText: '短め', highText: '長め', decimals: 2 },
+  tailSilence: { label: '末尾無音', unit: '秒', kind: 'range', lowText: '短め', highText: '長め', decimals: 2 },
+};
+
+export const SPEC_METRIC_IDS = Object.keys(SPEC_METRICS) as SpecMetricId[];
+
+function range(min: number | null, max: number | null, belowSeverity: Severity = 'warning', aboveSeverity: Severity = 'warning'): RangeRule {
+  return { kind: 'range', min, max, belowSeverity, aboveSeverity };
+}
+
+function allowed(values: string[], severity: Severity = 'warning'): AllowedRule {
+  return { kind: 'allowed', values, severity };
+}
+
+export const BUILTIN_PROFILES: SpecProfile[] = [
+  {
+    id: 'nextlight',
+    name: 'NEXTLIGHT 標準',
+    builtin: true,
+    rules: {
+      duration: range(120, 210),
+      sampleRate: allowed(['48000']),
+      channels: range(2, null),
+      format: allowed(['WAV']),
+      integratedLUFS: range(-9, -6, 'warning', 'danger'),
+      truePeakDBTP: range(null, 1.5, 'warning', 'danger'),
+      loudnessRange: range(2.5, 6.0),
+      stereoWidth: range(20, 60),
+      correlation: range(0, null, 'danger'),
+      subBassSide: range(null, -20),
+      monoDrop: range(-3, null),
+      monoBandCancel: range(-9, null),
+      clipCount: range(null, 0, 'warning', 'danger'),
+      clickCount: range(null, 0),
+      internalSilence: range(null, 0),
+      dcOffset: range(null, -50),
+      channelBalance: range(-1.5, 1.5),
+      polarity: range(0, null, 'danger'),
+      headSilence: range(null, 1.0),
+      tailSilence: range(null, 1.0),
+    },
+    detection: { ...DEFAULT_DETECTION, truePeakCeiling: 0 },
+  },
+  {
+    id: 'spotify',
+    name: 'Spotify (-14 LUFS / -1 dBTP)',
+    builtin: true,
+    rules: {
+      sampleRate: allowed(['44100', '48000']),
+      format: allowed(['WAV', 'FLAC']),
+      integratedLUFS: range(-15, -13),
+      truePeakDBTP: range(null, -1.0, 'warning', 'danger'),
+      subBassSide: range(null, -15),
+      monoDrop: range(-4, null),
+      clipCount: range(null, 0),
+      dcOffset: range(null, -50),
+      polarity: range(0, null),
+      headSilence: range(null, 1.0),
+      tailSilence: range(null, 2.0),
+    },
+    detection: { ...DEFAULT_DETECTION, truePeakCeiling: -1.0 },
+  },
+  {
+    id: 'apple-music',
+    name: 'Apple Music (-16 LUFS / -1 dBTP)',
+    builtin: true,
+    rules: {
+      sampleRate: allowed(['44100', '48000', '88200', '96000']),
+      format: allowed(['WAV', 'FLAC']),
+      integratedLUFS: range(-17, -15),
+      truePeakDBTP: range(null, -1.0, 'warning', 'danger'),
+      subBassSide: range(null, -15),
+      monoDrop: range(-4, null),
+      clipCount: range(null, 0),
+      dcOffset: range(null, -50),
+      polarity: range(0, null),
+      headSilence: range(null, 1.0),
+      tailSilence: range(null, 2.0),
+    },
+    detection: { ...DEFAULT_DETECTION, truePeakCeiling: -1.0 },
+  },
+  {
+    id: 'ebu-r128',
+    name: 'EBU R128 放送 (-23 LUFS / -1 dBTP)',
+    builtin: true,
+    rules: {
+      sampleRate: allowed(['48000']),
+      channels: range(2, null),
+      format: allowed(['WAV']),
+      integratedLUFS: range(-24, -22, 'danger', 'danger'),
+      truePeakDBTP: range(null, -1.0, 'warning', 'danger'),
+    },
+    detection: { ...DEFAULT_DETECTION, truePeakCeiling: -1.0 },
+  },
+  {
+    // 短尺（CM 等）向けの補足仕様。Integrated に加えて short-term の最大を制限する
+    id: 'ebu-r128-s1',
+    name: 'EBU R128 s1 短尺 (-23 LUFS / Max S -18)',
+    builtin: true,
+    rules: {
+      sampleRate: allowed(['48000']),
+      channels: range(2, null),
+      format: allowed(['WAV']),
+      integratedLUFS: range(-24, -22, 'danger', 'danger'),
+      truePeakDBTP: range(null, -1.0, 'warning', 'danger'),
+      maxShortTerm: range(null, -18, 'warning', 'danger'),
+    },
+    detection: { ...DEFAULT_DETECTION, truePeakCeiling: -1.0 },
+  },
+  {
+    id: 'atsc-a85',
+    name: 'ATSC A/85 (-24 LKFS / -2 dBTP)',
+    builtin: true,
+    rules: {
+      sampleRate: allowed(['48000']),
+      channels: range(2, null),
+      format: allowed(['WAV']),
+      integratedLUFS: range(-26, -22, 'danger', 'danger'),
+      truePeakDBTP: range(null, -2.0, 'warning', 'danger'),
+    },
+    detection: { ...DEFAULT_DETECTION, truePeakCeiling: -2.0 },
+  },
+];
+
+export const DEFAULT_PROFILE_ID = BUILTIN_PROFILES[0].id;
+
+export function formatSpecValue(metric: SpecMetricId, v: number): string {
+  const m = SPEC_METRICS[metric];
+  if (m.format) return m.format(v);
+  const s = m.decimals != null ? String(Number(v.toFixed(m.decimals))) : String(v);
+  return m.signed && v > 0 ? `+${s}` : s;
+}
+
+function withUnit(metric: SpecMetricId, text: string): string {
+  const unit = SPEC_METRICS[metric].unit;
+  return unit ? `${text} ${unit}` : text;
+}
+
+/** ルールの目安範囲を表示用文字列にする（例: "-9〜-6 LUFS"） */
+export function describeRule(metric: SpecMetricId, rule: SpecRule): string {
+  if (rule.kind === 'allowed') return rule.values.join(' / ');
+  const min = rule.min != null ? formatSpecValue(metric, rule.min) : null;
+  const max = rule.max != null ? formatSpecValue(metric, rule.max) : null;
+  if (min != null && max != null) return withUnit(metric, `${min}〜${max}`);
+  if (max != null) return `${withUnit(metric, max)} 以下`;
+  if (min != null) return `${withUnit(metric, min)} 以上`;
+  return '';
+}
+
+/**
+ * プロファイルのルールで値を判定する。
+ * ルールが無いメトリクスや値が無い場合は null（判定対象外）。
+ */
+export function judge(profile: SpecProfile, metric: SpecMetricId, value: number | string | null | undefined): Judgement | null {
+  const rule = profile.rules[metric];
+  if (!rule || value == null) return null;
+
+  if (rule.kind === 'allowed') {
+    if (rule.values.length === 0) return null;
+    return rule.values.includes(String(value))
+      ? { level: 'safe', msg: 'OK!' }
+      : { level: rule.severity, msg: `${describeRule(metric, rule)} が推奨` };
+  }
+
+  const v = typeof value === 'number' ? value : parseFloat(value);
+  if (Number.isNaN(v)) return null;
+  const m = SPEC_METRICS[metric];
+  const bounded = rule.min != null && rule.max != null;
+  const target = `${describeRule(metric, rule)} が目安`;
+  // ±∞（片側チャンネルが無音の L/R 差など）は範囲外の極端な値なので、外れる側は danger にする
+  const infinite = !isFinite(v);
+
+  if (rule.min != null && v < rule.min) return { level: infinite ? 'danger' : rule.belowSeverity, msg: `${m.lowText} — ${target}` };
+  if (rule.max != null && v > rule.max) return { level: infinite ? 'danger' : rule.aboveSeverity, msg: `${m.highText} — ${target}` };
+  if (rule.min == null && rule.max == null) return null;
+  return { level: 'safe', msg: bounded ? 'いい感じ!' : 'OK!' };
+}
+
+export function levelColor(level: JudgeLevel | null | undefined): string | undefined {
+  switch (level) {
+    case 'safe': return 'var(--success)';
+    case 'warning': return 'var(--warning)';
+    case 'danger': return 'var(--danger)';
+    default: return undefined;
+  }
+}
+
+/** 判定結果の色だけが欲しい場合のショートカット */
+export function judgeColor(profile: SpecProfile, metric: SpecMetricId, value: number | string | null | undefined): string | undefined {
+  return levelColor(judge(profile, metric, value)?.level);
+}
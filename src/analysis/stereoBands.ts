@@ -0,0 +1,18 @@
+// マルチバンド M/S の帯域定義（Worker の計測と表示で共有する）
+
+export type StereoBandId = 'low' | 'lowMid' | 'highMid' | 'high';
+
+export interface StereoBandDef {
+  id: StereoBandId;
+  label: string;
+}
+
+// クロスオーバー周波数 (Hz)。STEREO_BANDS は低い順に並べ、境界は隣り合う帯域で共有する
+export const STEREO_BAND_CROSSOVERS = [120, 2000, 8000];
+
+export const STEREO_BANDS: StereoBandDef[] = [
+  { id: 'low', label: '< 120 Hz' },
+  { id: 'lowMid', label: '120 Hz–2 kHz' },
+  { id: 'highMid', label: '2–8 kHz' },
+  { id: 'high', label: '> 8 kHz' },
+];
@@ -0,0 +1,184 @@
+// トーンバランス: 平均スペクトルとターゲットカーブの比較
+import { formatFrequency, THIRD_OCTAVE_CENTERS } from './frequencyScale';
+import type { JudgeLevel } from './spec';
+import type { SpectrumResult } from './types';
+
+/** 1/3 オクターブ中心ごとの相対レベル（dB）。THIRD_OCTAVE_CENTERS と同じ並びで、無いバンドは null */
+export interface TargetCurve {
+  id: string;
+  name: string;
+  builtin: boolean;
+  levels: (number | null)[];
+}
+
+export interface BandDeviation {
+  frequency: number;
+  /** オフセット合わせ後の自分のレベル */
+  measured: number;
+  target: number;
+  deviation: number;
+  level: JudgeLevel;
+}
+
+export interface TonalBalanceWarning {
+  level: Exclude<JudgeLevel, 'safe'>;
+  msg: string;
+}
+
+export interface TonalBalanceComparison {
+  /** 自分のスペクトルに足してターゲットに重ねたオフセット (dB) */
+  offset: number;
+  bands: BandDeviation[];
+  warnings: TonalBalanceWarning[];
+}
+
+// 偏差の判定しきい値 (dB)
+export const DEVIATION_WARNING_DB = 3;
+export const DEVIATION_DANGER_DB = 6;
+
+// レベル合わせに使う帯域。両端は曲ごとのばらつきが大きいので除く
+const ALIGN_MIN_HZ = 50;
+const ALIGN_MAX_HZ = 10000;
+// 警告を出す帯域。20 Hz・20 kHz 付近はバンド内のビン数が少なく値が暴れやすい
+const WARN_MIN_HZ = 25;
+const WARN_MAX_HZ = 16000;
+
+/** 折れ線のアンカー (Hz, dB) を対数周波数で補間して 1/3 オクターブ中心に展開する */
+function fromAnchors(anchors: [number, number][]): number[] {
+  return THIRD_OCTAVE_CENTERS.map(hz => {
+    if (hz <= anchors[0][0]) return anchors[0][1];
+    for (let i = 1; i < anchors.length; i++) {
+      const [f1, d1] = anchors[i];
+      if (hz <= f1) {
+        const [f0, d0] = anchors[i - 1];
+        const t = Math.log(hz / f0) / Math.log(f1 / f0);
+        return Math.round((d0 + (d1 - d0) * t) * 10) / 10;
+      }
+    }
+    return anchors[anchors.length - 1][1];
+  });
+}
+
+// ジャンル別の目安カーブ。市販曲の平均的な傾向をならしたもので、絶対的な正解ではない
+export const BUILTIN_TARGET_CURVES: TargetCurve[] = [
+  {
+    id: 'pop',
+    name: 'Pop',
+    builtin: true,
+    levels: fromAnchors([[20, -8], [40, -1], [80, 0], [160, -1], [500, -4], [1000, -6], [2000, -8], [5000, -11], [10000, -15], [16000, -22], [20000, -30]]),
+  },
+  {
+    id: 'edm',
+    name: 'EDM',
+    builtin: true,
+    levels: fromAnchors([[20, -3], [50, 2], [100, 1], [250, -3], [1000, -8], [4000, -11], [10000, -14], [16000, -19], [20000, -27]]),
+  },
+  {
+    id: 'hiphop',
+    name: 'Hip-Hop',
+    builtin: true,
+    levels: fromAnchors([[20, -2], [50, 3], [100, 1], [300, -4], [1000, -8], [4000, -13], [10000, -17], [16000, -24], [20000, -32]]),
+  },
+  {
+    id: 'rock',
+    name: 'Rock',
+    builtin: true,
+    levels: fromAnchors([[20, -12], [50, -3], [100, 0], [250, -1], [1000, -4], [3000, -7], [8000, -12], [16000, -20], [20000, -28]]),
+  },
+  {
+    id: 'acoustic',
+    name: 'Acoustic / Jazz',
+    builtin: true,
+    levels: fromAnchors([[20, -15], [60, -5], [150, 0], [500, -2], [1000, -4], [4000, -10], [10000, -16], [16000, -23], [20000, -32]]),
+  },
+  {
+    id: 'classical',
+    name: 'Classical',
+    builtin: true,
+    levels: fromAnchors([[20, -17], [60, -7], [200, 0], [1000, -4], [4000, -11], [10000, -18], [16000, -26], [20000, -34]]),
+  },
+];
+
+export const DEFAULT_TARGET_CURVE_ID = BUILTIN_TARGET_CURVES[0].id;
+
+/** 解析済みの平均スペクトルをそのままターゲットカーブにする（リファレンス曲から作成） */
+export function curveFromSpectrum(id: string, name: string, spectrum: SpectrumResult): TargetCurve {
+  const { frequencies, levels } = spectrum.thirdOctave;
+  return {
+    id,
+    name,
+    builtin: false,
+    levels: THIRD_OCTAVE_CENTERS.map(hz => {
+      const i = frequencies.indexOf(hz);
+      return i >= 0 ? Math.round(levels[i] * 10) / 10 : null;
+    }),
+  };
+}
+
+function deviationLevel(deviation: number): JudgeLevel {
+  const abs = Math.abs(deviation);
+  if (abs > DEVIATION_DANGER_DB) return 'danger';
+  if (abs > DEVIATION_WARNING_DB) return 'warning';
+  return 'safe';
+}
+
+function regionName(hz: number): string {
+  if (hz < 60) return '超低域';
+  if (hz < 250) return '低域';
+  if (hz < 500) return '中低域';
+  if (hz < 2000) return '中域';
+  if (hz < 6000) return '中高域';
+  return '高域';
+}
+
+/** しきい値を超えた同符号の連続バンドを 1 件の警告にまとめる */
+function groupWarnings(bands: BandDeviation[]): TonalBalanceWarning[] {
+  const warnings: TonalBalanceWarning[] = [];
+  let i = 0;
+  while (i < bands.length) {
+    if (bands[i].level === 'safe') { i++; continue; }
+    const sign = Math.sign(bands[i].deviation);
+    let j = i;
+    while (j + 1 < bands.length && bands[j + 1].level !== 'safe' && Math.sign(bands[j + 1].deviation) === sign) j++;
+
+    const run = bands.slice(i, j + 1);
+    const worst = run.reduce((a, b) => (Math.abs(b.deviation) > Math.abs(a.deviation) ? b : a));
+    const lo = run[0].frequency;
+    const hi = run[run.length - 1].frequency;
+    const span = lo === hi ? formatFrequency(lo) : `${formatFrequency(lo)}〜${formatFrequency(hi)}`;
+    const signText = worst.deviation > 0 ? '+' : '';
+    warnings.push({
+      level: run.some(b => b.level === 'danger') ? 'danger' : 'warning',
+      msg: `${regionName(Math.sqrt(lo * hi))} (${span}) が ${signText}${worst.deviation.toFixed(1)} dB ${worst.deviation > 0 ? '多め' : '少なめ'}`,
+    });
+    i = j + 1;
+  }
+  return warnings;
+}
+
+/**
+ * 1/3 オクターブスペクトルをターゲットと比較する。
+ * 絶対レベルは曲の音量で変わるため、ALIGN 帯域の平均差でオフセットを合わせてから偏差を出す。
+ */
+export function compareToTarget(spectrum: SpectrumResult, curve: TargetCurve): TonalBalanceComparison {
+  const pairs: { frequency: number; level: number; target: number }[] = [];
+  spectrum.thirdOctave.frequencies.forEach((hz, i) => {
+    const target = curve.levels[THIRD_OCTAVE_CENTERS.indexOf(hz)];
+    if (target != null) pairs.push({ frequency: hz, level: spectrum.thirdOctave.levels[i], target });
+  });
+
+  const aligned = pairs.filter(p => p.frequency >= ALIGN_MIN_HZ && p.frequency <= ALIGN_MAX_HZ);
+  const basis = aligned.length > 0 ? aligned : pairs;
+  const offset = basis.length > 0
+    ? basis.reduce((sum, p) => sum + (p.target - p.level), 0) / basis.length
+    : 0;
+
+  const bands: BandDeviation[] = pairs.map(p => {
+    const measured = p.level + offset;
+    const deviation = measured - p.target;
+    const inRange = p.frequency >= WARN_MIN_HZ && p.frequency <= WARN_MAX_HZ;
+    return { frequency: p.frequency, measured, target: p.target, deviation, level: inRange ? deviationLevel(deviation) : 'safe' };
+  });
+
+  return { offset, bands, warnings: groupWarnings(bands) };
+}
@@ -1,14 +1,60 @@
+import type { StereoBandId } from './stereoBands';
+
 export interface AnalysisResult {
   fileInfo: FileInfo;
   loudness: LoudnessResult | null;
+  dynamics: DynamicsResult | null;
   stereo: StereoResult | null;
   quality: QualityResult | null;
+  spectrum: SpectrumResult | null;
+  /** L/R をモノラル化したときの変化（1 チャンネルの素材では null のまま） */
+  monoFold: MonoFoldDownResult | null;
+}
+
+export interface MonoFoldDownResult {
+  /** L/R のみで測った Integrated（比較の基準） */
+  stereoLUFS: number;
+  /** (L + R) / 2 を両スピーカーで鳴らした場合の Integrated */
+  monoLUFS: number;
+  /** monoLUFS - stereoLUFS（無相関なら約 -3 dB） */
+  drop: number;
+  /** 1/3 オクターブごとの落ち込み。ほぼ無音のバンドは含まない */
+  bands: MonoFoldBand[];
+  /** short-term で最も落ち込む区間（落ち込みの大きい順） */
+  worstRegions: MonoFoldRegion[];
+}
+
+export interface MonoFoldBand {
+  frequency: number;
+  drop: number;
+}
+
+export interface MonoFoldRegion {
+  start: number;
+  end: number;
+  drop: number;
+}
+
+/** 周波数ごとのレベル（dB）。frequencies と levels は同じ並び */
+export interface SpectrumCurve {
+  frequencies: number[];
+  levels: number[];
+}
+
+/** 長時間平均スペクトル (LTAS)。無音フレームを除いた平均パワー */
+export interface SpectrumResult {
+  /** 1/3 オクターブバンド（ナイキスト以下の ISO 中心周波数のみ） */
+  thirdOctave: SpectrumCurve;
+  /** 1/6 オクターブ平滑化した FFT スペクトル（対数間隔） */
+  smoothed: SpectrumCurve;
 }
 
 export interface FileInfo {
   name: string;
   duration: number;
   sampleRate: number;
+  /** 実際に解析したサンプルレート（デコード時のレート） */
+  analysisSampleRate: number;
   channels: number;
   format: string;
 }
@@ -17,12 +63,97 @@ export interface LoudnessResult {
   integratedLUFS: number;
   loudnessRange: number;
   truePeakDBTP: number;
+  truePeak: TruePeakResult;
+  /** チャンネルごとのサンプルピーク / RMS（channelLayout の並び順） */
+  channelLevels: ChannelLevel[];
   momentaryLoudness: number[];
   shortTermLoudness: number[];
+  stats: LoudnessStats;
+}
+
+/** 系列中の 1 点。time は窓の開始位置（秒） */
+export interface LoudnessPoint {
+  value: number;
+  time: number;
+}
+
+/** momentary / short-term の統計。絶対ゲート (-70 LUFS) 以下の窓は含めず、全てゲートされたら null */
+export interface LoudnessStats {
+  maxMomentary: LoudnessPoint | null;
+  maxShortTerm: LoudnessPoint | null;
+  shortTermP10: LoudnessPoint | null;
+  shortTermP95: LoudnessPoint | null;
+}
+
+export interface DynamicsResult {
+  /** Peak to Loudness Ratio: True Peak − Integrated (dB)。無音などで測れないときは NaN */
+  plr: number;
+  /** short-term 窓ごとの PSR（窓内の True Peak − Short-term, dB）。shortTermLoudness と同じ並び・ゲートした窓は NaN */
+  psrSeries: number[];
+  /** psrSeries の最大 */
+  psrMax: number;
+  /** チャンネルごとのクレストファクター（サンプルピーク − RMS, dB） */
+  crestFactors: number[];
+  /** TT Dynamic Range 方式の DR 値（チャンネル平均を丸めたもの） */
+  dr: number;
+  /** チャンネルごとの DR（丸める前） */
+  drChannels: number[];
+}
+
+export interface ChannelLevel {
+  /** サンプルピーク (dBFS) */
+  peak: number;
+  /** RMS (dBFS) */
+  rms: number;
+}
+
+export interface TruePeakOver {
+  /** 区間内で最大となった位置（秒） */
+  time: number;
+  channel: number;
+  dBTP: number;
+}
+
+export interface TruePeakResult {
+  /** チャンネルごとの True Peak (dBTP) */
+  channels: number[];
+  /** オーバー判定に使った上限 (dBTP) */
+  ceiling: number;
+  /** 上限を超えたサンプル数（入力サンプル単位・全チャンネル合計） */
+  overSamples: number;
+  /** 上限を超えた箇所の数（10ms 以内の連続はまとめて 1 箇所） */
+  overCount: number;
+  /** 大きい順のオーバー箇所（上位のみ） */
+  overs: TruePeakOver[];
 }
 
 export interface StereoResult {
   width: number;
+  /** L/R 相関係数（ファイル全体）。+1 = モノラル、0 = 無相関、-1 = 逆相 */
+  correlation: number;
+  /** 400ms 窓・100ms hop の相関係数（Momentary Loudness と同じ並び） */
+  correlationSeries: number[];
+  /** correlationSeries と同じ窓の Side/Mid RMS 比（width と同じ単位。無音の窓は 0） */
+  widthSeries: number[];
+  goniometer: GoniometerResult;
+  /** 帯域別の M/S（STEREO_BANDS の並び） */
+  bands: StereoBandResult[];
+}
+
+export interface StereoBandResult {
+  id: StereoBandId;
+  /** Side/Mid RMS 比（width と同じ単位） */
+  width: number;
+  correlation: number;
+  /** 帯域内の全エネルギーに対する Side の割合 (dB)。モノラルは -∞ */
+  sideLevel: number;
+}
+
+/** ファイル全体の L/R サンプル分布（Lissajous）。M を縦・S を横に取ったグリッド */
+export interface GoniometerResult {
+  size: number;
+  /** size × size（行 = 上から）。対数スケールで 0〜1 に正規化した点の密度 */
+  density: number[];
 }
 
 export interface QualityResult {
@@ -32,14 +163,227 @@ export interface QualityResult {
   endIsZero: boolean;
   headSilence: number;
   tailSilence: number;
+  clipping: ClippingResult;
+  clicks: ClickResult;
+  silence: SilenceResult;
+  /** チャンネルごとの DC オフセット（channelLayout の並び順） */
+  dcOffset: ChannelDcOffset[];
+  /** L/R のレベル差（1 チャンネルの素材では null） */
+  balance: ChannelBalance | null;
+  /** L/R の極性チェック（1 チャンネルの素材では null） */
+  polarity: PolarityCheck | null;
+}
+
+export interface ChannelDcOffset {
+  /** サンプルの平均値 */
+  mean: number;
+  /** |mean| を dBFS で表したもの（0 なら -∞） */
+  dB: number;
+}
+
+export interface ChannelBalance {
+  leftLUFS: number;
+  rightLUFS: number;
+  /** leftLUFS - rightLUFS（プラスは L 寄り） */
+  loudnessDiff: number;
+  /** RMS の L - R (dB) */
+  rmsDiff: number;
+}
+
+/**
+ * 片チャンネルの極性反転は、本来ほぼモノラルの低域で相関がマイナスになることで分かる。
+ * L/R の入れ替わりは相関が変わらないため信号からは判定できない
+ */
+export interface PolarityCheck {
+  /** 全帯域の L/R 相関 */
+  correlation: number;
+  /** 低域（STEREO_BANDS の low）の L/R 相関 */
+  lowCorrelation: number;
+}
+
+export interface SilentRegion {
+  start: number;
+  end: number;
+  channel: number;
+}
+
+/** 曲中の無音・ドロップアウト（冒頭・末尾の無音は含まない。チャンネルごとに検出） */
+export interface SilenceResult {
+  /** 判定に使ったレベル (dBFS) */
+  threshold: number;
+  /** 数える最小の長さ（秒） */
+  minDuration: number;
+  count: number;
+  /** 全チャンネル合計の長さ（秒） */
+  totalDuration: number;
+  /** 開始順の区間（先頭から上限件数まで） */
+  regions: SilentRegion[];
+}
+
+export interface ClickEvent {
+  /** 突出したサンプルの位置（秒） */
+  time: number;
+  channel: number;
+  /** 周囲の高域レベルに対する突出量 (dB) */
+  strength: number;
+  /** しきい値を大きく上回るものは danger */
+  severity: 'warning' | 'danger';
+}
+
+/** 編集ミス・ドロップアウト等による瞬間的な不連続（チャンネルごとに検出） */
+export interface ClickResult {
+  /** 判定に使ったしきい値 (dB) */
+  threshold: number;
+  count: number;
+  dangerCount: number;
+  /** 時刻順の検出箇所（先頭から上限件数まで） */
+  events: ClickEvent[];
+}
+
+export interface ClipEvent {
+  /** 連続の先頭（秒） */
+  time: number;
+  duration: number;
+  channel: number;
+  /** 連続したサンプル数 */
+  samples: number;
+}
+
+/** フルスケール付近のサンプルの連続（チャンネルごとに検出） */
+export interface ClippingResult {
+  /** 判定に使ったレベル (dBFS) */
+  level: number;
+  /** 1 件と数える最小の連続サンプル数 */
+  minRun: number;
+  /** 全チャンネル合計の件数 */
+  count: number;
+  /** 全チャンネル合計の長さ（秒） */
+  totalDuration: number;
+  /** チャンネルごとの件数（channelLayout の並び順） */
+  channelCounts: number[];
+  /** 時刻順のクリップ箇所（先頭から上限件数まで） */
+  events: ClipEvent[];
+}
+
+/** 拍位置と小節の推定（RhythmExtractor2013 の ticks から） */
+export interface BeatGrid {
+  /** 拍の時刻（秒） */
+  beats: number[];
+  /** 1 小節の拍数（3 または 4） */
+  beatsPerBar: number;
+  /** beats のうち小節頭（ダウンビート）の拍のインデックス */
+  downbeats: number[];
+}
+
+/** テンポが一定とみなせる区間 */
+export interface TempoSection {
+  start: number;
+  end: number;
+  /** 区間内の局所テンポの中央値 */
+  bpm: number;
+}
+
+/** 拍間隔から求めた局所テンポの時間変化 */
+export interface TempoCurve {
+  /** 各点の時刻（秒、隣り合う拍の中点） */
+  times: number[];
+  /** 各点の局所テンポ (BPM) */
+  bpm: number[];
+  /** 全体の中央値から ±2% 以内に収まる点の割合 (0〜1) */
+  stability: number;
+  /** 局所テンポの標準偏差 (BPM) */
+  deviation: number;
+  min: number;
+  max: number;
+  /** テンポの違う区間（1 つなら曲を通して一定） */
+  sections: TempoSection[];
+}
+
+/** BPM の候補（検出器が倍・半分を返しがちなので複数出して選べるようにする） */
+export interface TempoCandidate {
+  bpm: number;
+  /** 候補全体で合計 1 になるスコア */
+  score: number;
+  /** rhythm: RhythmExtractor2013、percival: PercivalBpmEstimator、half / double: 他の候補の半分・倍 */
+  source: 'rhythm' | 'percival' | 'half' | 'double';
+}
+
+/** 同じキーが続く区間 */
+export interface KeySegment {
+  start: number;
+  end: number;
+  key: string;
+  scale: string;
+  /** 区間内の窓の Key strength を長さで重み付けした平均 (0〜1) */
+  strength: number;
+}
+
+/** 転調（隣り合う区間のキーの変わり目） */
+export interface KeyModulation {
+  time: number;
+  fromKey: string;
+  fromScale: string;
+  toKey: string;
+  toScale: string;
+}
+
+/** 窓ごとの HPCP から推定したキーの時間変化 */
+export interface KeyTimeline {
+  /** 時刻順。転調が無ければ 1 区間 */
+  segments: KeySegment[];
+  modulations: KeyModulation[];
+}
+
+/** キー候補（平均 HPCP と調性プロファイルの相関） */
+export interface KeyCandidate {
+  key: string;
+  scale: string;
+  /** 相関係数 (-1〜1) */
+  score: number;
 }
 
 export interface BpmKeyResult {
   bpm: number;
   bpmConfidence: number;
+  /** スコア順のテンポ候補 */
+  bpmCandidates: TempoCandidate[];
+  /** 拍位置が取れなかったとき（PercivalBpmEstimator にフォールバックした等）は null */
+  beatGrid: BeatGrid | null;
+  /** beatGrid が無い・拍が少なすぎるときは null */
+  tempo: TempoCurve | null;
   key: string;
   scale: string;
   keyStrength: number;
+  /** スコア順のキー候補（先頭は key と違うこともある）。HPCP の計算に失敗したときは空 */
+  keyCandidates: KeyCandidate[];
+  /** HPCP の計算に失敗したときは null */
+  keyTimeline: KeyTimeline | null;
+}
+
+export type FrequencyScale = 'log' | 'mel';
+
+export interface SpectrogramParams {
+  fftSize: number;
+  hopSize: number;
+  scale: FrequencyScale;
+  /** 縦方向（周波数）の行数 */
+  bins: number;
+}
+
+export interface SpectrogramResult {
+  /** frames × bins の dB 値（フレームごとに低域→高域の順） */
+  data: Float32Array;
+  frames: number;
+  bins: number;
+  /** 各行の中心周波数 (Hz) */
+  frequencies: Float32Array;
+  /** 実際に使ったホップ（長尺ではフレーム数の上限に合わせて広げる） */
+  hopSize: number;
+  fftSize: number;
+  scale: FrequencyScale;
+  sampleRate: number;
+  minDb: number;
+  maxDb: number;
 }
 
 export type AnalysisPhase =
@@ -47,6 +391,7 @@ export type AnalysisPhase =
   | 'decoding'
   | 'phase1'
   | 'done'
+  | 'cancelled'
   | 'error';
 
 export interface ProgressState {
@@ -55,21 +400,55 @@ export interface ProgressState {
   label: string;
 }
 
-export interface WorkerMessage {
-  type: 'init' | 'analyze' | 'analyzeBpmKey';
-  audioData?: Float32Array;
-  leftChannel?: Float32Array;
-  rightChannel?: Float32Array;
-  sampleRate?: number;
+/** 解析結果そのものを左右する検出パラメータ（納品スペックごとに持つ） */
+export interface DetectionParams {
+  /** True Peak のオーバーとして数える上限 (dBTP) */
+  truePeakCeiling: number;
+  /** これを下回る相関係数が続いたら警告する */
+  correlationThreshold: number;
+  /** 低相関が何秒続いたら警告するか */
+  correlationMinDuration: number;
+  /** これ以上の振幅をフルスケールとみなす (dBFS) */
+  clipLevel: number;
+  /** 何サンプル続いたらクリップとして数えるか */
+  clipMinRun: number;
+  /** 周囲の高域レベルをこれ以上上回る尖りをクリックとみなす (dB) */
+  clickThreshold: number;
+  /** これ未満のサンプルが続く区間を曲中の無音とみなす (dBFS) */
+  silenceThreshold: number;
+  /** 曲中の無音として数える最小の長さ（秒） */
+  silenceMinDuration: number;
 }
 
-export interface WorkerResponse {
-  type: 'ready' | 'progress' | 'partial' | 'complete' | 'error' | 'bpmKeyComplete';
-  phase?: string;
-  percent?: number;
-  label?: string;
-  data?: Partial<AnalysisResult>;
-  bpmKeyData?: BpmKeyResult;
-  message?: string;
-  version?: string;
+// ── Worker プロトコル ──
+// 解析ジョブは jobId で識別し、レスポンスは必ず発行元のジョブにだけ届ける
+
+export type WorkerMessage =
+  | { type: 'init' }
+  | {
+    type: 'analyze'; jobId: number; channels: Float32Array[]; sampleRate: number;
+    detection: DetectionParams;
+  }
+  | { type: 'analyzeBpmKey'; jobId: number; audioData: Float32Array; sampleRate: number }
+  | { type: 'spectrogram'; jobId: number; audioData: Float32Array; sampleRate: number; params: SpectrogramParams }
+  | { type: 'cancel'; jobId: number };
+
+export type WorkerJobMessage = Exclude<WorkerMessage, { type: 'init' | 'cancel' }>;
+export type WorkerJobType = WorkerJobMessage['type'];
+
+/** ジョブ種別ごとの完了値 */
+export interface WorkerJobResults {
+  analyze: void;
+  analyzeBpmKey: BpmKeyResult;
+  spectrogram: SpectrogramResult;
 }
+
+export type WorkerResponse =
+  | { type: 'ready'; version: string }
+  | { type: 'progress'; jobId: number; phase: string; percent: number; label: string }
+  | { type: 'partial'; jobId: number; data: Partial<AnalysisResult> }
+  | { type: 'complete'; jobId: number }
+  | { type: 'bpmKeyComplete'; jobId: number; bpmKeyData: BpmKeyResult }
+  | { type: 'spectrogramComplete'; jobId: number; spectrogram: SpectrogramResult }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId?: number; message: string };
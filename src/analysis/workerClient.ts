@@ -0,0 +1,194 @@
+import type {
+  AnalysisResult, WorkerJobMessage, WorkerJobResults, WorkerJobType, WorkerMessage, WorkerResponse,
+} from './types';
+
+type JobRequest<K extends WorkerJobType> = Omit<Extract<WorkerJobMessage, { type: K }>, 'jobId'> & { type: K };
+
+export interface JobCallbacks {
+  onProgress?: (phase: string, percent: number, label: string) => void;
+  onPartial?: (data: Partial<AnalysisResult>) => void;
+  signal?: AbortSignal;
+}
+
+/** AbortSignal によって中断されたジョブの reject 値 */
+export class AnalysisCancelledError extends Error {
+  constructor(message = '解析をキャンセルしました') {
+    super(message);
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+export function isAnalysisCancelled(e: unknown): e is AnalysisCancelledError {
+  return e instanceof AnalysisCancelledError;
+}
+
+interface PendingJob extends JobCallbacks {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+/**
+ * Essentia Worker 1 つ分の RPC クライアント。
+ * ジョブごとに jobId を振り、Worker からのレスポンスを発行元のジョブへだけ配送する。
+ * キャンセルされたジョブの結果を待つ相手が他にいなければ Worker ごと作り直す。
+ */
+export class EssentiaWorkerClient {
+  /** キャンセルしたジョブ以外にもこの Worker を使う予定があるか（プールの貸し出し数で判断する） */
+  private isShared: () => boolean;
+  private worker: Worker | null = null;
+  private ready = false;
+  private initPromise: Promise<string> | null = null;
+  private initHandlers: { resolve: (version: string) => void; reject: (error: Error) => void } | null = null;
+  private jobs = new Map<number, PendingJob>();
+  private nextJobId = 1;
+
+  constructor(isShared: () => boolean = () => false) {
+    this.isShared = isShared;
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(
+        new URL('../workers/essentia.worker.ts', import.meta.url),
+        { type: 'module' },
+      );
+      this.worker.addEventListener('message', (e: MessageEvent<WorkerResponse>) => this.handleMessage(e.data));
+    }
+    return this.worker;
+  }
+
+  get isReady(): boolean {
+    return this.ready;
+  }
+
+  /** 処理中・待機中のジョブ数 */
+  get pendingCount(): number {
+    return this.jobs.size;
+  }
+
+  init(): Promise<string> {
+    if (this.ready) return Promise.resolve('cached');
+    if (this.initPromise) return this.initPromise;
+
+    const worker = this.getWorker();
+    this.initPromise = new Promise<string>((resolve, reject) => {
+      this.initHandlers = { resolve, reject };
+    });
+    const message: WorkerMessage = { type: 'init' };
+    worker.postMessage(message);
+    return this.initPromise;
+  }
+
+  request<K extends WorkerJobType>(
+    message: JobRequest<K>,
+    transfer: Transferable[],
+    callbacks: JobCallbacks = {},
+  ): Promise<WorkerJobResults[K]> {
+    const { signal } = callbacks;
+    if (signal?.aborted) {
+      return Promise.reject(new AnalysisCancelledError());
+    }
+    if (!this.ready) {
+      // キャンセルで Worker を作り直した直後など — 起動し直してから送る
+      return this.init().then(() => this.request(message, transfer, callbacks));
+    }
+
+    const jobId = this.nextJobId++;
+    return new Promise<WorkerJobResults[K]>((resolve, reject) => {
+      const onAbort = () => this.cancel(jobId);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.jobs.set(jobId, {
+        ...callbacks,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      });
+      this.getWorker().postMessage({ ...message, jobId }, transfer);
+    });
+  }
+
+  private cancel(jobId: number) {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+    this.settle(jobId);
+    job.reject(new AnalysisCancelledError());
+
+    if (this.jobs.size === 0 && !this.isShared()) {
+      // 他に待っているジョブも、init 後にジョブを送ろうとしている相手も無い — 実行中のループごと Worker を止める
+      this.dispose();
+    } else {
+      // 他のジョブを巻き込まないよう、Worker 側のチェックポイントで中断させる
+      const message: WorkerMessage = { type: 'cancel', jobId };
+      this.worker?.postMessage(message);
+    }
+  }
+
+  /** Worker を破棄する。次回の init() で新しい Worker を起動する */
+  dispose() {
+    for (const [jobId, job] of this.jobs) {
+      this.settle(jobId);
+      job.reject(new AnalysisCancelledError());
+    }
+    this.worker?.terminate();
+    this.worker = null;
+    this.ready = false;
+    this.initPromise = null;
+    this.initHandlers?.reject(new AnalysisCancelledError());
+    this.initHandlers = null;
+  }
+
+  private settle(jobId: number) {
+    this.jobs.get(jobId)?.cleanup();
+    this.jobs.delete(jobId);
+  }
+
+  private handleMessage(msg: WorkerResponse) {
+    if (msg.type === 'ready') {
+      this.ready = true;
+      this.initHandlers?.resolve(msg.version);
+      this.initHandlers = null;
+      return;
+    }
+
+    if (msg.type === 'error' && msg.jobId == null) {
+      // init 失敗 — 次回の init で再試行できるようにする
+      this.initPromise = null;
+      this.initHandlers?.reject(new Error(msg.message));
+      this.initHandlers = null;
+      return;
+    }
+
+    const job = msg.jobId != null ? this.jobs.get(msg.jobId) : undefined;
+    if (!job) return; // 既に完了したジョブ、または別クライアントのジョブ
+
+    switch (msg.type) {
+      case 'progress':
+        job.onProgress?.(msg.phase, msg.percent, msg.label);
+        break;
+      case 'partial':
+        job.onPartial?.(msg.data);
+        break;
+      case 'complete':
+        this.settle(msg.jobId);
+        job.resolve(undefined);
+        break;
+      case 'bpmKeyComplete':
+        this.settle(msg.jobId);
+        job.resolve(msg.bpmKeyData);
+        break;
+      case 'spectrogramComplete':
+        this.settle(msg.jobId);
+        job.resolve(msg.spectrogram);
+        break;
+      case 'cancelled':
+        this.settle(msg.jobId);
+        job.reject(new AnalysisCancelledError());
+        break;
+      case 'error':
+        this.settle(msg.jobId!);
+        job.reject(new Error(msg.message));
+        break;
+    }
+  }
+}
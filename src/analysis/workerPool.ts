@@ -0,0 +1,77 @@
+import { EssentiaWorkerClient } from './workerClient';
+
+interface Slot {
+  client: EssentiaWorkerClient;
+  leases: number;
+}
+
+/**
+ * 並列解析に使える Worker 数の上限。
+ * メインスレッド用に 1 コア残し、Worker ごとに WASM と音声バッファを抱えるため 4 で頭打ちにする。
+ */
+export function maxPoolSize(): number {
+  const cores = navigator.hardwareConcurrency || 2;
+  return Math.max(1, Math.min(cores - 1, 4));
+}
+
+/**
+ * Essentia Worker のプール。
+ * ジョブは貸し出し数が最も少ない Worker に割り当て、全 Worker が使用中なら上限まで新しく起動する。
+ */
+export class EssentiaWorkerPool {
+  private slots: Slot[] = [];
+  private maxSize: number;
+
+  constructor(maxSize = maxPoolSize()) {
+    this.maxSize = Math.max(1, maxSize);
+  }
+
+  get size(): number {
+    return this.maxSize;
+  }
+
+  /** 先頭の Worker だけ起動して WASM を先読みする */
+  init(): Promise<string> {
+    if (this.slots.length === 0) this.addSlot();
+    return this.slots[0].client.init();
+  }
+
+  async run<T>(task: (client: EssentiaWorkerClient) => Promise<T>): Promise<T> {
+    const slot = this.pick();
+    slot.leases++;
+    try {
+      await slot.client.init();
+      return await task(slot.client);
+    } finally {
+      slot.leases--;
+    }
+  }
+
+  /** 使われていない Worker を keep 個まで減らす */
+  trim(keep = 1) {
+    const idle = this.slots.filter(s => s.leases === 0);
+    let excess = this.slots.length - Math.max(keep, 0);
+    for (const slot of idle.reverse()) {
+      if (excess <= 0) break;
+      slot.client.dispose();
+      this.slots.splice(this.slots.indexOf(slot), 1);
+      excess--;
+    }
+  }
+
+  private pick(): Slot {
+    let best: Slot | null = null;
+    for (const slot of this.slots) {
+      if (!best || slot.leases < best.leases) best = slot;
+    }
+    if (!best || (best.leases > 0 && this.slots.length < this.maxSize)) best = this.addSlot();
+    return best;
+  }
+
+  private addSlot(): Slot {
+    // キャンセルした本人の分を除いて貸し出し中なら、Worker を作り直さずチェックポイントで止めさせる
+    const slot: Slot = { client: new EssentiaWorkerClient(() => slot.leases > 1), leases: 0 };
+    this.slots.push(slot);
+    return slot;
+  }
+}
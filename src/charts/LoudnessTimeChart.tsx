@@ -11,6 +11,9 @@ import {
   Filler,
 } from 'chart.js';
 
+import { chartPointCount, fixYAxisWidth, resampleTo, RIGHT_AXIS_PADDING, timeLabels } from './timeSeries';
+import { timeRegionsPlugin, type TimeRegion } from './timeRegions';
+
 ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Filler);
 
 interface Props {
@@ -18,37 +21,31 @@ interface Props {
   shortTerm: number[];
   integratedLUFS: number;
   duration: number;
+  /** short-term と同じ並びの PSR (dB)。ゲートした窓は NaN */
+  psr?: number[];
+  /** 背景を塗る曲中の無音区間 */
+  silentRegions?: TimeRegion[];
 }
 
-export function LoudnessTimeChart({ momentary, shortTerm, integratedLUFS, duration }: Props) {
+const NO_REGIONS: TimeRegion[] = [];
+const NO_PSR: number[] = [];
+const PSR_COLOR = '#f472b6';
+
+export function LoudnessTimeChart({ momentary, shortTerm, integratedLUFS, duration, psr = NO_PSR, silentRegions = NO_REGIONS }: Props) {
   const [showMomentary, setShowMomentary] = useState(true);
   const [showShortTerm, setShowShortTerm] = useState(true);
   const [showIntegrated, setShowIntegrated] = useState(true);
+  const [showPsr, setShowPsr] = useState(false);
 
   if (momentary.length === 0 && shortTerm.length === 0) return null;
 
-  // 全データセットを同じ点数にリサンプル（線形補間）
-  const resampleTo = (arr: number[], target: number): number[] => {
-    if (arr.length === 0 || target === 0) return [];
-    if (arr.length === target) return arr;
-    const result: number[] = [];
-    for (let i = 0; i < target; i++) {
-      const pos = (i / (target - 1)) * (arr.length - 1);
-      const lo = Math.floor(pos);
-      const hi = Math.min(lo + 1, arr.length - 1);
-      const frac = pos - lo;
-      result.push(arr[lo] * (1 - frac) + arr[hi] * frac);
-    }
-    return result;
-  };
-
-  const maxPoints = 500;
-  const numPoints = Math.min(maxPoints, Math.max(momentary.length, shortTerm.length));
+  const numPoints = chartPointCount(momentary.length, shortTerm.length);
   const dsMomentary = momentary.length > 0 ? resampleTo(momentary, numPoints) : [];
   const dsShortTerm = shortTerm.length > 0 ? resampleTo(shortTerm, numPoints) : [];
-  const labels = Array.from({ length: numPoints }, (_, i) =>
-    ((i / numPoints) * duration).toFixed(1)
-  );
+  const labels = timeLabels(numPoints, duration);
+  // NaN（ゲートした窓）は線を切る
+  const dsPsr = psr.length > 0 ? resampleTo(psr, numPoints).map(v => (isNaN(v) ? null : v)) : [];
+  const psrVisible = showPsr && dsPsr.length > 0;
 
   const integratedLine = isFinite(integratedLUFS)
     ? Array(numPoints).fill(integratedLUFS)
@@ -75,9 +72,17 @@ export function LoudnessTimeChart({ momentary, shortTerm, integratedLUFS, durati
           style={{ '--toggle-color': '#ef4444' } as React.CSSProperties}
           onClick={() => setShowIntegrated(v => !v)}
         >Integrated</button>
+        {psr.length > 0 && (
+          <button
+            className={`chart-toggle ${showPsr ? 'active' : ''}`}
+            style={{ '--toggle-color': PSR_COLOR } as React.CSSProperties}
+            onClick={() => setShowPsr(v => !v)}
+          >PSR</button>
+        )}
       </div>
       <div className="chart-container tall">
         <Line
+          plugins={[timeRegionsPlugin]}
           data={{
             labels,
             datasets: [
@@ -110,12 +115,24 @@ export function LoudnessTimeChart({ momentary, shortTerm, integratedLUFS, durati
                 pointRadius: 0,
                 fill: false,
               }] : []),
+              ...(psrVisible ? [{
+                label: 'PSR (dB)',
+                data: dsPsr,
+                yAxisID: 'y1',
+                borderColor: PSR_COLOR,
+                borderWidth: 1.2,
+                pointRadius: 0,
+                fill: false,
+                tension: 0.2,
+              }] : []),
             ],
           }}
           options={{
             responsive: true,
             maintainAspectRatio: false,
             animation: false,
+            // 下に並ぶ StereoTimeChart（右軸あり）と時間軸の位置を揃える。PSR 表示中は PSR の軸がその幅を占める
+            layout: { padding: psrVisible ? 0 : RIGHT_AXIS_PADDING },
             scales: {
               x: {
                 display: true,
@@ -126,18 +143,32 @@ export function LoudnessTimeChart({ momentary, shortTerm, integratedLUFS, durati
               y: {
                 display: true,
                 title: { display: true, text: 'LUFS', color: '#71717a', font: { size: 10 } },
+                afterFit: fixYAxisWidth,
                 ticks: { color: '#71717a', font: { size: 9 } },
                 grid: { color: 'rgba(39,39,42,0.5)' },
                 max: 0,
                 min: -20,
               },
+              y1: {
+                display: psrVisible,
+                position: 'right',
+                title: { display: true, text: 'PSR dB', color: '#71717a', font: { size: 10 } },
+                afterFit: fixYAxisWidth,
+                ticks: { color: '#71717a', font: { size: 9 } },
+                grid: { drawOnChartArea: false },
+                min: 0,
+                max: 30,
+              },
             },
             plugins: {
+              timeRegions: { regions: silentRegions, duration },
               tooltip: {
                 mode: 'index',
                 intersect: false,
                 callbacks: {
-                  label: ctx => `${ctx.dataset.label}: ${ctx.parsed.y?.toFixed(1) ?? ''} LUFS`,
+                  label: ctx => ctx.dataset.yAxisID === 'y1'
+                    ? `${ctx.dataset.label}: ${ctx.parsed.y?.toFixed(1) ?? ''} dB`
+                    : `${ctx.dataset.label}: ${ctx.parsed.y?.toFixed(1) ?? ''} LUFS`,
                 },
               },
             },
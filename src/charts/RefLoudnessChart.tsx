@@ -11,6 +11,8 @@ import {
   Filler,
 } from 'chart.js';
 
+import { chartPointCount, resampleTo, timeLabels } from './timeSeries';
+
 ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Filler);
 
 interface Props {
@@ -22,36 +24,19 @@ interface Props {
   labelB?: string;
 }
 
-const resampleTo = (arr: number[], target: number): number[] => {
-  if (arr.length === 0 || target === 0) return [];
-  if (arr.length === target) return arr;
-  const result: number[] = [];
-  for (let i = 0; i < target; i++) {
-    const pos = (i / (target - 1)) * (arr.length - 1);
-    const lo = Math.floor(pos);
-    const hi = Math.min(lo + 1, arr.length - 1);
-    const frac = pos - lo;
-    result.push(arr[lo] * (1 - frac) + arr[hi] * frac);
-  }
-  return result;
-};
-
 export function RefLoudnessChart({ momentaryA, momentaryB, durationA, durationB, labelA = '自分', labelB = 'Ref' }: Props) {
   const [showA, setShowA] = useState(true);
   const [showB, setShowB] = useState(true);
 
   if (momentaryA.length === 0 && momentaryB.length === 0) return null;
 
-  const maxPoints = 500;
   const maxDuration = Math.max(durationA, durationB);
-  const numPoints = Math.min(maxPoints, Math.max(momentaryA.length, momentaryB.length));
+  const numPoints = chartPointCount(momentaryA.length, momentaryB.length);
 
   const dsA = momentaryA.length > 0 ? resampleTo(momentaryA, numPoints) : [];
   const dsB = momentaryB.length > 0 ? resampleTo(momentaryB, numPoints) : [];
 
-  const labels = Array.from({ length: numPoints }, (_, i) =>
-    ((i / numPoints) * maxDuration).toFixed(1)
-  );
+  const labels = timeLabels(numPoints, maxDuration);
 
   return (
     <details className="chart-card collapsible" open>
@@ -0,0 +1,106 @@
+import { Bar } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+} from 'chart.js';
+import type { LoudnessStats } from '../analysis/types';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip);
+
+interface Props {
+  shortTerm: number[];
+  stats: LoudnessStats;
+}
+
+// 統計と同じく絶対ゲート以下の窓は数えない
+const ABSOLUTE_GATE = -70;
+const BIN_LU = 1;
+
+const IN_RANGE_COLOR = 'rgba(167, 139, 250, 0.85)';
+const OUT_RANGE_COLOR = 'rgba(167, 139, 250, 0.3)';
+
+export function ShortTermHistogram({ shortTerm, stats }: Props) {
+  const gated = shortTerm.filter(v => v > ABSOLUTE_GATE);
+  if (gated.length === 0) return null;
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of gated) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  const first = Math.floor(min / BIN_LU) * BIN_LU;
+  const binCount = Math.floor((max - first) / BIN_LU) + 1;
+  const counts = new Array<number>(binCount).fill(0);
+  for (const v of gated) counts[Math.floor((v - first) / BIN_LU)]++;
+
+  const lowers = counts.map((_, i) => first + i * BIN_LU);
+  const percent = counts.map(c => (c / gated.length) * 100);
+  const p10 = stats.shortTermP10?.value ?? -Infinity;
+  const p95 = stats.shortTermP95?.value ?? Infinity;
+  // P10〜P95 にかかるビンを濃く塗る
+  const colors = lowers.map(lo => (lo + BIN_LU > p10 && lo <= p95 ? IN_RANGE_COLOR : OUT_RANGE_COLOR));
+
+  return (
+    <details className="chart-card collapsible" open>
+      <summary className="chart-title">
+        Short-term 分布 — {BIN_LU} LU 刻み
+        {stats.shortTermP10 && stats.shortTermP95 && (
+          <span className="chart-title-sub">
+            P10 {stats.shortTermP10.value.toFixed(1)} / P95 {stats.shortTermP95.value.toFixed(1)} LUFS
+          </span>
+        )}
+      </summary>
+      <div className="chart-container">
+        <Bar
+          data={{
+            labels: lowers.map(lo => lo.toFixed(0)),
+            datasets: [{
+              label: '時間の割合',
+              data: percent,
+              backgroundColor: colors,
+              borderWidth: 0,
+              barPercentage: 1,
+              categoryPercentage: 0.95,
+            }],
+          }}
+          options={{
+            responsive: true,
+            maintainAspectRatio: false,
+            animation: false,
+            scales: {
+              x: {
+                display: true,
+                title: { display: true, text: 'LUFS', color: '#71717a', font: { size: 10 } },
+                ticks: { color: '#71717a', maxTicksLimit: 20, font: { size: 9 } },
+                grid: { color: 'rgba(39,39,42,0.5)' },
+              },
+              y: {
+                display: true,
+                title: { display: true, text: '%', color: '#71717a', font: { size: 10 } },
+                ticks: { color: '#71717a', font: { size: 9 } },
+                grid: { color: 'rgba(39,39,42,0.5)' },
+                beginAtZero: true,
+              },
+            },
+            plugins: {
+              tooltip: {
+                callbacks: {
+                  title: items => {
+                    const lo = lowers[items[0].dataIndex];
+                    return `${lo.toFixed(0)} 〜 ${(lo + BIN_LU).toFixed(0)} LUFS`;
+                  },
+                  label: ctx => `${ctx.parsed.y?.toFixed(1) ?? ''} %（${counts[ctx.dataIndex]} 窓）`,
+                },
+              },
+            },
+          }}
+        />
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Filler,
+} from 'chart.js';
+import { useSpecProfile } from '../hooks/useSpecProfile';
+import { chartPointCount, fixYAxisWidth, resampleTo, timeLabels } from './timeSeries';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Filler);
+
+interface Props {
+  /** Side/Mid RMS 比（StereoResult.widthSeries） */
+  width: number[];
+  correlation: number[];
+  duration: number;
+}
+
+const WIDTH_COLOR = '#38bdf8';
+const CORRELATION_COLOR = '#f59e0b';
+
+export function StereoTimeChart({ width, correlation, duration }: Props) {
+  const { profile } = useSpecProfile();
+  const [showWidth, setShowWidth] = useState(true);
+  const [showCorrelation, setShowCorrelation] = useState(true);
+
+  if (width.length === 0 && correlation.length === 0) return null;
+
+  // LoudnessTimeChart と同じ点数・ラベルにして時間軸を揃える
+  const numPoints = chartPointCount(width.length, correlation.length);
+  const dsWidth = resampleTo(width, numPoints).map(w => Math.min(w * 100, 200));
+  const dsCorrelation = resampleTo(correlation, numPoints);
+  const labels = timeLabels(numPoints, duration);
+  const threshold = profile.detection.correlationThreshold;
+
+  return (
+    <details className="chart-card collapsible" open>
+      <summary className="chart-title">
+        Stereo (時系列) — Width / Correlation
+      </summary>
+      <div className="chart-toggles">
+        <button
+          className={`chart-toggle ${showWidth ? 'active' : ''}`}
+          style={{ '--toggle-color': WIDTH_COLOR } as React.CSSProperties}
+          onClick={() => setShowWidth(v => !v)}
+        >Width</button>
+        <button
+          className={`chart-toggle ${showCorrelation ? 'active' : ''}`}
+          style={{ '--toggle-color': CORRELATION_COLOR } as React.CSSProperties}
+          onClick={() => setShowCorrelation(v => !v)}
+        >Correlation</button>
+      </div>
+      <div className="chart-container">
+        <Line
+          data={{
+            labels,
+            datasets: [
+              ...(showWidth && dsWidth.length > 0 ? [{
+                label: 'Width (%)',
+                data: dsWidth,
+                yAxisID: 'y',
+                borderColor: WIDTH_COLOR,
+                backgroundColor: 'rgba(56, 189, 248, 0.08)',
+                borderWidth: 1.2,
+                pointRadius: 0,
+                fill: true,
+                tension: 0.2,
+              }] : []),
+              ...(showCorrelation && dsCorrelation.length > 0 ? [{
+                label: 'Correlation',
+                data: dsCorrelation,
+                yAxisID: 'y1',
+                borderColor: CORRELATION_COLOR,
+                borderWidth: 1.2,
+                pointRadius: 0,
+                fill: false,
+                tension: 0.2,
+              }, {
+                label: '低相関しきい値',
+                data: Array(numPoints).fill(threshold),
+                yAxisID: 'y1',
+                borderColor: 'rgba(239, 68, 68, 0.6)',
+                borderWidth: 1,
+                borderDash: [4, 4],
+                pointRadius: 0,
+                fill: false,
+              }] : []),
+            ],
+          }}
+          options={{
+            responsive: true,
+            maintainAspectRatio: false,
+            animation: false,
+            scales: {
+              x: {
+                display: true,
+                title: { display: true, text: '秒', color: '#71717a', font: { size: 10 } },
+                ticks: { color: '#71717a', maxTicksLimit: 10, font: { size: 9 } },
+                grid: { color: 'rgba(39,39,42,0.5)' },
+              },
+              y: {
+                display: true,
+                position: 'left',
+                title: { display: true, text: 'Width %', color: '#71717a', font: { size: 10 } },
+                ticks: { color: '#71717a', font: { size: 9 } },
+                grid: { color: 'rgba(39,39,42,0.5)' },
+                afterFit: fixYAxisWidth,
+                min: 0,
+                max: 200,
+              },
+              y1: {
+                display: true,
+                position: 'right',
+                title: { display: true, text: 'Correlation', color: '#71717a', font: { size: 10 } },
+                ticks: { color: '#71717a', font: { size: 9 } },
+                grid: { drawOnChartArea: false },
+                afterFit: fixYAxisWidth,
+                min: -1,
+                max: 1,
+              },
+            },
+            plugins: {
+              tooltip: {
+                mode: 'index',
+                intersect: false,
+                filter: item => item.dataset.label !== '低相関しきい値',
+                callbacks: {
+                  label: ctx => ctx.dataset.yAxisID === 'y1'
+                    ? `${ctx.dataset.label}: ${ctx.parsed.y?.toFixed(2) ?? ''}`
+                    : `${ctx.dataset.label}: ${ctx.parsed.y?.toFixed(1) ?? ''} %`,
+                },
+              },
+            },
+          }}
+        />
+      </div>
+    </details>
+  );
+}
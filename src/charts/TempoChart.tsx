@@ -0,0 +1,101 @@
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+} from 'chart.js';
+import type { TempoCurve } from '../analysis/types';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Title, Tooltip);
+
+interface Props {
+  tempo: TempoCurve;
+  /** 曲全体の BPM（RhythmExtractor2013） */
+  bpm: number;
+}
+
+const TEMPO_COLOR = '#34d399';
+const SECTION_COLOR = 'rgba(250, 204, 21, 0.8)';
+// 縦軸は曲全体の BPM の周りにこれ以上の幅を取る（ほぼ一定の曲で揺れが拡大されすぎないように）
+const MIN_Y_SPAN = 10;
+
+export function TempoChart({ tempo, bpm }: Props) {
+  if (tempo.bpm.length === 0) return null;
+
+  const points = tempo.times.map((x, i) => ({ x, y: tempo.bpm[i] }));
+  // 区間ごとのテンポを階段状に描く
+  const sectionPoints = tempo.sections.flatMap(s => [{ x: s.start, y: s.bpm }, { x: s.end, y: s.bpm }]);
+  const center = bpm > 0 ? bpm : (tempo.min + tempo.max) / 2;
+  const yMin = Math.floor(Math.min(tempo.min, center - MIN_Y_SPAN / 2));
+  const yMax = Math.ceil(Math.max(tempo.max, center + MIN_Y_SPAN / 2));
+
+  return (
+    <details className="chart-card collapsible" open>
+      <summary className="chart-title">
+        Tempo (時系列) — 局所テンポ / 区間テンポ
+      </summary>
+      <div className="chart-container">
+        <Line
+          data={{
+            datasets: [{
+              label: '局所テンポ',
+              data: points,
+              borderColor: TEMPO_COLOR,
+              backgroundColor: 'rgba(52, 211, 153, 0.08)',
+              borderWidth: 1.2,
+              pointRadius: 0,
+              fill: false,
+              tension: 0.2,
+            }, {
+              label: '区間テンポ',
+              data: sectionPoints,
+              borderColor: SECTION_COLOR,
+              borderWidth: 1,
+              borderDash: [4, 4],
+              pointRadius: 0,
+              fill: false,
+            }],
+          }}
+          options={{
+            responsive: true,
+            maintainAspectRatio: false,
+            animation: false,
+            parsing: false,
+            scales: {
+              x: {
+                type: 'linear',
+                display: true,
+                title: { display: true, text: '秒', color: '#71717a', font: { size: 10 } },
+                ticks: { color: '#71717a', maxTicksLimit: 10, font: { size: 9 } },
+                grid: { color: 'rgba(39,39,42,0.5)' },
+                min: 0,
+                max: tempo.sections[tempo.sections.length - 1]?.end,
+              },
+              y: {
+                display: true,
+                title: { display: true, text: 'BPM', color: '#71717a', font: { size: 10 } },
+                ticks: { color: '#71717a', font: { size: 9 } },
+                grid: { color: 'rgba(39,39,42,0.5)' },
+                min: yMin,
+                max: yMax,
+              },
+            },
+            plugins: {
+              tooltip: {
+                mode: 'nearest',
+                intersect: false,
+                callbacks: {
+                  title: items => items.length > 0 ? `${items[0].parsed.x?.toFixed(1) ?? ''} 秒` : '',
+                  label: ctx => `${ctx.dataset.label}: ${ctx.parsed.y?.toFixed(1) ?? ''} BPM`,
+                },
+              },
+            },
+          }}
+        />
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,230 @@
+import { useMemo, useState } from 'react';
+import { Bar, Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  BarElement,
+  CategoryScale,
+  LinearScale,
+  LogarithmicScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Filler,
+} from 'chart.js';
+import { formatFrequency } from '../analysis/frequencyScale';
+import { levelColor } from '../analysis/spec';
+import { compareToTarget, DEVIATION_DANGER_DB, DEVIATION_WARNING_DB } from '../analysis/tonalBalance';
+import type { SpectrumResult } from '../analysis/types';
+import { useTargetCurves } from '../hooks/useTargetCurves';
+
+ChartJS.register(BarElement, CategoryScale, LinearScale, LogarithmicScale, PointElement, LineElement, Title, Tooltip, Filler);
+
+interface Props {
+  spectrum: SpectrumResult;
+}
+
+const FREQ_TICKS = new Set([20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000]);
+const AXIS = { color: '#71717a', font: { size: 9 } };
+const GRID = { color: 'rgba(39,39,42,0.5)' };
+
+function shortFrequency(hz: number): string {
+  return hz >= 1000 ? `${hz / 1000}k` : String(hz);
+}
+
+export function TonalBalanceChart({ spectrum }: Props) {
+  const { curve, curves, selectCurve, deleteCurve } = useTargetCurves();
+  const [showSmoothed, setShowSmoothed] = useState(true);
+  const [showTolerance, setShowTolerance] = useState(true);
+
+  const comparison = useMemo(() => compareToTarget(spectrum, curve), [spectrum, curve]);
+  const { offset, bands, warnings } = comparison;
+
+  const thirdOctave = bands.map(b => ({ x: b.frequency, y: b.measured }));
+  const target = bands.map(b => ({ x: b.frequency, y: b.target }));
+  const smoothed = spectrum.smoothed.frequencies.map((hz, i) => ({ x: hz, y: spectrum.smoothed.levels[i] + offset }));
+  const upper = bands.map(b => ({ x: b.frequency, y: b.target + DEVIATION_WARNING_DB }));
+  const lower = bands.map(b => ({ x: b.frequency, y: b.target - DEVIATION_WARNING_DB }));
+
+  const allLevels = [...thirdOctave, ...target].map(p => p.y);
+  const yMax = Math.ceil((Math.max(...allLevels, 0) + 3) / 6) * 6;
+  const yMin = yMax - 48;
+
+  const builtinCurves = curves.filter(c => c.builtin);
+  const customCurves = curves.filter(c => !c.builtin);
+
+  return (
+    <details className="chart-card collapsible" open>
+      <summary className="chart-title">
+        Tonal Balance (平均スペクトル) — ターゲット: {curve.name}
+      </summary>
+      <div className="tonal-head">
+        <label>
+          ターゲット
+          <select className="spectrogram-select" value={curve.id} onChange={e => selectCurve(e.target.value)}>
+            <optgroup label="ジャンル">
+              {builtinCurves.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </optgroup>
+            {customCurves.length > 0 && (
+              <optgroup label="リファレンス曲から作成">
+                {customCurves.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+        </label>
+        {!curve.builtin && (
+          <button className="player-btn" onClick={() => deleteCurve(curve.id)}>削除</button>
+        )}
+        <div className="chart-toggles tonal-toggles">
+          <button
+            className={`chart-toggle ${showSmoothed ? 'active' : ''}`}
+            style={{ '--toggle-color': 'rgba(99, 102, 241, 0.8)' } as React.CSSProperties}
+            onClick={() => setShowSmoothed(v => !v)}
+          >FFT (1/6 oct)</button>
+          <button
+            className={`chart-toggle ${showTolerance ? 'active' : ''}`}
+            style={{ '--toggle-color': '#a1a1aa' } as React.CSSProperties}
+            onClick={() => setShowTolerance(v => !v)}
+          >±{DEVIATION_WARNING_DB} dB</button>
+        </div>
+      </div>
+      {customCurves.length === 0 && (
+        <div className="tonal-hint">リファレンス比較タブで解析した曲をターゲットカーブとして保存できます</div>
+      )}
+      <div className="chart-container tall">
+        <Line
+          data={{
+            datasets: [
+              ...(showTolerance ? [{
+                label: `+${DEVIATION_WARNING_DB} dB`,
+                data: upper,
+                borderColor: 'transparent',
+                pointRadius: 0,
+                fill: false,
+              }, {
+                label: `-${DEVIATION_WARNING_DB} dB`,
+                data: lower,
+                borderColor: 'transparent',
+                backgroundColor: 'rgba(161, 161, 170, 0.12)',
+                pointRadius: 0,
+                fill: '-1',
+              }] : []),
+              {
+                label: curve.name,
+                data: target,
+                borderColor: '#a1a1aa',
+                borderWidth: 1.5,
+                borderDash: [6, 4],
+                pointRadius: 0,
+                fill: false,
+              },
+              ...(showSmoothed ? [{
+                label: 'FFT (1/6 oct)',
+                data: smoothed,
+                borderColor: 'rgba(99, 102, 241, 0.8)',
+                borderWidth: 1,
+                pointRadius: 0,
+                fill: false,
+                tension: 0.2,
+              }] : []),
+              {
+                label: '1/3 oct',
+                data: thirdOctave,
+                borderColor: '#22c55e',
+                backgroundColor: '#22c55e',
+                borderWidth: 2,
+                pointRadius: 2,
+                fill: false,
+              },
+            ],
+          }}
+          options={{
+            responsive: true,
+            maintainAspectRatio: false,
+            animation: false,
+            scales: {
+              x: {
+                type: 'logarithmic',
+                min: 20,
+                max: 20000,
+                title: { display: true, text: 'Hz', ...AXIS },
+                ticks: {
+                  ...AXIS,
+                  autoSkip: false,
+                  callback: v => (FREQ_TICKS.has(Number(v)) ? shortFrequency(Number(v)) : ''),
+                },
+                grid: GRID,
+              },
+              y: {
+                title: { display: true, text: 'dB (ターゲット基準)', ...AXIS },
+                ticks: AXIS,
+                grid: GRID,
+                min: yMin,
+                max: yMax,
+              },
+            },
+            plugins: {
+              tooltip: {
+                mode: 'nearest',
+                intersect: false,
+                filter: item => !item.dataset.label?.includes(`${DEVIATION_WARNING_DB} dB`),
+                callbacks: {
+                  title: items => (items[0] ? formatFrequency(items[0].parsed.x ?? 0) : ''),
+                  label: ctx => `${ctx.dataset.label}: ${ctx.parsed.y?.toFixed(1) ?? ''} dB`,
+                },
+              },
+            },
+          }}
+        />
+      </div>
+
+      {/* ── バンドごとの偏差 ── */}
+      <div className="chart-container">
+        <Bar
+          data={{
+            labels: bands.map(b => shortFrequency(b.frequency)),
+            datasets: [{
+              label: '偏差',
+              data: bands.map(b => b.deviation),
+              backgroundColor: bands.map(b => levelColor(b.level) ?? '#71717a'),
+            }],
+          }}
+          options={{
+            responsive: true,
+            maintainAspectRatio: false,
+            animation: false,
+            scales: {
+              x: { ticks: AXIS, grid: GRID },
+              y: {
+                title: { display: true, text: '偏差 (dB)', ...AXIS },
+                ticks: AXIS,
+                grid: GRID,
+                suggestedMin: -DEVIATION_DANGER_DB - 3,
+                suggestedMax: DEVIATION_DANGER_DB + 3,
+              },
+            },
+            plugins: {
+              tooltip: {
+                callbacks: {
+                  title: items => (items[0] ? formatFrequency(bands[items[0].dataIndex].frequency) : ''),
+                  label: ctx => {
+                    const v = ctx.parsed.y ?? 0;
+                    return `偏差: ${v > 0 ? '+' : ''}${v.toFixed(1)} dB`;
+                  },
+                },
+              },
+            },
+          }}
+        />
+      </div>
+
+      <div className="tonal-warnings">
+        {warnings.length === 0
+          ? <div className="metric-comment metric-comment-safe">ターゲットから ±{DEVIATION_WARNING_DB} dB 以内に収まっています</div>
+          : warnings.map((w, i) => (
+            <div key={i} className={`metric-comment metric-comment-${w.level}`}>{w.msg}</div>
+          ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,46 @@
+// 時系列チャートに時間区間（曲中の無音など）を背景の帯で重ねるプラグイン
+import type { ChartType, Plugin } from 'chart.js';
+
+export interface TimeRegion {
+  start: number;
+  end: number;
+}
+
+export interface TimeRegionsOptions {
+  regions: TimeRegion[];
+  /** x 軸の全長（秒）。ラベルは timeLabels() と同じく 0〜duration を等分したもの */
+  duration: number;
+  color?: string;
+}
+
+declare module 'chart.js' {
+  // 型引数は chart.js 側の宣言と同じ形にする必要がある
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface PluginOptionsByType<TType extends ChartType> {
+    timeRegions?: TimeRegionsOptions;
+  }
+}
+
+const DEFAULT_COLOR = 'rgba(148, 163, 184, 0.16)';
+
+/** <Line plugins={[timeRegionsPlugin]}> で使い、options.plugins.timeRegions に区間を渡す */
+export const timeRegionsPlugin: Plugin<'line'> = {
+  id: 'timeRegions',
+  beforeDatasetsDraw(chart, _args, options: TimeRegionsOptions) {
+    const { regions, duration, color } = options;
+    const points = chart.data.labels?.length ?? 0;
+    const x = chart.scales.x;
+    if (!regions || regions.length === 0 || duration <= 0 || points === 0 || !x) return;
+
+    const { ctx, chartArea } = chart;
+    const toPixel = (t: number) => x.getPixelForValue((t / duration) * points);
+    ctx.save();
+    ctx.fillStyle = color ?? DEFAULT_COLOR;
+    for (const r of regions) {
+      const x0 = Math.max(chartArea.left, toPixel(r.start));
+      const x1 = Math.min(chartArea.right, toPixel(r.end));
+      if (x1 > x0) ctx.fillRect(x0, chartArea.top, x1 - x0, chartArea.bottom - chartArea.top);
+    }
+    ctx.restore();
+  },
+};
@@ -0,0 +1,40 @@
+// 時系列チャート共通: リサンプルと時間軸ラベル、縦に並べたチャートの横位置合わせ
+import type { Scale } from 'chart.js';
+
+export const MAX_CHART_POINTS = 500;
+
+// 縦軸の幅を固定して、上下に並べたチャートのプロット領域を揃える
+const Y_AXIS_WIDTH = 52;
+
+/** 全データセットを同じ点数にリサンプル（線形補間） */
+export function resampleTo(arr: number[], target: number): number[] {
+  if (arr.length === 0 || target === 0) return [];
+  if (arr.length === target) return arr;
+  const result: number[] = [];
+  for (let i = 0; i < target; i++) {
+    const pos = target > 1 ? (i / (target - 1)) * (arr.length - 1) : 0;
+    const lo = Math.floor(pos);
+    const hi = Math.min(lo + 1, arr.length - 1);
+    const frac = pos - lo;
+    result.push(arr[lo] * (1 - frac) + arr[hi] * frac);
+  }
+  return result;
+}
+
+/** 系列の長さからチャートの点数を決める（最長の系列に合わせ、MAX_CHART_POINTS で打ち切る） */
+export function chartPointCount(...lengths: number[]): number {
+  return Math.min(MAX_CHART_POINTS, Math.max(0, ...lengths));
+}
+
+/** 0〜duration 秒を numPoints 点に割り当てた x 軸ラベル */
+export function timeLabels(numPoints: number, duration: number): string[] {
+  return Array.from({ length: numPoints }, (_, i) => ((i / numPoints) * duration).toFixed(1));
+}
+
+/** 縦軸の afterFit に渡す。左右どちらの軸でも同じ幅にする */
+export function fixYAxisWidth(scale: Scale) {
+  scale.width = Y_AXIS_WIDTH;
+}
+
+/** 右側に軸が無いチャートでも、右軸付きのチャートとプロット幅を揃えるための余白 */
+export const RIGHT_AXIS_PADDING = { right: Y_AXIS_WIDTH };
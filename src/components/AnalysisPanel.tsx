@@ -1,4 +1,12 @@
-import type { AnalysisResult, FileInfo } from '../analysis/types';
+import type { AnalysisResult, FileInfo, LoudnessPoint } from '../analysis/types';
+import { judge, levelColor, type Judgement, type SpecMetricId, type SpecProfile } from '../analysis/spec';
+import { channelLabel, channelLayoutName } from '../analysis/channels';
+import { findLowCorrelationRegions } from '../analysis/correlation';
+import { STEREO_BANDS } from '../analysis/stereoBands';
+import { formatFrequency } from '../analysis/frequencyScale';
+import { worstDcOffset } from '../analysis/quality';
+import { useSpecProfile } from '../hooks/useSpecProfile';
+import { ChannelMap } from './ChannelMap';
 
 function formatDuration(sec: number): string {
   const m = Math.floor(sec / 60);
@@ -16,7 +24,7 @@ function Label({ text, tip }: { text: string; tip: string }) {
   );
 }
 
-function InlineComment({ comment }: { comment: { level: 'safe' | 'danger' | 'warning'; msg: string } | null }) {
+function InlineComment({ comment }: { comment: Judgement | null }) {
   if (!comment) return null;
   return (
     <div className={`metric-comment metric-comment-${comment.level}`}>{comment.msg}</div>
@@ -25,126 +33,144 @@ function InlineComment({ comment }: { comment: { level: 'safe' | 'danger' | 'war
 
 const DASH = '—';
 
+interface LoudnessPointMetricProps {
+  label: string;
+  tip: string;
+  metric: SpecMetricId;
+  point: LoudnessPoint | null;
+  profile: SpecProfile;
+  onJump?: (time: number) => void;
+}
+
+/** ラウドネス統計の 1 項目。値とその窓の位置（クリックでジャンプ）を表示する */
+function LoudnessPointMetric({ label, tip, metric, point, profile, onJump }: LoudnessPointMetricProps) {
+  const pointJudge = judge(profile, metric, point?.value);
+  return (
+    <div className="metric">
+      <Label text={label} tip={tip} />
+      <div className="metric-value" style={{ color: levelColor(pointJudge?.level) }}>
+        {point ? <>{point.value.toFixed(1)}<span className="metric-unit">LUFS</span></> : '---'}
+      </div>
+      {point && (
+        <div className="metric-sub">
+          位置{' '}
+          {onJump
+            ? <button className="event-jump" onClick={() => onJump(point.time)} title="この位置へ移動">{formatDuration(point.time)}</button>
+            : formatDuration(point.time)}
+        </div>
+      )}
+      <InlineComment comment={pointJudge} />
+    </div>
+  );
+}
+
+// パネルに列挙するオーバー箇所の数（波形には全件マークする）
+const LISTED_OVERS = 5;
+const LISTED_LOW_CORRELATION = 5;
+// モノラル化で「打ち消し」として列挙するバンド（無相関の -3 dB より明らかに大きい落ち込み）
+const MONO_CANCEL_LIST_DB = -6;
+const LISTED_MONO_BANDS = 5;
+// クリップ一覧の行数（波形には Worker が返した分を全てマークする）
+const LISTED_CLIPS = 100;
+const LISTED_CLICKS = 100;
+const LISTED_SILENCE = 100;
+// クリックの試聴で前後に含める長さ（秒）
+const CLICK_AUDITION_SEC = 0.25;
+
+function formatCorrelation(v: number): string {
+  return v > 0 ? `+${v.toFixed(2)}` : v.toFixed(2);
+}
+
+function formatDb(v: number): string {
+  if (!isFinite(v)) return v > 0 ? '+∞' : '-∞';
+  return v > 0 ? `+${v.toFixed(1)}` : v.toFixed(1);
+}
+
 interface Props {
   result?: AnalysisResult | null;
   fileInfo?: FileInfo | null;
+  /** 一覧の時刻クリックで波形プレイヤーをその位置へ移動する */
+  onJump?: (time: number) => void;
+  /** 検出箇所の前後を波形プレイヤーでループ再生する */
+  onLoop?: (start: number, end: number) => void;
 }
 
-export function AnalysisPanel({ result, fileInfo }: Props) {
+export function AnalysisPanel({ result, fileInfo, onJump, onLoop }: Props) {
   const loudness = result?.loudness ?? null;
   const stereo = result?.stereo ?? null;
   const quality = result?.quality ?? null;
+  const dynamics = result?.dynamics ?? null;
 
-  // 色分け: OK=緑, 警告=黄, NG=赤
-  const ok = 'var(--success)';
-  const warn = 'var(--warning)';
-  const ng = 'var(--danger)';
+  const { profile } = useSpecProfile();
 
-  // 基本情報
-  const durationColor = fileInfo
-    ? (fileInfo.duration >= 120 && fileInfo.duration <= 210 ? ok : warn)
-    : undefined;
-  const srColor = fileInfo
-    ? (fileInfo.sampleRate === 48000 ? ok : warn)
-    : undefined;
-  const chColor = fileInfo
-    ? (fileInfo.channels >= 2 ? ok : warn)
-    : undefined;
-  const fmtColor = fileInfo
-    ? (fileInfo.format === 'WAV' ? ok : warn)
-    : undefined;
+  // 基本情報・オーディオ解析はスペックプロファイルで判定
+  const durationJudge = judge(profile, 'duration', fileInfo?.duration);
+  const srJudge = judge(profile, 'sampleRate', fileInfo?.sampleRate);
+  const chJudge = judge(profile, 'channels', fileInfo?.channels);
+  const fmtJudge = judge(profile, 'format', fileInfo?.format);
 
-  // オーディオ解析
-  const lufsColor = loudness
-    ? (loudness.integratedLUFS > -6 ? ng
-      : loudness.integratedLUFS < -9 ? warn
-      : ok)
-    : undefined;
-  const tpColor = loudness
-    ? (loudness.truePeakDBTP > 1.5 ? ng : ok)
-    : undefined;
-  const lrColor = loudness
-    ? (loudness.loudnessRange < 2.5 || loudness.loudnessRange > 6.0 ? warn : ok)
-    : undefined;
   const widthPercent = stereo ? Math.min(stereo.width * 100, 200) : null;
-  const swColor = stereo
-    ? (widthPercent! < 20 || widthPercent! > 60 ? warn : ok)
-    : undefined;
+  const lufsJudge = judge(profile, 'integratedLUFS', loudness?.integratedLUFS);
+  const tpJudge = judge(profile, 'truePeakDBTP', loudness?.truePeakDBTP);
+  const truePeak = loudness?.truePeak ?? null;
+  const lrJudge = judge(profile, 'loudnessRange', loudness?.loudnessRange);
+  const swJudge = judge(profile, 'stereoWidth', widthPercent);
+  const corrJudge = judge(profile, 'correlation', stereo?.correlation);
+  const monoFold = result?.monoFold ?? null;
+  const monoDropJudge = judge(profile, 'monoDrop', monoFold?.drop);
+  const worstMonoBand = monoFold && monoFold.bands.length > 0
+    ? monoFold.bands.reduce((a, b) => (b.drop < a.drop ? b : a))
+    : null;
+  const monoBandJudge = judge(profile, 'monoBandCancel', worstMonoBand?.drop);
+  const cancellingBands = monoFold
+    ? monoFold.bands.filter(b => b.drop < MONO_CANCEL_LIST_DB).sort((a, b) => a.drop - b.drop)
+    : [];
+  const lowBand = stereo?.bands.find(b => b.id === 'low');
+  const subBassJudge = judge(profile, 'subBassSide', lowBand?.sideLevel);
+  const { correlationThreshold, correlationMinDuration } = profile.detection;
+  const lowCorrelation = stereo
+    ? findLowCorrelationRegions(stereo.correlationSeries, correlationThreshold, correlationMinDuration)
+    : [];
+  const lowCorrelationComment: Judgement | null = lowCorrelation.length > 0
+    ? { level: 'warning', msg: `相関 ${formatCorrelation(correlationThreshold)} 未満が ${correlationMinDuration} 秒以上続く区間が ${lowCorrelation.length} 箇所 — モノラル再生で打ち消し合うかも` }
+    : null;
+  const headJudge = judge(profile, 'headSilence', quality?.headSilence);
+  const tailJudge = judge(profile, 'tailSilence', quality?.tailSilence);
+  const clipping = quality?.clipping ?? null;
+  const clipJudge = judge(profile, 'clipCount', clipping?.count);
+  const listedClips = clipping?.events.slice(0, LISTED_CLIPS) ?? [];
+  const clicks = quality?.clicks ?? null;
+  const clickJudge = judge(profile, 'clickCount', clicks?.count);
+  const listedClicks = clicks?.events.slice(0, LISTED_CLICKS) ?? [];
+  const dcWorst = quality ? worstDcOffset(quality.dcOffset) : null;
+  const dcJudge = judge(profile, 'dcOffset', dcWorst);
+  const balance = quality?.balance ?? null;
+  const balanceJudge = judge(profile, 'channelBalance', balance?.loudnessDiff);
+  const polarity = quality?.polarity ?? null;
+  const polarityJudge = judge(profile, 'polarity', polarity?.lowCorrelation);
+  const silence = quality?.silence ?? null;
+  const silenceJudge = judge(profile, 'internalSilence', silence?.count);
+  const listedSilence = silence?.regions.slice(0, LISTED_SILENCE) ?? [];
 
-  // クオリティチェック
+  // 先頭・末尾サンプルはプロファイルに依らず固定判定
+  const ok = 'var(--success)';
+  const warn = 'var(--warning)';
   const startColor = quality
     ? (quality.startIsZero ? ok : warn)
     : undefined;
   const endColor = quality
     ? (quality.endIsZero ? ok : warn)
     : undefined;
-  const headColor = quality
-    ? (quality.headSilence > 1.0 ? warn : ok)
-    : undefined;
-  const tailColor = quality
-    ? (quality.tailSilence > 1.0 ? warn : ok)
-    : undefined;
-
-  // 各メトリクスのインラインコメント
-  type Comment = { level: 'safe' | 'danger' | 'warning'; msg: string };
-
-  // 基本情報コメント
-  const durationComment: Comment | null = fileInfo
-    ? fileInfo.duration < 120 ? { level: 'warning', msg: 'ちょっと短めかも — 2:00〜3:30 が目安' }
-    : fileInfo.duration > 210 ? { level: 'warning', msg: 'ちょっと長めかも — 2:00〜3:30 が目安' }
-    : { level: 'safe', msg: 'いい感じ!' }
-    : null;
-  const srComment: Comment | null = fileInfo
-    ? fileInfo.sampleRate !== 48000 ? { level: 'warning', msg: '48,000 Hz が推奨' }
-    : { level: 'safe', msg: 'OK!' }
-    : null;
-  const chComment: Comment | null = fileInfo
-    ? fileInfo.channels < 2 ? { level: 'warning', msg: 'モノラル — ステレオが推奨' }
-    : { level: 'safe', msg: 'OK!' }
-    : null;
-  const fmtComment: Comment | null = fileInfo
-    ? fileInfo.format !== 'WAV' ? { level: 'warning', msg: 'WAV が推奨' }
-    : { level: 'safe', msg: 'OK!' }
-    : null;
-
-  // オーディオ解析コメント
-  const lufsComment: Comment | null = loudness
-    ? loudness.integratedLUFS > -6 ? { level: 'danger', msg: '音圧高め — -9〜-6 LUFS が目安' }
-    : loudness.integratedLUFS < -9 ? { level: 'warning', msg: '音圧低め — -9〜-6 LUFS が目安' }
-    : { level: 'safe', msg: 'いい感じ!' }
-    : null;
-  const tpComment: Comment | null = loudness
-    ? loudness.truePeakDBTP > 1.5 ? { level: 'danger', msg: '+1.5 dBTP 超え' }
-    : { level: 'safe', msg: 'OK!' }
-    : null;
-  const lrComment: Comment | null = loudness
-    ? loudness.loudnessRange < 2.5 ? { level: 'warning', msg: 'ダイナミクス少なめ — 2.5〜6.0 LU が目安' }
-    : loudness.loudnessRange > 6.0 ? { level: 'warning', msg: 'ダイナミクス広め — 2.5〜6.0 LU が目安' }
-    : { level: 'safe', msg: 'いい感じ!' }
-    : null;
-  const swComment: Comment | null = stereo
-    ? (widthPercent! < 20 ? { level: 'warning', msg: 'ちょっと狭め — 20〜60% が目安' }
-    : widthPercent! > 60 ? { level: 'warning', msg: 'ちょっと広め — 20〜60% が目安' }
-    : { level: 'safe', msg: 'いい感じ!' })
-    : null;
 
   // クオリティコメント
-  const startComment: Comment | null = quality
+  const startComment: Judgement | null = quality
     ? !quality.startIsZero ? { level: 'warning', msg: 'ゼロじゃない — クリックノイズの原因に' }
     : { level: 'safe', msg: 'OK!' }
     : null;
-  const endComment: Comment | null = quality
+  const endComment: Judgement | null = quality
     ? !quality.endIsZero ? { level: 'warning', msg: 'ゼロじゃない — クリックノイズの原因に' }
     : { level: 'safe', msg: 'OK!' }
     : null;
-  const headComment: Comment | null = quality
-    ? quality.headSilence > 1.0 ? { level: 'warning', msg: `${quality.headSilence.toFixed(2)} 秒 — 1秒以内が目安` }
-    : { level: 'safe', msg: 'OK!' }
-    : null;
-  const tailComment: Comment | null = quality
-    ? quality.tailSilence > 1.0 ? { level: 'warning', msg: `${quality.tailSilence.toFixed(2)} 秒 — 1秒以内が目安` }
-    : { level: 'safe', msg: 'OK!' }
-    : null;
 
   return (
     <div className="panel">
@@ -154,25 +180,28 @@ export function AnalysisPanel({ result, fileInfo }: Props) {
         <div className="metric-grid">
           <div className="metric">
             <Label text="長さ" tip="オーディオファイルの総再生時間" />
-            <div className="metric-value" style={{ color: durationColor }}>{fileInfo ? formatDuration(fileInfo.duration) : DASH}</div>
-            <InlineComment comment={durationComment} />
+            <div className="metric-value" style={{ color: levelColor(durationJudge?.level) }}>{fileInfo ? formatDuration(fileInfo.duration) : DASH}</div>
+            <InlineComment comment={durationJudge} />
           </div>
           <div className="metric">
             <Label text="サンプルレート" tip="1秒あたりのサンプル数。値が高いほど高音質" />
-            <div className="metric-value" style={{ color: srColor }}>
+            <div className="metric-value" style={{ color: levelColor(srJudge?.level) }}>
               {fileInfo ? <>{fileInfo.sampleRate.toLocaleString()}<span className="metric-unit">Hz</span></> : DASH}
             </div>
-            <InlineComment comment={srComment} />
+            {fileInfo && fileInfo.analysisSampleRate > 0 && (
+              <div className="metric-sub">解析: {fileInfo.analysisSampleRate.toLocaleString()} Hz</div>
+            )}
+            <InlineComment comment={srJudge} />
           </div>
           <div className="metric">
             <Label text="チャンネル" tip="Mono: 1チャンネル、Stereo: 左右2チャンネル" />
-            <div className="metric-value" style={{ color: chColor }}>{fileInfo ? (fileInfo.channels === 1 ? 'Mono' : 'Stereo') : DASH}</div>
-            <InlineComment comment={chComment} />
+            <div className="metric-value" style={{ color: levelColor(chJudge?.level) }}>{fileInfo ? channelLayoutName(fileInfo.channels) : DASH}</div>
+            <InlineComment comment={chJudge} />
           </div>
           <div className="metric">
             <Label text="フォーマット" tip="オーディオファイルの形式（WAV, MP3, FLAC等）" />
-            <div className="metric-value" style={{ color: fmtColor }}>{fileInfo?.format ?? DASH}</div>
-            <InlineComment comment={fmtComment} />
+            <div className="metric-value" style={{ color: levelColor(fmtJudge?.level) }}>{fileInfo?.format ?? DASH}</div>
+            <InlineComment comment={fmtJudge} />
           </div>
         </div>
       </section>
@@ -183,37 +212,229 @@ export function AnalysisPanel({ result, fileInfo }: Props) {
         <div className="metric-grid">
           <div className="metric">
             <Label text="Integrated (EBU R128)" tip="EBU R128規格に基づく統合ラウドネス。楽曲全体の平均的な音量を示す" />
-            <div className="metric-value" style={{ color: lufsColor }}>
+            <div className="metric-value" style={{ color: levelColor(lufsJudge?.level) }}>
               {loudness ? (isFinite(loudness.integratedLUFS) ? loudness.integratedLUFS.toFixed(1) : '---') : DASH}
               {loudness && <span className="metric-unit">LUFS</span>}
             </div>
-            <InlineComment comment={lufsComment} />
+            <InlineComment comment={lufsJudge} />
           </div>
           <div className="metric">
-            <Label text="True Peak" tip="4倍オーバーサンプリングによる真のピーク値。DA変換時の実際の最大振幅" />
-            <div className="metric-value" style={{ color: tpColor }}>
+            <Label text="True Peak" tip="ITU-R BS.1770-4 準拠の4倍オーバーサンプリングによる真のピーク値。DA変換時の実際の最大振幅。波形上の橙線は上限を超えた箇所" />
+            <div className="metric-value" style={{ color: levelColor(tpJudge?.level) }}>
               {loudness ? (isFinite(loudness.truePeakDBTP) ? loudness.truePeakDBTP.toFixed(1) : '---') : DASH}
               {loudness && <span className="metric-unit">dBTP</span>}
             </div>
-            <InlineComment comment={tpComment} />
+            {truePeak && (
+              <div className="metric-sub">
+                {truePeak.overCount > 0
+                  ? `${formatDb(truePeak.ceiling)} dBTP 超え: ${truePeak.overCount} 箇所（${truePeak.overSamples.toLocaleString()} サンプル）`
+                  : `${formatDb(truePeak.ceiling)} dBTP 超えなし`}
+              </div>
+            )}
+            {truePeak && truePeak.overs.length > 0 && (
+              <ul className="tp-overs">
+                {truePeak.overs.slice(0, LISTED_OVERS).map(o => (
+                  <li key={`${o.channel}-${o.time}`}>
+                    <span className="tp-over-time">{formatDuration(o.time)}</span>
+                    <span>{channelLabel(truePeak.channels.length, o.channel)}</span>
+                    <span className="tp-over-value">{formatDb(o.dBTP)} dBTP</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <InlineComment comment={tpJudge} />
           </div>
           <div className="metric">
             <Label text="Loudness Range" tip="楽曲内の音量変動幅。値が大きいほどダイナミクスが豊か" />
-            <div className="metric-value" style={{ color: lrColor }}>
+            <div className="metric-value" style={{ color: levelColor(lrJudge?.level) }}>
               {loudness ? <>{loudness.loudnessRange.toFixed(1)}<span className="metric-unit">LU</span></> : DASH}
             </div>
-            <InlineComment comment={lrComment} />
+            <InlineComment comment={lrJudge} />
           </div>
           <div className="metric">
             <Label text="Stereo Width" tip="ステレオの広がり。Mid/Side比率で算出。0%=モノラル、100%=フルステレオ" />
-            <div className="metric-value" style={{ color: swColor }}>
+            <div className="metric-value" style={{ color: levelColor(swJudge?.level) }}>
               {widthPercent != null ? <>{widthPercent.toFixed(1)}<span className="metric-unit">%</span></> : DASH}
             </div>
-            <InlineComment comment={swComment} />
+            <InlineComment comment={swJudge} />
+          </div>
+          <div className="metric">
+            <Label text="Correlation" tip="L/R の相関係数。+1=モノラル、0=無相関、マイナスは逆相成分が多くモノラル再生で音が消えやすい。時系列は 400ms 窓" />
+            <div className="metric-value" style={{ color: levelColor(corrJudge?.level) }}>
+              {stereo ? formatCorrelation(stereo.correlation) : DASH}
+            </div>
+            {lowCorrelation.length > 0 && (
+              <ul className="tp-overs">
+                {lowCorrelation.slice(0, LISTED_LOW_CORRELATION).map(r => (
+                  <li key={r.start}>
+                    <span className="tp-over-time">{formatDuration(r.start)}–{formatDuration(r.end)}</span>
+                    <span className="tp-over-value">min {formatCorrelation(r.min)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <InlineComment comment={corrJudge} />
+            <InlineComment comment={lowCorrelationComment} />
           </div>
         </div>
       </section>
 
+      {/* ── ラウドネス統計 ── */}
+      {loudness && (
+        <section className="panel-section">
+          <div className="panel-title">ラウドネス統計</div>
+          <div className="metric-grid">
+            <LoudnessPointMetric
+              label="Max Momentary" tip="400ms 窓のラウドネスの最大。位置は窓の開始時刻"
+              metric="maxMomentary" point={loudness.stats.maxMomentary} profile={profile} onJump={onJump}
+            />
+            <LoudnessPointMetric
+              label="Max Short-term" tip="3 秒窓のラウドネスの最大。放送の短尺規定（EBU R128 s1 等）で上限が決められている。位置は窓の開始時刻"
+              metric="maxShortTerm" point={loudness.stats.maxShortTerm} profile={profile} onJump={onJump}
+            />
+            <LoudnessPointMetric
+              label="Short-term P10" tip="-70 LUFS 以下を除いた Short-term の 10 パーセンタイル（静かな部分の目安）。位置はその値を最初に取った窓"
+              metric="shortTermP10" point={loudness.stats.shortTermP10} profile={profile} onJump={onJump}
+            />
+            <LoudnessPointMetric
+              label="Short-term P95" tip="-70 LUFS 以下を除いた Short-term の 95 パーセンタイル（大きい部分の目安）。位置はその値を最初に取った窓"
+              metric="shortTermP95" point={loudness.stats.shortTermP95} profile={profile} onJump={onJump}
+            />
+          </div>
+        </section>
+      )}
+
+      {/* ── ダイナミクス ── */}
+      {dynamics && (
+        <section className="panel-section">
+          <div className="panel-title">ダイナミクス</div>
+          <div className="metric-grid">
+            <div className="metric">
+              <Label text="PLR" tip="Peak to Loudness Ratio。True Peak − Integrated。小さいほど潰れた（リミッティングの強い）音" />
+              <div className="metric-value">
+                {isFinite(dynamics.plr) ? <>{dynamics.plr.toFixed(1)}<span className="metric-unit">dB</span></> : '---'}
+              </div>
+            </div>
+            <div className="metric">
+              <Label text="PSR（最大）" tip="Peak to Short-term loudness Ratio。3 秒窓ごとの True Peak − Short-term。時系列はラウドネスチャートの PSR で表示" />
+              <div className="metric-value">
+                {isFinite(dynamics.psrMax) ? <>{dynamics.psrMax.toFixed(1)}<span className="metric-unit">dB</span></> : '---'}
+              </div>
+            </div>
+            <div className="metric">
+              <Label text="クレストファクター" tip="チャンネルごとのサンプルピーク − RMS。値はチャンネル中の最小" />
+              <div className="metric-value">
+                {dynamics.crestFactors.length > 0
+                  ? <>{Math.min(...dynamics.crestFactors).toFixed(1)}<span className="metric-unit">dB</span></>
+                  : DASH}
+              </div>
+              {dynamics.crestFactors.length > 1 && (
+                <div className="metric-sub">
+                  {dynamics.crestFactors.map((c, ch) => `${channelLabel(dynamics.crestFactors.length, ch)} ${c.toFixed(1)}`).join(' / ')}
+                </div>
+              )}
+            </div>
+            <div className="metric">
+              <Label text="DR" tip="TT Dynamic Range Meter 方式。3 秒ブロックのうち大きい上位 20% の RMS と 2 番目のピークの比をチャンネル平均したもの" />
+              <div className="metric-value">DR{dynamics.dr}</div>
+              {dynamics.drChannels.length > 1 && (
+                <div className="metric-sub">
+                  {dynamics.drChannels.map((d, ch) => `${channelLabel(dynamics.drChannels.length, ch)} ${d.toFixed(1)}`).join(' / ')}
+                </div>
+              )}
+            </div>
+          </div>
+        </section>
+      )}
+
+      {/* ── マルチバンド M/S ── */}
+      {stereo && stereo.bands.length > 0 && (
+        <section className="panel-section">
+          <div className="panel-title">マルチバンド M/S</div>
+          <div className="metric-grid">
+            {STEREO_BANDS.map(def => {
+              const band = stereo.bands.find(b => b.id === def.id);
+              if (!band) return null;
+              const bandJudge = def.id === 'low' ? subBassJudge : null;
+              return (
+                <div className="metric" key={def.id}>
+                  {def.id === 'low'
+                    ? <Label text={def.label} tip="Linkwitz-Riley (24dB/oct) で帯域分割。低域の Side 成分はモノラル再生やアナログ盤のカッティングで問題になりやすい" />
+                    : <div className="metric-label">{def.label}</div>}
+                  <div className="metric-value">
+                    {Math.min(band.width * 100, 200).toFixed(1)}<span className="metric-unit">%</span>
+                  </div>
+                  <div className="metric-sub">
+                    Corr {formatCorrelation(band.correlation)} · Side <span style={{ color: levelColor(bandJudge?.level) }}>{formatDb(band.sideLevel)} dB</span>
+                  </div>
+                  <InlineComment comment={bandJudge} />
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
+      {/* ── モノラル互換性 ── */}
+      {monoFold && (
+        <section className="panel-section">
+          <div className="panel-title">モノラル互換性（L+R）</div>
+          <div className="metric-grid">
+            <div className="metric">
+              <Label text="Mono 化の音量差" tip="L+R を 1/2 にして両スピーカーで鳴らしたときの Integrated の変化。無相関なら約 -3 dB、逆相成分が多いほど大きく落ちる。プレーヤーの MONO ボタンで試聴できる" />
+              <div className="metric-value" style={{ color: levelColor(monoDropJudge?.level) }}>
+                {isFinite(monoFold.drop) ? <>{formatDb(monoFold.drop)}<span className="metric-unit">dB</span></> : DASH}
+              </div>
+              <div className="metric-sub">
+                Stereo {formatDb(monoFold.stereoLUFS)} → Mono {formatDb(monoFold.monoLUFS)} LUFS
+              </div>
+              <InlineComment comment={monoDropJudge} />
+            </div>
+            <div className="metric">
+              <Label text="打ち消し帯域" tip={`1/3 オクターブごとの落ち込み。${MONO_CANCEL_LIST_DB} dB より落ちる帯域を大きい順に表示`} />
+              <div className="metric-value" style={{ color: levelColor(monoBandJudge?.level) }}>
+                {worstMonoBand ? <>{formatDb(worstMonoBand.drop)}<span className="metric-unit">dB</span></> : DASH}
+              </div>
+              {worstMonoBand && <div className="metric-sub">最大: {formatFrequency(worstMonoBand.frequency)}</div>}
+              {cancellingBands.length > 0 && (
+                <ul className="tp-overs">
+                  {cancellingBands.slice(0, LISTED_MONO_BANDS).map(b => (
+                    <li key={b.frequency}>
+                      <span className="tp-over-time">{formatFrequency(b.frequency)}</span>
+                      <span className="tp-over-value">{formatDb(b.drop)} dB</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <InlineComment comment={monoBandJudge} />
+            </div>
+            <div className="metric">
+              <Label text="落ち込みの大きい区間" tip="Short-term (3秒窓) でモノラル化による音量差が大きい区間" />
+              {monoFold.worstRegions.length > 0 ? (
+                <ul className="tp-overs">
+                  {monoFold.worstRegions.map(r => (
+                    <li key={r.start}>
+                      <span className="tp-over-time">{formatDuration(r.start)}–{formatDuration(r.end)}</span>
+                      <span className="tp-over-value">{formatDb(r.drop)} dB</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : <div className="metric-value">{DASH}</div>}
+            </div>
+          </div>
+        </section>
+      )}
+
+      {/* ── チャンネル ── */}
+      {loudness && loudness.channelLevels.length > 0 && (
+        <section className="panel-section">
+          <div className="panel-title">
+            {loudness.channelLevels.length > 2 ? `チャンネルマップ（${channelLayoutName(loudness.channelLevels.length)}）` : 'チャンネル'}
+          </div>
+          <ChannelMap levels={loudness.channelLevels} truePeaks={loudness.truePeak.channels} />
+        </section>
+      )}
+
       {/* ── クオリティチェック ── */}
       <section className="panel-section">
         <div className="panel-title">クオリティチェック</div>
@@ -240,18 +461,194 @@ export function AnalysisPanel({ result, fileInfo }: Props) {
           </div>
           <div className="metric">
             <Label text="冒頭無音" tip="ファイル先頭の無音区間の長さ" />
-            <div className="metric-value" style={{ color: headColor }}>
+            <div className="metric-value" style={{ color: levelColor(headJudge?.level) }}>
               {quality ? <>{quality.headSilence.toFixed(3)}<span className="metric-unit">秒</span></> : DASH}
             </div>
-            <InlineComment comment={headComment} />
+            <InlineComment comment={headJudge} />
           </div>
           <div className="metric">
             <Label text="末尾無音" tip="ファイル末尾の無音区間の長さ" />
-            <div className="metric-value" style={{ color: tailColor }}>
+            <div className="metric-value" style={{ color: levelColor(tailJudge?.level) }}>
               {quality ? <>{quality.tailSilence.toFixed(3)}<span className="metric-unit">秒</span></> : DASH}
             </div>
-            <InlineComment comment={tailComment} />
+            <InlineComment comment={tailJudge} />
+          </div>
+          <div className="metric">
+            <Label text="DC オフセット" tip="波形の中心のずれ（サンプルの平均値）。ヘッドルームを無駄にし、編集点でクリックの原因になる。値はチャンネル中の最大" />
+            <div className="metric-value" style={{ color: levelColor(dcJudge?.level) }}>
+              {dcWorst != null ? <>{formatDb(dcWorst)}<span className="metric-unit">dBFS</span></> : DASH}
+            </div>
+            {quality && quality.dcOffset.length > 1 && (
+              <div className="metric-sub">
+                {quality.dcOffset.map((c, ch) => `${channelLabel(quality.dcOffset.length, ch)} ${c.mean >= 0 ? '+' : ''}${c.mean.toFixed(5)}`).join(' / ')}
+              </div>
+            )}
+            <InlineComment comment={dcJudge} />
+          </div>
+          <div className="metric">
+            <Label text="L/R バランス" tip="L と R をそれぞれ単独で測った Integrated の差（L − R）。プラスは L 寄り" />
+            <div className="metric-value" style={{ color: levelColor(balanceJudge?.level) }}>
+              {balance ? <>{formatDb(balance.loudnessDiff)}<span className="metric-unit">LU</span></> : DASH}
+            </div>
+            {balance && (
+              <div className="metric-sub">
+                L {formatDb(balance.leftLUFS)} / R {formatDb(balance.rightLUFS)} LUFS・RMS 差 {formatDb(balance.rmsDiff)} dB
+              </div>
+            )}
+            <InlineComment comment={balanceJudge} />
+          </div>
+          <div className="metric">
+            <Label text="極性" tip="低域（120Hz 以下）の L/R 相関。低域は通常ほぼモノラルなので、マイナスなら片チャンネルの極性反転が疑われる。L/R の入れ替わりは相関が変わらないため判定できない" />
+            <div className="metric-value" style={{ color: levelColor(polarityJudge?.level) }}>
+              {polarity ? formatCorrelation(polarity.lowCorrelation) : DASH}
+            </div>
+            {polarity && (
+              <div className="metric-sub">全帯域 {formatCorrelation(polarity.correlation)}・L/R 入れ替わりは判定不可</div>
+            )}
+            <InlineComment comment={polarityJudge} />
+          </div>
+        </div>
+        <div className="metric clip-metric">
+          <Label text="クリップ" tip="判定レベル以上のサンプルが連続した箇所をチャンネルごとに検出。波形上の赤線がクリップ、橙線が True Peak オーバー。レベルと連続数はスペックの検出パラメータで変更できる" />
+          <div className="metric-value" style={{ color: levelColor(clipJudge?.level) }}>
+            {clipping ? <>{clipping.count.toLocaleString()}<span className="metric-unit">箇所</span></> : DASH}
+          </div>
+          {clipping && (
+            <div className="metric-sub">
+              {formatDb(clipping.level)} dBFS 以上が {clipping.minRun} サンプル以上連続
+              {clipping.count > 0 && ` — 合計 ${(clipping.totalDuration * 1000).toFixed(1)} ms`}
+              {clipping.channelCounts.length > 1 && clipping.count > 0 && (
+                ` （${clipping.channelCounts.map((n, ch) => `${channelLabel(clipping.channelCounts.length, ch)} ${n}`).join(' / ')}）`
+              )}
+            </div>
+          )}
+          {clipping && listedClips.length > 0 && (
+            <div className="event-table-wrap">
+              <table className="event-table">
+                <thead>
+                  <tr>
+                    <th>時刻</th>
+                    <th>ch</th>
+                    <th>連続</th>
+                    <th>長さ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {listedClips.map(c => (
+                    <tr key={`${c.channel}-${c.time}`}>
+                      <td>
+                        {onJump
+                          ? <button className="event-jump" onClick={() => onJump(c.time)} title="この位置へ移動">{formatDuration(c.time)}</button>
+                          : formatDuration(c.time)}
+                      </td>
+                      <td>{channelLabel(clipping.channelCounts.length, c.channel)}</td>
+                      <td>{c.samples.toLocaleString()}</td>
+                      <td>{(c.duration * 1000).toFixed(2)} ms</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {clipping && clipping.count > listedClips.length && (
+            <div className="metric-sub">先頭 {listedClips.length} 件を表示</div>
+          )}
+          <InlineComment comment={clipJudge} />
+        </div>
+        <div className="metric clip-metric">
+          <Label text="クリック / ポップ" tip="編集点の段差やドロップアウトなど、周囲の高域レベル（2 階差分）から突出した瞬間的な不連続を検出。波形上の紫線。▶ で前後を繰り返し試聴できる" />
+          <div className="metric-value" style={{ color: levelColor(clickJudge?.level) }}>
+            {clicks ? <>{clicks.count.toLocaleString()}<span className="metric-unit">箇所</span></> : DASH}
           </div>
+          {clicks && (
+            <div className="metric-sub">
+              周囲より {clicks.threshold} dB 以上突出
+              {clicks.dangerCount > 0 && ` — うち強いもの ${clicks.dangerCount} 箇所`}
+            </div>
+          )}
+          {clicks && listedClicks.length > 0 && (
+            <div className="event-table-wrap">
+              <table className="event-table">
+                <thead>
+                  <tr>
+                    <th>時刻</th>
+                    <th>ch</th>
+                    <th>突出</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {listedClicks.map(c => (
+                    <tr key={`${c.channel}-${c.time}`}>
+                      <td>
+                        {onJump
+                          ? <button className="event-jump" onClick={() => onJump(c.time)} title="この位置へ移動">{formatDuration(c.time)}</button>
+                          : formatDuration(c.time)}
+                      </td>
+                      <td>{channelLabel(fileInfo?.channels ?? 0, c.channel)}</td>
+                      <td style={{ color: levelColor(c.severity) }}>+{c.strength.toFixed(1)} dB</td>
+                      <td>
+                        {onLoop && (
+                          <button
+                            className="event-audition"
+                            onClick={() => onLoop(c.time - CLICK_AUDITION_SEC, c.time + CLICK_AUDITION_SEC)}
+                            title={`前後 ${CLICK_AUDITION_SEC} 秒をループ再生`}
+                          >▶</button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {clicks && clicks.count > listedClicks.length && (
+            <div className="metric-sub">先頭 {listedClicks.length} 件を表示</div>
+          )}
+          <InlineComment comment={clickJudge} />
+        </div>
+        <div className="metric clip-metric">
+          <Label text="曲中の無音" tip="冒頭・末尾以外で、しきい値未満が一定時間以上続いた区間をチャンネルごとに検出。ドロップアウトやミュートの消し忘れの確認に。波形とラウドネスチャートの灰色の帯" />
+          <div className="metric-value" style={{ color: levelColor(silenceJudge?.level) }}>
+            {silence ? <>{silence.count.toLocaleString()}<span className="metric-unit">箇所</span></> : DASH}
+          </div>
+          {silence && (
+            <div className="metric-sub">
+              {silence.threshold} dBFS 未満が {silence.minDuration} 秒以上
+              {silence.count > 0 && ` — 合計 ${silence.totalDuration.toFixed(2)} 秒`}
+            </div>
+          )}
+          {silence && listedSilence.length > 0 && (
+            <div className="event-table-wrap">
+              <table className="event-table">
+                <thead>
+                  <tr>
+                    <th>区間</th>
+                    <th>ch</th>
+                    <th>長さ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {listedSilence.map(r => (
+                    <tr key={`${r.channel}-${r.start}`}>
+                      <td>
+                        {onJump
+                          ? <button className="event-jump" onClick={() => onJump(r.start)} title="この位置へ移動">{formatDuration(r.start)}</button>
+                          : formatDuration(r.start)}
+                        –{formatDuration(r.end)}
+                      </td>
+                      <td>{channelLabel(fileInfo?.channels ?? 0, r.channel)}</td>
+                      <td>{(r.end - r.start).toFixed(2)} 秒</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {silence && silence.count > listedSilence.length && (
+            <div className="metric-sub">先頭 {listedSilence.length} 件を表示</div>
+          )}
+          <InlineComment comment={silenceJudge} />
         </div>
       </section>
 
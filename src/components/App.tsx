@@ -3,6 +3,7 @@ import { DetailView } from './DetailView';
 import { BatchView } from './BatchView';
 import { ReferenceView } from './ReferenceView';
 import { BpmKeyView } from './BpmKeyView';
+import { SpecProfileSelector } from './SpecProfileSelector';
 
 type Tab = 'detail' | 'batch' | 'reference' | 'bpmkey';
 
@@ -48,6 +49,8 @@ export function App() {
         </button>
       </nav>
 
+      {activeTab !== 'bpmkey' && <SpecProfileSelector />}
+
       {activeTab === 'detail' && <DetailView />}
       {activeTab === 'batch' && <BatchView />}
       {activeTab === 'reference' && <ReferenceView />}
@@ -1,6 +1,11 @@
 import { useCallback, useRef, useState, type DragEvent } from 'react';
 import { useBatchAnalysis, type BatchItem } from '../hooks/useBatchAnalysis';
 import { formatDuration } from '../hooks/useAudioFile';
+import { useSpecProfile } from '../hooks/useSpecProfile';
+import { judgeColor } from '../analysis/spec';
+import { worstDcOffset } from '../analysis/quality';
+import { useBpmOverrides } from '../hooks/useBpmOverrides';
+import { findPlatform, NORMALIZATION_PLATFORMS, simulateNormalization } from '../analysis/normalization';
 
 const ACCEPT = '.wav,.mp3,.flac,.ogg,.aac,.m4a,.webm,.opus';
 
@@ -8,6 +13,7 @@ function statusLabel(status: BatchItem['status']): string {
   switch (status) {
     case 'pending': return '待機中';
     case 'decoding': return 'デコード中';
+    case 'queued': return '解析待ち';
     case 'analyzing': return '解析中';
     case 'done': return '完了';
     case 'error': return 'エラー';
@@ -18,41 +24,23 @@ function statusClass(status: BatchItem['status']): string {
   switch (status) {
     case 'pending': return 'batch-status-pending';
     case 'decoding':
+    case 'queued':
     case 'analyzing': return 'batch-status-active';
     case 'done': return 'batch-status-done';
     case 'error': return 'batch-status-error';
   }
 }
 
-function lufsColor(lufs: number): string {
-  if (lufs > -6) return 'var(--danger)';
-  if (lufs < -9) return 'var(--warning)';
-  return 'var(--success)';
-}
-
-function tpColor(tp: number): string {
-  if (tp > 1.5) return 'var(--danger)';
-  return 'var(--success)';
-}
-
-function lrColor(lr: number): string {
-  if (lr < 2.5 || lr > 6.0) return 'var(--warning)';
-  return 'var(--success)';
-}
-
-function swColor(w: number): string {
-  if (w < 20 || w > 60) return 'var(--warning)';
-  return 'var(--success)';
-}
-
-function durationColor(sec: number): string {
-  if (sec >= 120 && sec <= 210) return 'var(--success)';
-  return 'var(--warning)';
-}
-
 export function BatchView() {
-  const { items, isRunning, addFiles, startAnalysis, clear, removeItem, doneCount, errorCount, maxFiles } = useBatchAnalysis();
+  const {
+    items, isRunning, addFiles, startAnalysis, stop, clear, removeItem, doneCount, errorCount,
+    concurrency, setConcurrency, maxConcurrency, maxFiles,
+  } = useBatchAnalysis();
+  const { profile } = useSpecProfile();
+  const { getOverride } = useBpmOverrides();
   const [dragover, setDragover] = useState(false);
+  const [platformId, setPlatformId] = useState(NORMALIZATION_PLATFORMS[0].id);
+  const platform = findPlatform(platformId) ?? NORMALIZATION_PLATFORMS[0];
   const inputRef = useRef<HTMLInputElement>(null);
 
   const handleFiles = useCallback((fileList: FileList) => {
@@ -115,12 +103,44 @@ export function BatchView() {
             {errorCount > 0 && ` / ${errorCount}エラー`}
           </div>
           <div className="batch-actions">
+            <label className="batch-concurrency" title="正規化ゲイン列に表示するプラットフォーム">
+              正規化
+              <select
+                className="spec-input spec-input-sev"
+                value={platformId}
+                onChange={e => setPlatformId(e.target.value)}
+              >
+                {NORMALIZATION_PLATFORMS.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </label>
+            {maxConcurrency > 1 && (
+              <label className="batch-concurrency" title="同時に解析する曲数">
+                並列数
+                <select
+                  className="spec-input spec-input-sev"
+                  value={concurrency}
+                  onChange={e => setConcurrency(Number(e.target.value))}
+                  disabled={isRunning}
+                >
+                  {Array.from({ length: maxConcurrency }, (_, i) => i + 1).map(n => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </label>
+            )}
             {hasPending && !isRunning && (
               <button className="batch-btn batch-btn-primary" onClick={startAnalysis}>
                 解析開始
               </button>
             )}
-            <button className="batch-btn batch-btn-secondary" onClick={clear} disabled={isRunning}>
+            {isRunning && (
+              <button className="batch-btn batch-btn-secondary" onClick={stop}>
+                中止
+              </button>
+            )}
+            <button className="batch-btn batch-btn-secondary" onClick={clear}>
               クリア
             </button>
           </div>
@@ -136,10 +156,19 @@ export function BatchView() {
                 <th>#</th>
                 <th>ファイル名</th>
                 <th>長さ</th>
+                <th title="BPM/Key タブで確定した BPM">BPM</th>
                 <th>LUFS</th>
                 <th>True Peak</th>
                 <th>LR</th>
+                <th title={`${platform.name}（${platform.target} LUFS）で適用されるゲイン。* はリミッターがかかる`}>Norm Gain</th>
+                <th>Max M</th>
+                <th>Max S</th>
+                <th>S P10/P95</th>
                 <th>Stereo Width</th>
+                <th>Clip</th>
+                <th>DC</th>
+                <th>L/R</th>
+                <th>極性</th>
                 <th>状態</th>
                 <th></th>
               </tr>
@@ -147,29 +176,74 @@ export function BatchView() {
             <tbody>
               {items.map((item, idx) => {
                 const l = item.result?.loudness;
+                const stats = l?.stats;
                 const s = item.result?.stereo;
+                const q = item.result?.quality;
+                const clip = q?.clipping;
+                const dc = q ? worstDcOffset(q.dcOffset) : null;
                 const fi = item.fileInfo;
+                const bpm = getOverride(item.file);
+                const norm = l ? simulateNormalization(platform, l.integratedLUFS, l.truePeakDBTP) : null;
                 return (
                   <tr key={item.id}>
                     <td className="batch-td-num">{idx + 1}</td>
                     <td className="batch-td-name" title={item.file.name}>{item.file.name}</td>
-                    <td className="batch-td-mono" style={fi ? { color: durationColor(fi.duration) } : undefined}>{fi ? formatDuration(fi.duration) : '—'}</td>
-                    <td className="batch-td-mono" style={l ? { color: lufsColor(l.integratedLUFS) } : undefined}>
+                    <td className="batch-td-mono" style={fi ? { color: judgeColor(profile, 'duration', fi.duration) } : undefined}>{fi ? formatDuration(fi.duration) : '—'}</td>
+                    <td className="batch-td-mono">{bpm != null ? bpm.toFixed(1) : '—'}</td>
+                    <td className="batch-td-mono" style={l ? { color: judgeColor(profile, 'integratedLUFS', l.integratedLUFS) } : undefined}>
                       {l ? (isFinite(l.integratedLUFS) ? l.integratedLUFS.toFixed(1) : '---') : '—'}
                     </td>
-                    <td className="batch-td-mono" style={l ? { color: tpColor(l.truePeakDBTP) } : undefined}>
+                    <td className="batch-td-mono" style={l ? { color: judgeColor(profile, 'truePeakDBTP', l.truePeakDBTP) } : undefined}>
                       {l ? (isFinite(l.truePeakDBTP) ? l.truePeakDBTP.toFixed(1) : '---') : '—'}
                     </td>
-                    <td className="batch-td-mono" style={l ? { color: lrColor(l.loudnessRange) } : undefined}>
+                    <td className="batch-td-mono" style={l ? { color: judgeColor(profile, 'loudnessRange', l.loudnessRange) } : undefined}>
                       {l ? `${l.loudnessRange.toFixed(1)}` : '—'}
                     </td>
-                    <td className="batch-td-mono" style={s ? { color: swColor(Math.min(s.width * 100, 200)) } : undefined}>
+                    <td className="batch-td-mono" style={norm?.limiter ? { color: 'var(--warning)' } : undefined}>
+                      {l ? (norm ? `${norm.gain > 0 ? '+' : ''}${norm.gain.toFixed(1)}${norm.limiter ? '*' : ''}` : '---') : '—'}
+                    </td>
+                    <td className="batch-td-mono" style={stats?.maxMomentary ? { color: judgeColor(profile, 'maxMomentary', stats.maxMomentary.value) } : undefined}>
+                      {stats ? (stats.maxMomentary ? stats.maxMomentary.value.toFixed(1) : '---') : '—'}
+                    </td>
+                    <td className="batch-td-mono" style={stats?.maxShortTerm ? { color: judgeColor(profile, 'maxShortTerm', stats.maxShortTerm.value) } : undefined}>
+                      {stats ? (stats.maxShortTerm ? stats.maxShortTerm.value.toFixed(1) : '---') : '—'}
+                    </td>
+                    <td className="batch-td-mono">
+                      {stats
+                        ? (stats.shortTermP10 && stats.shortTermP95
+                          ? <>
+                            <span style={{ color: judgeColor(profile, 'shortTermP10', stats.shortTermP10.value) }}>{stats.shortTermP10.value.toFixed(1)}</span>
+                            {' / '}
+                            <span style={{ color: judgeColor(profile, 'shortTermP95', stats.shortTermP95.value) }}>{stats.shortTermP95.value.toFixed(1)}</span>
+                          </>
+                          : '---')
+                        : '—'}
+                    </td>
+                    <td className="batch-td-mono" style={s ? { color: judgeColor(profile, 'stereoWidth', Math.min(s.width * 100, 200)) } : undefined}>
                       {s ? `${Math.min(s.width * 100, 200).toFixed(0)}%` : '—'}
                     </td>
+                    <td className="batch-td-mono" style={clip ? { color: judgeColor(profile, 'clipCount', clip.count) } : undefined}>
+                      {clip ? clip.count.toLocaleString() : '—'}
+                    </td>
+                    <td className="batch-td-mono" style={dc != null ? { color: judgeColor(profile, 'dcOffset', dc) } : undefined}>
+                      {dc != null ? (isFinite(dc) ? dc.toFixed(0) : '-∞') : '—'}
+                    </td>
+                    <td className="batch-td-mono" style={q?.balance ? { color: judgeColor(profile, 'channelBalance', q.balance.loudnessDiff) } : undefined}>
+                      {q?.balance ? (isFinite(q.balance.loudnessDiff) ? q.balance.loudnessDiff.toFixed(1) : (q.balance.loudnessDiff > 0 ? 'Lのみ' : 'Rのみ')) : '—'}
+                    </td>
+                    <td className="batch-td-mono" style={q?.polarity ? { color: judgeColor(profile, 'polarity', q.polarity.lowCorrelation) } : undefined}>
+                      {q?.polarity ? q.polarity.lowCorrelation.toFixed(2) : '—'}
+                    </td>
                     <td>
-                      <span className={`batch-status ${statusClass(item.status)}`}>
+                      <span className={`batch-status ${statusClass(item.status)}`} title={item.error ?? undefined}>
                         {statusLabel(item.status)}
+                        {item.status === 'analyzing' && ` ${item.progress}%`}
                       </span>
+                      {item.status === 'analyzing' && (
+                        <div className="batch-progress">
+                          <div className="batch-progress-fill" style={{ width: `${item.progress}%` }} />
+                        </div>
+                      )}
                     </td>
                     <td>
                       {!isRunning && (
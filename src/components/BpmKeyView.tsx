@@ -1,21 +1,18 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useMemo, useRef, useState } from 'react';
 import { DropZone } from './DropZone';
 import { ProgressBar } from './ProgressBar';
-import { WaveformPlayer } from './WaveformPlayer';
-import { useAudioFile, audioBufferToMono, getFileFormat, getOriginalSampleRate } from '../hooks/useAudioFile';
+import { WaveformPlayer, type WaveformBeat, type WaveformPlayerHandle } from './WaveformPlayer';
+import { KeyTimelineLane } from './KeyTimelineLane';
+import { TapTempo } from './TapTempo';
+import { TempoChart } from '../charts/TempoChart';
+import { useAudioFile, audioBufferToMono, getFileFormat } from '../hooks/useAudioFile';
 import { useBpmKeyAnalysis } from '../hooks/useBpmKeyAnalysis';
-import type { FileInfo } from '../analysis/types';
+import { effectiveBpm, useBpmOverrides } from '../hooks/useBpmOverrides';
+import { useKeyNotation } from '../hooks/useKeyNotation';
+import { camelotCode, formatKey, isSameKey, KEY_NOTATIONS, keyName, openKeyCode, relativeKey, scaleName, type KeyNotation } from '../analysis/keyNotation';
+import type { BeatGrid, BpmKeyResult, FileInfo, TempoCandidate } from '../analysis/types';
 
-const KEY_DISPLAY: Record<string, string> = {
-  C: 'C', 'C#': 'C#/Db', D: 'D', 'D#': 'D#/Eb', E: 'E', F: 'F',
-  'F#': 'F#/Gb', G: 'G', 'G#': 'G#/Ab', A: 'A', 'A#': 'A#/Bb', B: 'B',
-  Db: 'C#/Db', Eb: 'D#/Eb', Gb: 'F#/Gb', Ab: 'G#/Ab', Bb: 'A#/Bb',
-};
-
-const SCALE_DISPLAY: Record<string, string> = {
-  major: 'Major',
-  minor: 'Minor',
-};
+const BPM_KEY_SAMPLE_RATE = 44100;
 
 function roundBpm(bpm: number): number {
   if (bpm <= 0) return 0;
@@ -45,6 +42,32 @@ function bpmConfidenceLabel(c: number): { text: string; className: string } {
   return { text: '低信頼度', className: 'danger' };
 }
 
+const CANDIDATE_SOURCE_LABEL: Record<TempoCandidate['source'], string> = {
+  rhythm: '検出',
+  percival: 'Percival',
+  half: '半分',
+  double: '倍',
+};
+
+// タップした値がこの比率以内の候補があれば、候補の値（タップより精密）に合わせる
+const TAP_SNAP_TOLERANCE = 0.03;
+
+// テンポ安定度（±2% 以内の割合）がこれ未満なら揺れているとみなす
+const STABLE_TEMPO = 0.8;
+
+/** BPM の信頼度が高くないとき、原因がテンポの揺れ・区間ごとの違いならそれを伝える */
+function tempoDriftComment(result: BpmKeyResult): string | null {
+  const { tempo } = result;
+  if (!tempo || result.bpmConfidence >= 3) return null;
+  if (tempo.sections.length > 1) {
+    return `テンポの違う区間が ${tempo.sections.length} つあるため、BPM の信頼度が低くなっています。区間ごとの値を確認してください`;
+  }
+  if (tempo.stability < STABLE_TEMPO) {
+    return `テンポが ${tempo.min.toFixed(0)}〜${tempo.max.toFixed(0)} BPM で揺れているため、BPM の信頼度が低くなっています（ライブ録音・テンポ変化など）`;
+  }
+  return null;
+}
+
 // Key strength: 0〜1 の確率値
 function keyStrengthLabel(s: number): { text: string; className: string } {
   if (s >= 0.7) return { text: '高信頼度', className: 'safe' };
@@ -52,25 +75,35 @@ function keyStrengthLabel(s: number): { text: string; className: string } {
   return { text: '低信頼度', className: 'danger' };
 }
 
+function gridBeats(grid: BeatGrid | null | undefined): WaveformBeat[] {
+  if (!grid) return [];
+  const downbeats = new Set(grid.downbeats);
+  return grid.beats.map((time, i) => ({ time, downbeat: downbeats.has(i) }));
+}
+
 export function BpmKeyView() {
   const { file, isDecoding, decode } = useAudioFile();
-  const { progress, result, isAnalyzing, error, analyze } = useBpmKeyAnalysis();
+  const { progress, result, isAnalyzing, error, analyze, cancel } = useBpmKeyAnalysis();
   const [fileInfo, setFileInfo] = useState<FileInfo | null>(null);
   const [monoData, setMonoData] = useState<Float32Array | null>(null);
+  const beats = useMemo(() => gridBeats(result?.beatGrid), [result]);
+  const playerRef = useRef<WaveformPlayerHandle>(null);
+  const { getOverride, setOverride } = useBpmOverrides();
+  const bpmOverride = getOverride(file);
 
   const handleFile = useCallback(async (f: File) => {
+    cancel(); // 解析中に別ファイルが来たら前の解析は破棄
     try {
-      const [buf, originalSR] = await Promise.all([
-        decode(f),
-        getOriginalSampleRate(f),
-      ]);
+      // RhythmExtractor2013 は 44.1kHz 前提なので、このタブだけはリサンプリングしてデコードする
+      const { audioBuffer: buf, originalSampleRate } = await decode(f, BPM_KEY_SAMPLE_RATE);
       const mono = audioBufferToMono(buf);
       setMonoData(mono);
 
       const info: FileInfo = {
         name: f.name,
         duration: buf.duration,
-        sampleRate: originalSR,
+        sampleRate: originalSampleRate,
+        analysisSampleRate: buf.sampleRate,
         channels: buf.numberOfChannels,
         format: getFileFormat(f.name),
       };
@@ -80,20 +113,40 @@ export function BpmKeyView() {
     } catch {
       // Error is already set in useAudioFile
     }
-  }, [decode, analyze]);
+  }, [decode, analyze, cancel]);
 
   const isProcessing = isDecoding || isAnalyzing;
 
-  const keyDisplay = result?.key ? (KEY_DISPLAY[result.key] ?? result.key) : '---';
-  const scaleDisplay = result?.scale ? (SCALE_DISPLAY[result.scale] ?? result.scale) : '';
+  const { notation, setNotation } = useKeyNotation();
+  const formatKeyIn = useCallback((key: string, scale: string) => formatKey(key, scale, notation), [notation]);
+  const keyCode = result?.key ? (notation === 'camelot' ? camelotCode(result.key, result.scale) : notation === 'openkey' ? openKeyCode(result.key, result.scale) : null) : null;
+  // Camelot / Open Key のときはコードを大きく出し、標準表記を添える
+  const keyDisplay = result?.key ? (keyCode ?? keyName(result.key)) : '---';
+  const scaleDisplay = result?.key ? (keyCode ? formatKey(result.key, result.scale) : scaleName(result.scale)) : '';
+  const relative = result?.key ? relativeKey(result.key, result.scale) : null;
+  const runnerUps = result?.keyCandidates.filter(c => !isSameKey(c, result)) ?? [];
   const keyStrength = result ? keyStrengthLabel(result.keyStrength) : null;
   const bpmStrength = result ? bpmConfidenceLabel(result.bpmConfidence) : null;
+  const bpm = result ? effectiveBpm(result.bpm, bpmOverride) : 0;
+  const applyTap = useCallback((tapped: number) => {
+    if (!file) return;
+    const near = result?.bpmCandidates.find(c => Math.abs(c.bpm - tapped) / c.bpm <= TAP_SNAP_TOLERANCE);
+    setOverride(file, near ? near.bpm : tapped);
+  }, [file, result, setOverride]);
+  const driftComment = result ? tempoDriftComment(result) : null;
+  const tempo = result?.tempo ?? null;
+  const keyTimeline = result?.keyTimeline ?? null;
 
   return (
     <>
-      <DropZone onFile={handleFile} disabled={isProcessing} />
+      <DropZone onFile={handleFile} disabled={isDecoding} />
 
-      {isProcessing && <ProgressBar progress={isDecoding ? { phase: 'decoding', percent: 0, label: 'デコード中...' } : progress} />}
+      {isProcessing && (
+        <ProgressBar
+          progress={isDecoding ? { phase: 'decoding', percent: 0, label: 'デコード中...' } : progress}
+          onCancel={isDecoding ? undefined : cancel}
+        />
+      )}
 
       {error && (
         <div style={{ padding: 16, background: 'rgba(239,68,68,0.1)', border: '1px solid var(--danger)', borderRadius: 8, marginBottom: 20, color: 'var(--danger)' }}>
@@ -103,18 +156,24 @@ export function BpmKeyView() {
 
       {fileInfo && <div className="file-name-bar">{fileInfo.name}</div>}
 
-      <WaveformPlayer file={file} audioData={monoData} />
+      <WaveformPlayer ref={playerRef} file={file} audioData={monoData} beats={beats}>
+        {result?.keyTimeline && <KeyTimelineLane timeline={result.keyTimeline} formatKey={formatKeyIn} />}
+      </WaveformPlayer>
 
       {result && (
         <div className="bpmkey-results">
           <div className="bpmkey-hero">
             <div className="bpmkey-hero-item">
               <div className="bpmkey-hero-label">BPM</div>
-              <div className="bpmkey-hero-value bpmkey-bpm">{formatBpm(result.bpm)}</div>
-              {result.bpm > 0 && (
+              <div className="bpmkey-hero-value bpmkey-bpm">{formatBpm(bpm)}</div>
+              {bpm > 0 && (
                 <>
-                  <div className="bpmkey-hero-comment">{bpmComment(roundBpm(result.bpm))}</div>
-                  {bpmStrength && (
+                  <div className="bpmkey-hero-comment">{bpmComment(roundBpm(bpm))}</div>
+                  {bpmOverride != null ? (
+                    <div className="bpmkey-hero-comment badge-inline badge-safe">
+                      手動設定（検出値 {formatBpm(result.bpm)}）
+                    </div>
+                  ) : bpmStrength && (
                     <div className={`bpmkey-hero-comment badge-inline badge-${bpmStrength.className}`}>
                       {bpmStrength.text}
                     </div>
@@ -129,6 +188,12 @@ export function BpmKeyView() {
                 {keyDisplay}
                 {scaleDisplay && <span className="bpmkey-scale">{scaleDisplay}</span>}
               </div>
+              {result.key && (
+                <div className="bpmkey-hero-comment">
+                  Camelot {camelotCode(result.key, result.scale) ?? '---'} · Open Key {openKeyCode(result.key, result.scale) ?? '---'}
+                  {relative && ` · 平行調 ${formatKeyIn(relative.key, relative.scale)}`}
+                </div>
+              )}
               {keyStrength && (
                 <div className={`bpmkey-hero-comment badge-inline badge-${keyStrength.className}`}>
                   {keyStrength.text} ({(result.keyStrength * 100).toFixed(0)}%)
@@ -137,6 +202,155 @@ export function BpmKeyView() {
             </div>
           </div>
 
+          <div className="panel" style={{ marginBottom: 20 }}>
+            <div className="panel-title key-candidates-title">
+              キー候補
+              <select
+                className="spec-input spec-input-sev"
+                value={notation}
+                onChange={e => setNotation(e.target.value as KeyNotation)}
+                title="キーの表記"
+              >
+                {KEY_NOTATIONS.map(n => <option key={n.id} value={n.id}>{n.name}</option>)}
+              </select>
+            </div>
+            {runnerUps.length > 0 ? (
+              <div className="tempo-candidates">
+                {runnerUps.map(c => (
+                  <div key={`${c.key}-${c.scale}`} className="key-candidate" title="平均 HPCP と調性プロファイルの相関">
+                    <span className="tempo-candidate-bpm">{formatKeyIn(c.key, c.scale)}</span>
+                    <span className="tempo-candidate-meta">
+                      相関 {c.score.toFixed(2)}
+                      {relative && isSameKey(c, relative) && ' · 平行調'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="metric-sub">候補なし</div>
+            )}
+          </div>
+
+          <div className="panel" style={{ marginBottom: 20 }}>
+            <div className="panel-title">テンポ候補</div>
+            {result.bpmCandidates.length > 0 && (
+              <div className="tempo-candidates">
+                {result.bpmCandidates.map(c => (
+                  <button
+                    key={c.bpm}
+                    className={`tempo-candidate${Math.abs(c.bpm - bpm) < 0.05 ? ' active' : ''}`}
+                    onClick={() => file && setOverride(file, c.bpm)}
+                    title="この BPM に確定する"
+                  >
+                    <span className="tempo-candidate-bpm">{c.bpm.toFixed(1)}</span>
+                    <span className="tempo-candidate-meta">{CANDIDATE_SOURCE_LABEL[c.source]} · {(c.score * 100).toFixed(0)}%</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            <TapTempo onApply={applyTap} />
+            {bpmOverride != null && (
+              <button className="batch-btn batch-btn-secondary" onClick={() => file && setOverride(file, null)}>
+                検出値に戻す
+              </button>
+            )}
+          </div>
+
+          {tempo && (
+            <div className="panel" style={{ marginBottom: 20 }}>
+              <div className="panel-title">テンポの変化</div>
+              <div className="metric-grid">
+                <div className="metric">
+                  <div className="metric-label">テンポ安定度</div>
+                  <div className="metric-value" style={{ color: tempo.stability < STABLE_TEMPO ? 'var(--warning)' : undefined }}>
+                    {(tempo.stability * 100).toFixed(0)}%
+                  </div>
+                  <div className="metric-sub">±2% 以内の拍の割合</div>
+                </div>
+                <div className="metric">
+                  <div className="metric-label">テンポの範囲</div>
+                  <div className="metric-value">{tempo.min.toFixed(1)}–{tempo.max.toFixed(1)}</div>
+                  <div className="metric-sub">標準偏差 {tempo.deviation.toFixed(2)} BPM</div>
+                </div>
+                <div className="metric">
+                  <div className="metric-label">テンポ区間</div>
+                  <div className="metric-value">{tempo.sections.length}</div>
+                  {tempo.sections.length > 1 && (
+                    <div className="event-table-wrap">
+                      <table className="event-table">
+                        <thead>
+                          <tr>
+                            <th>開始</th>
+                            <th>終了</th>
+                            <th>BPM</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {tempo.sections.map(section => (
+                            <tr key={section.start}>
+                              <td>
+                                <button className="event-jump" onClick={() => playerRef.current?.jumpTo(section.start)} title="この位置へ移動">
+                                  {formatDuration(section.start)}
+                                </button>
+                              </td>
+                              <td>{formatDuration(section.end)}</td>
+                              <td>{section.bpm.toFixed(1)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              </div>
+              {driftComment && <div className="metric-comment metric-comment-warning">{driftComment}</div>}
+            </div>
+          )}
+
+          {tempo && <TempoChart tempo={tempo} bpm={bpm} />}
+
+          {keyTimeline && keyTimeline.segments.length > 0 && (
+            <div className="panel" style={{ marginBottom: 20 }}>
+              <div className="panel-title">キーの変化</div>
+              <div className="metric-grid">
+                <div className="metric">
+                  <div className="metric-label">転調</div>
+                  <div className="metric-value">{keyTimeline.modulations.length > 0 ? `${keyTimeline.modulations.length}回` : 'なし'}</div>
+                  <div className="metric-sub">{keyTimeline.segments.length}区間</div>
+                </div>
+              </div>
+              <div className="event-table-wrap">
+                <table className="event-table">
+                  <thead>
+                    <tr>
+                      <th>開始</th>
+                      <th>終了</th>
+                      <th>Key</th>
+                      <th>信頼度</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {keyTimeline.segments.map((segment, i) => (
+                      <tr key={segment.start}>
+                        <td>
+                          <button className="event-jump" onClick={() => playerRef.current?.jumpTo(segment.start)} title="この位置へ移動">
+                            {formatDuration(segment.start)}
+                          </button>
+                        </td>
+                        <td>{formatDuration(segment.end)}</td>
+                        <td>
+                          {i > 0 && <span className="key-modulation">転調 → </span>}
+                          {formatKeyIn(segment.key, segment.scale)}
+                        </td>
+                        <td>{(segment.strength * 100).toFixed(0)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
           <div className="panel" style={{ marginBottom: 20 }}>
             <div className="panel-title">詳細情報</div>
             <div className="metric-grid">
@@ -151,6 +365,7 @@ export function BpmKeyView() {
               <div className="metric">
                 <div className="metric-label">サンプルレート</div>
                 <div className="metric-value">{fileInfo ? `${(fileInfo.sampleRate / 1000).toFixed(1)} kHz` : '---'}</div>
+                {fileInfo && <div className="metric-sub">解析: {(fileInfo.analysisSampleRate / 1000).toFixed(1)} kHz</div>}
               </div>
               <div className="metric">
                 <div className="metric-label">フォーマット</div>
@@ -164,6 +379,13 @@ export function BpmKeyView() {
                 <div className="metric-label">BPM信頼度</div>
                 <div className="metric-value">{result.bpmConfidence.toFixed(2)}</div>
               </div>
+              <div className="metric">
+                <div className="metric-label">拍子</div>
+                <div className="metric-value">{result.beatGrid?.downbeats.length ? `${result.beatGrid.beatsPerBar}/4` : '---'}</div>
+                {result.beatGrid && (
+                  <div className="metric-sub">{result.beatGrid.beats.length}拍 / {result.beatGrid.downbeats.length}小節</div>
+                )}
+              </div>
               <div className="metric">
                 <div className="metric-label">Key信頼度</div>
                 <div className="metric-value">{(result.keyStrength * 100).toFixed(1)}%</div>
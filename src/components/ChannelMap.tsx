@@ -0,0 +1,41 @@
+import { channelLayout } from '../analysis/channels';
+import type { ChannelLevel } from '../analysis/types';
+
+interface Props {
+  levels: ChannelLevel[];
+  /** チャンネルごとの True Peak (dBTP)。levels と同じ並び */
+  truePeaks?: number[];
+}
+
+function fmt(v: number | undefined): string {
+  if (v == null) return '—';
+  if (!isFinite(v)) return '-∞';
+  return v > 0 ? `+${v.toFixed(1)}` : v.toFixed(1);
+}
+
+/** スピーカー配置に並べたチャンネル別レベル（ステレオは L / R の 2 マス） */
+export function ChannelMap({ levels, truePeaks }: Props) {
+  const layout = channelLayout(levels.length);
+
+  return (
+    <div className="channel-map">
+      {layout.map((ch, i) => (
+        <div
+          key={i}
+          className={`channel-cell${ch.weight === 0 ? ' channel-cell-excluded' : ''}`}
+          style={{ gridRow: ch.row, gridColumn: ch.col }}
+        >
+          <div className="channel-cell-head">
+            <span className="channel-cell-label">{ch.label}</span>
+            <span className="channel-cell-weight">{ch.weight === 0 ? 'LUFS 除外' : `G ${ch.weight.toFixed(2)}`}</span>
+          </div>
+          <div className="channel-cell-row"><span>Peak</span><span>{fmt(levels[i]?.peak)} dBFS</span></div>
+          <div className="channel-cell-row"><span>RMS</span><span>{fmt(levels[i]?.rms)} dBFS</span></div>
+          {truePeaks && (
+            <div className="channel-cell-row"><span>TP</span><span>{fmt(truePeaks[i])} dBTP</span></div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,53 +1,78 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useMemo, useRef, useState } from 'react';
 import { DropZone } from './DropZone';
 import { ProgressBar } from './ProgressBar';
-import { WaveformPlayer } from './WaveformPlayer';
+import { WaveformPlayer, type PlaybackNormalization, type WaveformPlayerHandle } from './WaveformPlayer';
+import { analysisMarkers, analysisRegions } from './waveformMarkers';
 import { AnalysisPanel } from './AnalysisPanel';
+import { NormalizationTable } from './NormalizationTable';
 import { LoudnessTimeChart } from '../charts/LoudnessTimeChart';
-import { useAudioFile, audioBufferToMono, getFileFormat, getOriginalSampleRate } from '../hooks/useAudioFile';
+import { ShortTermHistogram } from '../charts/ShortTermHistogram';
+import { StereoTimeChart } from '../charts/StereoTimeChart';
+import { TonalBalanceChart } from '../charts/TonalBalanceChart';
+import { useAudioFile, audioBufferChannels, audioBufferToMono, getFileFormat } from '../hooks/useAudioFile';
 import { useAnalysis } from '../hooks/useAnalysis';
+import { useSpectrogram } from '../hooks/useSpectrogram';
+import { SpectrogramLane } from './SpectrogramLane';
+import { Goniometer } from './Goniometer';
 import type { FileInfo } from '../analysis/types';
+import { findPlatform, NORMALIZATION_PLATFORMS, simulateNormalization } from '../analysis/normalization';
 
 export function DetailView() {
   const { file, isDecoding, decode } = useAudioFile();
-  const { progress, result, isAnalyzing, error, analyze } = useAnalysis();
+  const { progress, result, isAnalyzing, error, analyze, cancel } = useAnalysis();
+  const spectrogram = useSpectrogram();
+  const analyzeSpectrogram = spectrogram.analyze;
   const [fileInfo, setFileInfo] = useState<FileInfo | null>(null);
   const [monoData, setMonoData] = useState<Float32Array | null>(null);
+  const playerRef = useRef<WaveformPlayerHandle>(null);
+  const markers = useMemo(() => analysisMarkers(result), [result]);
+  const silentRegions = useMemo(() => analysisRegions(result), [result]);
+  const jumpTo = useCallback((time: number) => playerRef.current?.jumpTo(time), []);
+  const loopRange = useCallback((start: number, end: number) => playerRef.current?.loop(start, end), []);
+  const [platformId, setPlatformId] = useState(NORMALIZATION_PLATFORMS[0].id);
+  const loudness = result?.loudness ?? null;
+  const playbackNormalization = useMemo((): PlaybackNormalization | null => {
+    const platform = findPlatform(platformId);
+    const r = platform && loudness ? simulateNormalization(platform, loudness.integratedLUFS, loudness.truePeakDBTP) : null;
+    return r ? { label: r.platform.name, gainDB: r.gain, limiter: r.limiter, ceiling: r.platform.ceiling } : null;
+  }, [platformId, loudness]);
 
   const handleFile = useCallback(async (f: File) => {
+    cancel(); // 解析中に別ファイルが来たら前の解析は破棄
     try {
-      const [buf, originalSR] = await Promise.all([
-        decode(f),
-        getOriginalSampleRate(f),
-      ]);
+      const { audioBuffer: buf, originalSampleRate } = await decode(f);
       const mono = audioBufferToMono(buf);
       setMonoData(mono);
 
-      const left = buf.getChannelData(0);
-      const right = buf.numberOfChannels > 1 ? buf.getChannelData(1) : left;
-
       const info: FileInfo = {
         name: f.name,
         duration: buf.duration,
-        sampleRate: originalSR,
+        sampleRate: originalSampleRate,
+        analysisSampleRate: buf.sampleRate,
         channels: buf.numberOfChannels,
         format: getFileFormat(f.name),
       };
       setFileInfo(info);
 
-      analyze(mono, buf.sampleRate, left, right);
+      analyze(audioBufferChannels(buf), buf.sampleRate);
+      analyzeSpectrogram(mono, buf.sampleRate);
     } catch {
       // Error is already set in useAudioFile
     }
-  }, [decode, analyze]);
+  }, [decode, analyze, cancel, analyzeSpectrogram]);
 
   const isProcessing = isDecoding || isAnalyzing;
 
   return (
     <>
-      <DropZone onFile={handleFile} disabled={isProcessing} />
+      <DropZone onFile={handleFile} disabled={isDecoding} />
 
-      {isProcessing && <ProgressBar progress={isDecoding ? { phase: 'decoding', percent: 0, label: 'デコード中...' } : progress} />}
+      {isProcessing && (
+        <ProgressBar
+          progress={isDecoding ? { phase: 'decoding', percent: 0, label: 'デコード中...' } : progress}
+          onCancel={isDecoding ? undefined : cancel}
+        />
+      )}
 
       {error && (
         <div style={{ padding: 16, background: 'rgba(239,68,68,0.1)', border: '1px solid var(--danger)', borderRadius: 8, marginBottom: 20, color: 'var(--danger)' }}>
@@ -57,7 +82,16 @@ export function DetailView() {
 
       {fileInfo && <div className="file-name-bar">{fileInfo.name}</div>}
 
-      <WaveformPlayer file={file} audioData={monoData} />
+      <WaveformPlayer ref={playerRef} file={file} audioData={monoData} markers={markers} regions={silentRegions} normalization={playbackNormalization}>
+        <SpectrogramLane
+          result={spectrogram.result}
+          params={spectrogram.params}
+          onParamsChange={spectrogram.setParams}
+          isAnalyzing={spectrogram.isAnalyzing}
+          progress={spectrogram.progress}
+        />
+        <Goniometer stereo={result?.stereo ?? null} />
+      </WaveformPlayer>
 
       {result?.loudness && (result.loudness.momentaryLoudness.length > 0 || result.loudness.shortTermLoudness.length > 0) && fileInfo && (
         <div style={{ marginBottom: 20 }}>
@@ -66,11 +100,40 @@ export function DetailView() {
             shortTerm={result.loudness.shortTermLoudness}
             integratedLUFS={result.loudness.integratedLUFS}
             duration={fileInfo.duration}
+            psr={result.dynamics?.psrSeries}
+            silentRegions={silentRegions}
+          />
+        </div>
+      )}
+
+      {result?.loudness && (
+        <ShortTermHistogram shortTerm={result.loudness.shortTermLoudness} stats={result.loudness.stats} />
+      )}
+
+      {result?.stereo && fileInfo && (
+        <div style={{ marginBottom: 20 }}>
+          <StereoTimeChart
+            width={result.stereo.widthSeries}
+            correlation={result.stereo.correlationSeries}
+            duration={fileInfo.duration}
           />
         </div>
       )}
 
-      <AnalysisPanel result={result} fileInfo={fileInfo} />
+      {result?.spectrum && result.spectrum.thirdOctave.frequencies.length > 0 && (
+        <TonalBalanceChart spectrum={result.spectrum} />
+      )}
+
+      <AnalysisPanel result={result} fileInfo={fileInfo} onJump={jumpTo} onLoop={loopRange} />
+
+      {loudness && (
+        <NormalizationTable
+          integratedLUFS={loudness.integratedLUFS}
+          truePeakDBTP={loudness.truePeakDBTP}
+          selectedId={platformId}
+          onSelect={setPlatformId}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { correlationAt } from '../analysis/correlation';
+import type { GoniometerResult, StereoResult } from '../analysis/types';
+import { usePlayerTimeline } from './playerTimeline';
+
+interface Props {
+  stereo: StereoResult | null;
+}
+
+const SCOPE_SIZE = 200;
+const METER_HEIGHT = 34;
+// 再生中の点群は直近フレームのピークで正規化する（静かな曲でも潰れないように）
+const LIVE_MIN_PEAK = 0.01;
+// ライブの相関係数の平滑化（1 フレームあたりの追従率）
+const LIVE_SMOOTHING = 0.15;
+
+function renderDensity(goniometer: GoniometerResult): HTMLCanvasElement {
+  const { size, density } = goniometer;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+  const image = ctx.createImageData(size, size);
+  for (let i = 0; i < density.length; i++) {
+    const d = density[i];
+    image.data[i * 4] = 129;
+    image.data[i * 4 + 1] = 140;
+    image.data[i * 4 + 2] = 248;
+    image.data[i * 4 + 3] = Math.round(d * 255);
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
+
+function formatCorrelation(v: number | null): string {
+  if (v == null || !isFinite(v)) return '—';
+  return v > 0 ? `+${v.toFixed(2)}` : v.toFixed(2);
+}
+
+function correlationColor(v: number): string {
+  if (v < 0) return '#ef4444';
+  if (v < 0.3) return '#eab308';
+  return '#22c55e';
+}
+
+/** Lissajous 表示。停止中はファイル全体の分布、再生中はその上に現在の L/R を重ねる */
+export function Goniometer({ stereo }: Props) {
+  const timeline = usePlayerTimeline();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rafRef = useRef<number>(0);
+  const liveCorrelationRef = useRef<number | null>(null);
+
+  const image = useMemo(() => (stereo ? renderDensity(stereo.goniometer) : null), [stereo]);
+
+  const isPlaying = timeline?.isPlaying ?? false;
+  const stereoTap = timeline?.stereoTap ?? null;
+  const currentTime = timeline?.currentTime ?? 0;
+  const seriesValue = stereo ? correlationAt(stereo.correlationSeries, currentTime) : null;
+
+  const draw = useCallback((live: { left: Float32Array; right: Float32Array } | null) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const width = SCOPE_SIZE;
+    const height = SCOPE_SIZE + METER_HEIGHT;
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas.width !== width * dpr) {
+      canvas.width = width * dpr;
+      canvas.height = height * dpr;
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    ctx.fillStyle = '#18181b';
+    ctx.fillRect(0, 0, width, height);
+
+    // 軸: M（縦）・S（横）・L / R（斜め）
+    const c = SCOPE_SIZE / 2;
+    ctx.strokeStyle = 'rgba(228, 228, 231, 0.12)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(c, 0); ctx.lineTo(c, SCOPE_SIZE);
+    ctx.moveTo(0, c); ctx.lineTo(SCOPE_SIZE, c);
+    ctx.moveTo(0, 0); ctx.lineTo(SCOPE_SIZE, SCOPE_SIZE);
+    ctx.moveTo(SCOPE_SIZE, 0); ctx.lineTo(0, SCOPE_SIZE);
+    ctx.stroke();
+    ctx.font = '10px sans-serif';
+    ctx.fillStyle = 'rgba(228, 228, 231, 0.5)';
+    ctx.fillText('L', 6, 14);
+    ctx.fillText('R', SCOPE_SIZE - 12, 14);
+    ctx.fillText('M', c + 4, 12);
+    ctx.fillText('S', SCOPE_SIZE - 12, c - 4);
+
+    if (image) {
+      ctx.globalAlpha = live ? 0.35 : 1;
+      ctx.imageSmoothingEnabled = true;
+      ctx.drawImage(image, 0, 0, SCOPE_SIZE, SCOPE_SIZE);
+      ctx.globalAlpha = 1;
+    }
+
+    let meterValue = seriesValue;
+    if (live) {
+      const { left, right } = live;
+      let peak = LIVE_MIN_PEAK;
+      let ll = 0, rr = 0, lr = 0;
+      for (let i = 0; i < left.length; i++) {
+        peak = Math.max(peak, Math.abs(left[i]), Math.abs(right[i]));
+        ll += left[i] * left[i];
+        rr += right[i] * right[i];
+        lr += left[i] * right[i];
+      }
+      const scale = c / (Math.SQRT2 * peak);
+      ctx.fillStyle = 'rgba(165, 243, 252, 0.6)';
+      for (let i = 0; i < left.length; i++) {
+        const x = c + (right[i] - left[i]) * scale;
+        const y = c - (left[i] + right[i]) * scale;
+        ctx.fillRect(x, y, 1.2, 1.2);
+      }
+      const denom = Math.sqrt(ll * rr);
+      const instant = denom > 0 ? lr / denom : 1;
+      const prev = liveCorrelationRef.current ?? instant;
+      liveCorrelationRef.current = prev + (instant - prev) * LIVE_SMOOTHING;
+      meterValue = liveCorrelationRef.current;
+    } else {
+      liveCorrelationRef.current = null;
+    }
+
+    // 相関メーター（-1〜+1）
+    const top = SCOPE_SIZE + 8;
+    const barX = 24;
+    const barW = width - 48;
+    const toX = (v: number) => barX + ((v + 1) / 2) * barW;
+    ctx.fillStyle = '#27272a';
+    ctx.fillRect(barX, top, barW, 6);
+    ctx.fillStyle = 'rgba(228, 228, 231, 0.5)';
+    ctx.fillText('-1', 4, top + 7);
+    ctx.fillText('+1', width - 18, top + 7);
+    ctx.fillRect(toX(0), top - 2, 1, 10);
+    if (stereo) {
+      // ファイル全体の値は白い目盛りで示す
+      ctx.fillStyle = '#e4e4e7';
+      ctx.fillRect(toX(stereo.correlation) - 1, top - 3, 2, 12);
+    }
+    if (meterValue != null) {
+      ctx.fillStyle = correlationColor(meterValue);
+      const x0 = toX(0);
+      const x1 = toX(meterValue);
+      ctx.fillRect(Math.min(x0, x1), top, Math.abs(x1 - x0), 6);
+      ctx.fillText(`${live ? 'Live' : '現在'} ${formatCorrelation(meterValue)}`, barX, top + 22);
+    }
+  }, [image, stereo, seriesValue]);
+
+  useEffect(() => {
+    if (!isPlaying || !stereoTap) {
+      draw(null);
+      return;
+    }
+    const left = new Float32Array(stereoTap.left.fftSize);
+    const right = new Float32Array(stereoTap.right.fftSize);
+    const tick = () => {
+      stereoTap.left.getFloatTimeDomainData(left);
+      stereoTap.right.getFloatTimeDomainData(right);
+      draw({ left, right });
+      rafRef.current = requestAnimationFrame(tick);
+    };
+    rafRef.current = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(rafRef.current);
+  }, [isPlaying, stereoTap, draw]);
+
+  return (
+    <div className="goniometer-lane">
+      <canvas
+        ref={canvasRef}
+        className="goniometer-canvas"
+        style={{ width: SCOPE_SIZE, height: SCOPE_SIZE + METER_HEIGHT }}
+      />
+      <div className="goniometer-info">
+        <span className="goniometer-title">Goniometer</span>
+        <div className="goniometer-row">
+          <span>Correlation（全体）</span>
+          <span style={{ color: stereo ? correlationColor(stereo.correlation) : undefined }}>
+            {formatCorrelation(stereo?.correlation ?? null)}
+          </span>
+        </div>
+        <div className="goniometer-note">
+          縦 = Mid、横 = Side。縦長ほどモノラル寄り、横に広がるほど逆相成分が多い。
+          {stereo ? ' 背景はファイル全体の分布。' : ''}再生中は現在の信号を重ねて表示します。
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import type { KeyTimeline } from '../analysis/types';
+import { wheelPosition } from '../analysis/keyNotation';
+import { usePlayerTimeline } from './playerTimeline';
+
+interface Props {
+  timeline: KeyTimeline;
+  /** 区間に書くキー名（BpmKeyView の表記に合わせる） */
+  formatKey: (key: string, scale: string) => string;
+}
+
+/** 5 度圏上の位置で色相を決める。平行調（C major と A minor 等）は同じ色相で、短調を暗くする */
+function keyColor(key: string, scale: string, alpha = 1): string {
+  const position = wheelPosition(key, scale);
+  if (position < 0) return `rgba(113, 113, 122, ${alpha})`;
+  const hue = position * 30;
+  return scale === 'minor' ? `hsla(${hue}, 45%, 38%, ${alpha})` : `hsla(${hue}, 60%, 50%, ${alpha})`;
+}
+
+/** WaveformPlayer の子に置き、表示範囲に合わせてキーの区間を色帯で示す */
+export function KeyTimelineLane({ timeline, formatKey }: Props) {
+  const player = usePlayerTimeline();
+  if (!player || timeline.segments.length === 0) return null;
+  const { viewStart, viewEnd, currentTime, seek } = player;
+  const span = viewEnd - viewStart;
+  if (span <= 0) return null;
+
+  const toPercent = (t: number) => ((Math.min(Math.max(t, viewStart), viewEnd) - viewStart) / span) * 100;
+
+  return (
+    <div className="key-lane">
+      {timeline.segments.map(segment => {
+        if (segment.end <= viewStart || segment.start >= viewEnd) return null;
+        const left = toPercent(segment.start);
+        const width = toPercent(segment.end) - left;
+        const label = formatKey(segment.key, segment.scale);
+        return (
+          <button
+            key={segment.start}
+            className="key-lane-segment"
+            style={{ left: `${left}%`, width: `${width}%`, background: keyColor(segment.key, segment.scale, 0.35 + segment.strength * 0.5) }}
+            onClick={() => seek(segment.start)}
+            title={`${label}（信頼度 ${(segment.strength * 100).toFixed(0)}%）`}
+          >
+            {label}
+          </button>
+        );
+      })}
+      {currentTime > viewStart && currentTime < viewEnd && (
+        <div className="key-lane-playhead" style={{ left: `${toPercent(currentTime)}%` }} />
+      )}
+    </div>
+  );
+}
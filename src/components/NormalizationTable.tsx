@@ -0,0 +1,66 @@
+import { NORMALIZATION_PLATFORMS, simulateNormalization } from '../analysis/normalization';
+
+interface Props {
+  integratedLUFS: number;
+  truePeakDBTP: number;
+  /** プレイヤーの NORM で再現するプラットフォーム */
+  selectedId: string;
+  onSelect: (id: string) => void;
+}
+
+function signed(v: number): string {
+  return v > 0 ? `+${v.toFixed(1)}` : v.toFixed(1);
+}
+
+export function NormalizationTable({ integratedLUFS, truePeakDBTP, selectedId, onSelect }: Props) {
+  if (!isFinite(integratedLUFS)) return null;
+
+  return (
+    <div className="panel">
+      <section className="panel-section">
+        <div className="panel-title">配信プラットフォームの正規化（予測）</div>
+        <table className="event-table norm-table">
+          <thead>
+            <tr>
+              <th>試聴</th>
+              <th>プラットフォーム</th>
+              <th>目標</th>
+              <th>ゲイン</th>
+              <th>リミッター</th>
+              <th>正規化後ピーク</th>
+              <th>正規化後ラウドネス</th>
+            </tr>
+          </thead>
+          <tbody>
+            {NORMALIZATION_PLATFORMS.map(platform => {
+              const r = simulateNormalization(platform, integratedLUFS, truePeakDBTP);
+              if (!r) return null;
+              return (
+                <tr key={platform.id} className={platform.id === selectedId ? 'norm-selected' : undefined}>
+                  <td>
+                    <input
+                      type="radio"
+                      name="norm-platform"
+                      checked={platform.id === selectedId}
+                      onChange={() => onSelect(platform.id)}
+                      title="プレイヤーの NORM でこのプラットフォームの音量を再現する"
+                    />
+                  </td>
+                  <td>{platform.name}</td>
+                  <td>{platform.target} LUFS</td>
+                  <td>{signed(r.gain)} dB</td>
+                  <td style={r.limiter ? { color: 'var(--warning)' } : undefined}>{r.limiter ? 'かかる' : '—'}</td>
+                  <td>{isFinite(r.resultPeak) ? `${signed(r.resultPeak)} dBTP` : '---'}</td>
+                  <td>{r.resultLoudness.toFixed(1)} LUFS</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <div className="norm-note">
+          各社の公開情報に基づく目安。Spotify（標準）と Apple Music はピークが -1 dBTP を超えない範囲でのみ持ち上げ、YouTube / Tidal / Amazon Music は下げるだけ。Spotify（大）はリミッターで -1 dBTP に抑える
+        </div>
+      </section>
+    </div>
+  );
+}
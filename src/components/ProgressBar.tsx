@@ -2,16 +2,22 @@ import type { ProgressState } from '../analysis/types';
 
 interface ProgressBarProps {
   progress: ProgressState;
+  onCancel?: () => void;
 }
 
-export function ProgressBar({ progress }: ProgressBarProps) {
+export function ProgressBar({ progress, onCancel }: ProgressBarProps) {
   if (progress.phase === 'init' && progress.percent === 0 && !progress.label) {
     return null;
   }
 
   return (
     <div className="progress-container">
-      <div className="progress-label">{progress.label}</div>
+      <div className="progress-label">
+        {progress.label}
+        {onCancel && (
+          <button className="progress-cancel" onClick={onCancel}>キャンセル</button>
+        )}
+      </div>
       <div className="progress-bar-track">
         <div
           className="progress-bar-fill"
@@ -1,11 +1,18 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { DropZone } from './DropZone';
 import { ProgressBar } from './ProgressBar';
 import { WaveformPlayer } from './WaveformPlayer';
+import { analysisMarkers, analysisRegions } from './waveformMarkers';
 import { RefLoudnessChart } from '../charts/RefLoudnessChart';
-import { useAudioFile, audioBufferToMono, getFileFormat, getOriginalSampleRate } from '../hooks/useAudioFile';
+import { useAudioFile, audioBufferChannels, audioBufferToMono, getFileFormat } from '../hooks/useAudioFile';
 import { useAnalysis } from '../hooks/useAnalysis';
-import type { FileInfo, ProgressState } from '../analysis/types';
+import type { DynamicsResult, FileInfo, LoudnessPoint, LoudnessStats, ProgressState } from '../analysis/types';
+import { judgeColor, type SpecMetricId } from '../analysis/spec';
+import { channelLayoutName } from '../analysis/channels';
+import { STEREO_BANDS } from '../analysis/stereoBands';
+import { useSpecProfile } from '../hooks/useSpecProfile';
+import { createCurveId, useTargetCurves } from '../hooks/useTargetCurves';
+import { curveFromSpectrum } from '../analysis/tonalBalance';
 
 function formatDuration(sec: number): string {
   const m = Math.floor(sec / 60);
@@ -16,6 +23,39 @@ function formatDuration(sec: number): string {
 
 const DASH = '—';
 
+function signed(v: number | undefined, precision: number): string {
+  if (v == null || Number.isNaN(v)) return DASH;
+  if (!isFinite(v)) return v > 0 ? '+∞' : '-∞';
+  return v > 0 ? `+${v.toFixed(precision)}` : v.toFixed(precision);
+}
+
+interface DynamicsRow {
+  label: string;
+  unit: string;
+  precision: number;
+  value: (d: DynamicsResult) => number;
+}
+
+const DYNAMICS_ROWS: DynamicsRow[] = [
+  { label: 'PLR', unit: 'dB', precision: 1, value: d => d.plr },
+  { label: 'PSR（最大）', unit: 'dB', precision: 1, value: d => d.psrMax },
+  { label: 'クレストファクター（最小ch）', unit: 'dB', precision: 1, value: d => Math.min(...d.crestFactors) },
+  { label: 'DR', unit: '', precision: 0, value: d => d.dr },
+];
+
+interface LoudnessStatRow {
+  label: string;
+  metric: SpecMetricId;
+  point: (s: LoudnessStats) => LoudnessPoint | null;
+}
+
+const LOUDNESS_STAT_ROWS: LoudnessStatRow[] = [
+  { label: 'Max Momentary', metric: 'maxMomentary', point: s => s.maxMomentary },
+  { label: 'Max Short-term', metric: 'maxShortTerm', point: s => s.maxShortTerm },
+  { label: 'Short-term P10', metric: 'shortTermP10', point: s => s.shortTermP10 },
+  { label: 'Short-term P95', metric: 'shortTermP95', point: s => s.shortTermP95 },
+];
+
 function DiffBadge({ a, b, unit, precision = 1 }: { a: number | null; b: number | null; unit?: string; precision?: number }) {
   if (a == null || b == null) return null;
   const diff = a - b;
@@ -38,6 +78,9 @@ function StrDiffBadge({ a, b }: { a: string | null; b: string | null }) {
 }
 
 export function ReferenceView() {
+  const { profile } = useSpecProfile();
+  const { curves, saveCurve } = useTargetCurves();
+
   const audioA = useAudioFile();
   const analysisA = useAnalysis();
   const [trackA, setTrackA] = useState<{ file: File | null; fileInfo: FileInfo | null; monoData: Float32Array | null }>({ file: null, fileInfo: null, monoData: null });
@@ -47,37 +90,46 @@ export function ReferenceView() {
   const [trackB, setTrackB] = useState<{ file: File | null; fileInfo: FileInfo | null; monoData: Float32Array | null }>({ file: null, fileInfo: null, monoData: null });
 
   const handleFileA = useCallback(async (f: File) => {
+    analysisA.cancel();
     try {
-      const [buf, originalSR] = await Promise.all([audioA.decode(f), getOriginalSampleRate(f)]);
+      const { audioBuffer: buf, originalSampleRate } = await audioA.decode(f);
       const mono = audioBufferToMono(buf);
-      const left = buf.getChannelData(0);
-      const right = buf.numberOfChannels > 1 ? buf.getChannelData(1) : left;
-      const info: FileInfo = { name: f.name, duration: buf.duration, sampleRate: originalSR, channels: buf.numberOfChannels, format: getFileFormat(f.name) };
+      const info: FileInfo = { name: f.name, duration: buf.duration, sampleRate: originalSampleRate, analysisSampleRate: buf.sampleRate, channels: buf.numberOfChannels, format: getFileFormat(f.name) };
       setTrackA({ file: f, fileInfo: info, monoData: mono });
-      analysisA.analyze(mono, buf.sampleRate, left, right);
+      analysisA.analyze(audioBufferChannels(buf), buf.sampleRate);
     } catch { /* error in useAudioFile */ }
   }, [audioA, analysisA]);
 
   const handleFileB = useCallback(async (f: File) => {
+    analysisB.cancel();
     try {
-      const [buf, originalSR] = await Promise.all([audioB.decode(f), getOriginalSampleRate(f)]);
+      const { audioBuffer: buf, originalSampleRate } = await audioB.decode(f);
       const mono = audioBufferToMono(buf);
-      const left = buf.getChannelData(0);
-      const right = buf.numberOfChannels > 1 ? buf.getChannelData(1) : left;
-      const info: FileInfo = { name: f.name, duration: buf.duration, sampleRate: originalSR, channels: buf.numberOfChannels, format: getFileFormat(f.name) };
+      const info: FileInfo = { name: f.name, duration: buf.duration, sampleRate: originalSampleRate, analysisSampleRate: buf.sampleRate, channels: buf.numberOfChannels, format: getFileFormat(f.name) };
       setTrackB({ file: f, fileInfo: info, monoData: mono });
-      analysisB.analyze(mono, buf.sampleRate, left, right);
+      analysisB.analyze(audioBufferChannels(buf), buf.sampleRate);
     } catch { /* error in useAudioFile */ }
   }, [audioB, analysisB]);
 
   const resA = analysisA.result;
   const resB = analysisB.result;
+  const markersA = useMemo(() => analysisMarkers(resA), [resA]);
+  const markersB = useMemo(() => analysisMarkers(resB), [resB]);
+  const regionsA = useMemo(() => analysisRegions(resA), [resA]);
+  const regionsB = useMemo(() => analysisRegions(resB), [resB]);
   const infoA = trackA.fileInfo;
   const infoB = trackB.fileInfo;
 
   const widthA = resA?.stereo ? Math.min(resA.stereo.width * 100, 200) : null;
   const widthB = resB?.stereo ? Math.min(resB.stereo.width * 100, 200) : null;
 
+  // リファレンス曲の平均スペクトルを詳細ビューのトーンバランス用ターゲットとして保存する
+  const savedCurve = infoB ? curves.find(c => !c.builtin && c.name === infoB.name) : undefined;
+  const handleSaveCurve = () => {
+    if (!resB?.spectrum || !infoB) return;
+    saveCurve(curveFromSpectrum(savedCurve?.id ?? createCurveId(), infoB.name, resB.spectrum));
+  };
+
   const showProgress = (p: ProgressState) => p.phase !== 'init' || p.percent > 0 || !!p.label;
 
   return (
@@ -85,17 +137,24 @@ export function ReferenceView() {
       <div className="ref-dropzones">
         <div className="ref-drop-col">
           <div className="ref-drop-label">自分の曲</div>
-          <DropZone onFile={handleFileA} disabled={audioA.isDecoding || analysisA.isAnalyzing} />
+          <DropZone onFile={handleFileA} disabled={audioA.isDecoding} />
           {trackA.fileInfo && <div className="file-name-bar">{trackA.fileInfo.name}</div>}
-          {showProgress(analysisA.progress) && <ProgressBar progress={analysisA.progress} />}
-          <WaveformPlayer file={trackA.file} audioData={trackA.monoData} />
+          {showProgress(analysisA.progress) && <ProgressBar progress={analysisA.progress} onCancel={analysisA.isAnalyzing ? analysisA.cancel : undefined} />}
+          <WaveformPlayer file={trackA.file} audioData={trackA.monoData} markers={markersA} regions={regionsA} />
         </div>
         <div className="ref-drop-col">
           <div className="ref-drop-label">リファレンス曲</div>
-          <DropZone onFile={handleFileB} disabled={audioB.isDecoding || analysisB.isAnalyzing} />
+          <DropZone onFile={handleFileB} disabled={audioB.isDecoding} />
           {trackB.fileInfo && <div className="file-name-bar">{trackB.fileInfo.name}</div>}
-          {showProgress(analysisB.progress) && <ProgressBar progress={analysisB.progress} />}
-          <WaveformPlayer file={trackB.file} audioData={trackB.monoData} />
+          {showProgress(analysisB.progress) && <ProgressBar progress={analysisB.progress} onCancel={analysisB.isAnalyzing ? analysisB.cancel : undefined} />}
+          <WaveformPlayer file={trackB.file} audioData={trackB.monoData} markers={markersB} regions={regionsB} />
+          {resB?.spectrum && (
+            <div className="ref-save-curve">
+              <button className="player-btn" onClick={handleSaveCurve}>
+                {savedCurve ? 'ターゲットカーブを更新' : 'トーンバランスのターゲットとして保存'}
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -120,11 +179,11 @@ export function ReferenceView() {
                 <div className="ref-compare">
                   <div className="ref-val ref-val-mine">
                     <span className="ref-val-label">自分</span>
-                    <span className="metric-value">{infoA ? formatDuration(infoA.duration) : DASH}</span>
+                    <span className="metric-value" style={{ color: judgeColor(profile, 'duration', infoA?.duration) }}>{infoA ? formatDuration(infoA.duration) : DASH}</span>
                   </div>
                   <div className="ref-val ref-val-ref">
                     <span className="ref-val-label">Ref</span>
-                    <span className="metric-value">{infoB ? formatDuration(infoB.duration) : DASH}</span>
+                    <span className="metric-value" style={{ color: judgeColor(profile, 'duration', infoB?.duration) }}>{infoB ? formatDuration(infoB.duration) : DASH}</span>
                   </div>
                 </div>
                 <DiffBadge a={infoA?.duration ?? null} b={infoB?.duration ?? null} unit="秒" precision={1} />
@@ -134,13 +193,18 @@ export function ReferenceView() {
                 <div className="ref-compare">
                   <div className="ref-val ref-val-mine">
                     <span className="ref-val-label">自分</span>
-                    <span className="metric-value">{infoA ? <>{infoA.sampleRate.toLocaleString()}<span className="metric-unit">Hz</span></> : DASH}</span>
+                    <span className="metric-value" style={{ color: judgeColor(profile, 'sampleRate', infoA?.sampleRate) }}>{infoA ? <>{infoA.sampleRate.toLocaleString()}<span className="metric-unit">Hz</span></> : DASH}</span>
                   </div>
                   <div className="ref-val ref-val-ref">
                     <span className="ref-val-label">Ref</span>
-                    <span className="metric-value">{infoB ? <>{infoB.sampleRate.toLocaleString()}<span className="metric-unit">Hz</span></> : DASH}</span>
+                    <span className="metric-value" style={{ color: judgeColor(profile, 'sampleRate', infoB?.sampleRate) }}>{infoB ? <>{infoB.sampleRate.toLocaleString()}<span className="metric-unit">Hz</span></> : DASH}</span>
                   </div>
                 </div>
+                {(infoA || infoB) && (
+                  <div className="metric-sub">
+                    解析: {infoA ? infoA.analysisSampleRate.toLocaleString() : DASH} / {infoB ? infoB.analysisSampleRate.toLocaleString() : DASH} Hz
+                  </div>
+                )}
                 <StrDiffBadge a={infoA ? String(infoA.sampleRate) : null} b={infoB ? String(infoB.sampleRate) : null} />
               </div>
               <div className="metric">
@@ -148,11 +212,11 @@ export function ReferenceView() {
                 <div className="ref-compare">
                   <div className="ref-val ref-val-mine">
                     <span className="ref-val-label">自分</span>
-                    <span className="metric-value">{infoA ? (infoA.channels === 1 ? 'Mono' : 'Stereo') : DASH}</span>
+                    <span className="metric-value" style={{ color: judgeColor(profile, 'channels', infoA?.channels) }}>{infoA ? channelLayoutName(infoA.channels) : DASH}</span>
                   </div>
                   <div className="ref-val ref-val-ref">
                     <span className="ref-val-label">Ref</span>
-                    <span className="metric-value">{infoB ? (infoB.channels === 1 ? 'Mono' : 'Stereo') : DASH}</span>
+                    <span className="metric-value" style={{ color: judgeColor(profile, 'channels', infoB?.channels) }}>{infoB ? channelLayoutName(infoB.channels) : DASH}</span>
                   </div>
                 </div>
                 <StrDiffBadge a={infoA ? String(infoA.channels) : null} b={infoB ? String(infoB.channels) : null} />
@@ -162,11 +226,11 @@ export function ReferenceView() {
                 <div className="ref-compare">
                   <div className="ref-val ref-val-mine">
                     <span className="ref-val-label">自分</span>
-                    <span className="metric-value">{infoA?.format ?? DASH}</span>
+                    <span className="metric-value" style={{ color: judgeColor(profile, 'format', infoA?.format) }}>{infoA?.format ?? DASH}</span>
                   </div>
                   <div className="ref-val ref-val-ref">
                     <span className="ref-val-label">Ref</span>
-                    <span className="metric-value">{infoB?.format ?? DASH}</span>
+                    <span className="metric-value" style={{ color: judgeColor(profile, 'format', infoB?.format) }}>{infoB?.format ?? DASH}</span>
                   </div>
                 </div>
                 <StrDiffBadge a={infoA?.format ?? null} b={infoB?.format ?? null} />
@@ -184,13 +248,13 @@ export function ReferenceView() {
                   <div className="ref-compare">
                     <div className="ref-val ref-val-mine">
                       <span className="ref-val-label">自分</span>
-                      <span className="metric-value">
+                      <span className="metric-value" style={{ color: judgeColor(profile, 'integratedLUFS', resA?.loudness?.integratedLUFS) }}>
                         {resA?.loudness ? <>{resA.loudness.integratedLUFS.toFixed(1)}<span className="metric-unit">LUFS</span></> : DASH}
                       </span>
                     </div>
                     <div className="ref-val ref-val-ref">
                       <span className="ref-val-label">Ref</span>
-                      <span className="metric-value">
+                      <span className="metric-value" style={{ color: judgeColor(profile, 'integratedLUFS', resB?.loudness?.integratedLUFS) }}>
                         {resB?.loudness ? <>{resB.loudness.integratedLUFS.toFixed(1)}<span className="metric-unit">LUFS</span></> : DASH}
                       </span>
                     </div>
@@ -202,13 +266,13 @@ export function ReferenceView() {
                   <div className="ref-compare">
                     <div className="ref-val ref-val-mine">
                       <span className="ref-val-label">自分</span>
-                      <span className="metric-value">
+                      <span className="metric-value" style={{ color: judgeColor(profile, 'truePeakDBTP', resA?.loudness?.truePeakDBTP) }}>
                         {resA?.loudness ? <>{resA.loudness.truePeakDBTP.toFixed(1)}<span className="metric-unit">dBTP</span></> : DASH}
                       </span>
                     </div>
                     <div className="ref-val ref-val-ref">
                       <span className="ref-val-label">Ref</span>
-                      <span className="metric-value">
+                      <span className="metric-value" style={{ color: judgeColor(profile, 'truePeakDBTP', resB?.loudness?.truePeakDBTP) }}>
                         {resB?.loudness ? <>{resB.loudness.truePeakDBTP.toFixed(1)}<span className="metric-unit">dBTP</span></> : DASH}
                       </span>
                     </div>
@@ -220,13 +284,13 @@ export function ReferenceView() {
                   <div className="ref-compare">
                     <div className="ref-val ref-val-mine">
                       <span className="ref-val-label">自分</span>
-                      <span className="metric-value">
+                      <span className="metric-value" style={{ color: judgeColor(profile, 'loudnessRange', resA?.loudness?.loudnessRange) }}>
                         {resA?.loudness ? <>{resA.loudness.loudnessRange.toFixed(1)}<span className="metric-unit">LU</span></> : DASH}
                       </span>
                     </div>
                     <div className="ref-val ref-val-ref">
                       <span className="ref-val-label">Ref</span>
-                      <span className="metric-value">
+                      <span className="metric-value" style={{ color: judgeColor(profile, 'loudnessRange', resB?.loudness?.loudnessRange) }}>
                         {resB?.loudness ? <>{resB.loudness.loudnessRange.toFixed(1)}<span className="metric-unit">LU</span></> : DASH}
                       </span>
                     </div>
@@ -238,13 +302,13 @@ export function ReferenceView() {
                   <div className="ref-compare">
                     <div className="ref-val ref-val-mine">
                       <span className="ref-val-label">自分</span>
-                      <span className="metric-value">
+                      <span className="metric-value" style={{ color: judgeColor(profile, 'stereoWidth', widthA) }}>
                         {widthA != null ? <>{widthA.toFixed(1)}<span className="metric-unit">%</span></> : DASH}
                       </span>
                     </div>
                     <div className="ref-val ref-val-ref">
                       <span className="ref-val-label">Ref</span>
-                      <span className="metric-value">
+                      <span className="metric-value" style={{ color: judgeColor(profile, 'stereoWidth', widthB) }}>
                         {widthB != null ? <>{widthB.toFixed(1)}<span className="metric-unit">%</span></> : DASH}
                       </span>
                     </div>
@@ -255,6 +319,123 @@ export function ReferenceView() {
             </section>
           )}
 
+          {/* ── ラウドネス統計 ── */}
+          {(resA?.loudness || resB?.loudness) && (
+            <section className="panel-section">
+              <div className="panel-title">ラウドネス統計</div>
+              <table className="ref-band-table">
+                <thead>
+                  <tr>
+                    <th>指標</th>
+                    <th>自分</th>
+                    <th>Ref</th>
+                    <th>差</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {LOUDNESS_STAT_ROWS.map(row => {
+                    const a = resA?.loudness ? row.point(resA.loudness.stats) : null;
+                    const b = resB?.loudness ? row.point(resB.loudness.stats) : null;
+                    const cell = (p: LoudnessPoint | null, loaded: boolean) => (
+                      <td style={p ? { color: judgeColor(profile, row.metric, p.value) } : undefined}>
+                        {p ? <>{p.value.toFixed(1)} LUFS <span className="ref-band-time">@{formatDuration(p.time)}</span></> : loaded ? '---' : DASH}
+                      </td>
+                    );
+                    return (
+                      <tr key={row.label}>
+                        <td>{row.label}</td>
+                        {cell(a, !!resA?.loudness)}
+                        {cell(b, !!resB?.loudness)}
+                        <td><DiffBadge a={a?.value ?? null} b={b?.value ?? null} unit="LU" /></td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          {/* ── ダイナミクス ── */}
+          {(resA?.dynamics || resB?.dynamics) && (
+            <section className="panel-section">
+              <div className="panel-title">ダイナミクス</div>
+              <table className="ref-band-table">
+                <thead>
+                  <tr>
+                    <th>指標</th>
+                    <th>自分</th>
+                    <th>Ref</th>
+                    <th>差</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {DYNAMICS_ROWS.map(row => {
+                    const a = resA?.dynamics ? row.value(resA.dynamics) : null;
+                    const b = resB?.dynamics ? row.value(resB.dynamics) : null;
+                    const fmt = (v: number | null) => (v == null ? DASH : isFinite(v) ? `${v.toFixed(row.precision)}${row.unit ? ` ${row.unit}` : ''}` : DASH);
+                    return (
+                      <tr key={row.label}>
+                        <td>{row.label}</td>
+                        <td>{fmt(a)}</td>
+                        <td>{fmt(b)}</td>
+                        <td>
+                          <DiffBadge
+                            a={a != null && isFinite(a) ? a : null}
+                            b={b != null && isFinite(b) ? b : null}
+                            unit={row.unit}
+                            precision={row.precision}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          {/* ── マルチバンド M/S ── */}
+          {(resA?.stereo || resB?.stereo) && (
+            <section className="panel-section">
+              <div className="panel-title">マルチバンド M/S</div>
+              <table className="ref-band-table">
+                <thead>
+                  <tr>
+                    <th>帯域</th>
+                    <th>Width 自分</th>
+                    <th>Width Ref</th>
+                    <th>差</th>
+                    <th>Corr 自分</th>
+                    <th>Corr Ref</th>
+                    <th>Side 自分</th>
+                    <th>Side Ref</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {STEREO_BANDS.map(def => {
+                    const a = resA?.stereo?.bands.find(b => b.id === def.id);
+                    const b = resB?.stereo?.bands.find(x => x.id === def.id);
+                    const wA = a ? Math.min(a.width * 100, 200) : null;
+                    const wB = b ? Math.min(b.width * 100, 200) : null;
+                    const sideColor = (v: number | undefined) => def.id === 'low' ? judgeColor(profile, 'subBassSide', v) : undefined;
+                    return (
+                      <tr key={def.id}>
+                        <td>{def.label}</td>
+                        <td>{wA != null ? `${wA.toFixed(1)} %` : DASH}</td>
+                        <td>{wB != null ? `${wB.toFixed(1)} %` : DASH}</td>
+                        <td><DiffBadge a={wA} b={wB} unit="%" /></td>
+                        <td>{signed(a?.correlation, 2)}</td>
+                        <td>{signed(b?.correlation, 2)}</td>
+                        <td style={{ color: sideColor(a?.sideLevel) }}>{a ? `${signed(a.sideLevel, 1)} dB` : DASH}</td>
+                        <td style={{ color: sideColor(b?.sideLevel) }}>{b ? `${signed(b.sideLevel, 1)} dB` : DASH}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </section>
+          )}
+
           {/* ── クオリティチェック ── */}
           {(resA?.quality || resB?.quality) && (
             <section className="panel-section">
@@ -291,11 +472,11 @@ export function ReferenceView() {
                   <div className="ref-compare">
                     <div className="ref-val ref-val-mine">
                       <span className="ref-val-label">自分</span>
-                      <span className="metric-value">{resA?.quality ? <>{resA.quality.headSilence.toFixed(3)}<span className="metric-unit">秒</span></> : DASH}</span>
+                      <span className="metric-value" style={{ color: judgeColor(profile, 'headSilence', resA?.quality?.headSilence) }}>{resA?.quality ? <>{resA.quality.headSilence.toFixed(3)}<span className="metric-unit">秒</span></> : DASH}</span>
                     </div>
                     <div className="ref-val ref-val-ref">
                       <span className="ref-val-label">Ref</span>
-                      <span className="metric-value">{resB?.quality ? <>{resB.quality.headSilence.toFixed(3)}<span className="metric-unit">秒</span></> : DASH}</span>
+                      <span className="metric-value" style={{ color: judgeColor(profile, 'headSilence', resB?.quality?.headSilence) }}>{resB?.quality ? <>{resB.quality.headSilence.toFixed(3)}<span className="metric-unit">秒</span></> : DASH}</span>
                     </div>
                   </div>
                   <DiffBadge a={resA?.quality?.headSilence ?? null} b={resB?.quality?.headSilence ?? null} unit="秒" precision={3} />
@@ -305,11 +486,11 @@ export function ReferenceView() {
                   <div className="ref-compare">
                     <div className="ref-val ref-val-mine">
                       <span className="ref-val-label">自分</span>
-                      <span className="metric-value">{resA?.quality ? <>{resA.quality.tailSilence.toFixed(3)}<span className="metric-unit">秒</span></> : DASH}</span>
+                      <span className="metric-value" style={{ color: judgeColor(profile, 'tailSilence', resA?.quality?.tailSilence) }}>{resA?.quality ? <>{resA.quality.tailSilence.toFixed(3)}<span className="metric-unit">秒</span></> : DASH}</span>
                     </div>
                     <div className="ref-val ref-val-ref">
                       <span className="ref-val-label">Ref</span>
-                      <span className="metric-value">{resB?.quality ? <>{resB.quality.tailSilence.toFixed(3)}<span className="metric-unit">秒</span></> : DASH}</span>
+                      <span className="metric-value" style={{ color: judgeColor(profile, 'tailSilence', resB?.quality?.tailSilence) }}>{resB?.quality ? <>{resB.quality.tailSilence.toFixed(3)}<span className="metric-unit">秒</span></> : DASH}</span>
                     </div>
                   </div>
                   <DiffBadge a={resA?.quality?.tailSilence ?? null} b={resB?.quality?.tailSilence ?? null} unit="秒" precision={3} />
@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import {
+  DEFAULT_DETECTION, DETECTION_PARAMS, DETECTION_PARAM_IDS, SPEC_METRICS, SPEC_METRIC_IDS, describeRule,
+  type DetectionParamId, type Severity, type SpecMetricId, type SpecProfile, type SpecRule,
+} from '../analysis/spec';
+import { createProfileId, useSpecProfile } from '../hooks/useSpecProfile';
+
+const SEVERITY_LABEL: Record<Severity, string> = {
+  warning: '警告',
+  danger: 'NG',
+};
+
+function SeveritySelect({ value, onChange }: { value: Severity; onChange: (v: Severity) => void }) {
+  return (
+    <select className="spec-input spec-input-sev" value={value} onChange={e => onChange(e.target.value as Severity)}>
+      <option value="warning">{SEVERITY_LABEL.warning}</option>
+      <option value="danger">{SEVERITY_LABEL.danger}</option>
+    </select>
+  );
+}
+
+function parseBound(v: string): number | null {
+  if (v.trim() === '') return null;
+  const n = parseFloat(v);
+  return isFinite(n) ? n : null;
+}
+
+function defaultRule(metric: SpecMetricId): SpecRule {
+  return SPEC_METRICS[metric].kind === 'allowed'
+    ? { kind: 'allowed', values: [], severity: 'warning' }
+    : { kind: 'range', min: null, max: null, belowSeverity: 'warning', aboveSeverity: 'warning' };
+}
+
+interface EditorProps {
+  draft: SpecProfile;
+  onChange: (next: SpecProfile) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+function SpecProfileEditor({ draft, onChange, onSave, onCancel }: EditorProps) {
+  const setRule = (metric: SpecMetricId, rule: SpecRule | null) => {
+    const rules = { ...draft.rules };
+    if (rule) rules[metric] = rule;
+    else delete rules[metric];
+    onChange({ ...draft, rules });
+  };
+
+  // 入力途中の文字列（"-" や空欄）。数値にならない間は draft を変えず、確定はフォーカスを外したとき
+  const [detectionText, setDetectionText] = useState<Partial<Record<DetectionParamId, string>>>({});
+
+  const editDetection = (param: DetectionParamId, text: string) => {
+    setDetectionText(prev => ({ ...prev, [param]: text }));
+    const value = parseBound(text);
+    if (value != null) onChange({ ...draft, detection: { ...draft.detection, [param]: value } });
+  };
+
+  // 数値にならないまま離れたら既定値に戻す
+  const commitDetection = (param: DetectionParamId) => {
+    const text = detectionText[param];
+    if (text === undefined) return;
+    setDetectionText(prev => {
+      const next = { ...prev };
+      delete next[param];
+      return next;
+    });
+    if (parseBound(text) == null) {
+      onChange({ ...draft, detection: { ...draft.detection, [param]: DEFAULT_DETECTION[param] } });
+    }
+  };
+
+  return (
+    <div className="spec-editor">
+      <div className="spec-editor-head">
+        <input
+          className="spec-input spec-input-name"
+          value={draft.name}
+          onChange={e => onChange({ ...draft, name: e.target.value })}
+          placeholder="プロファイル名"
+        />
+      </div>
+      <table className="spec-table">
+        <thead>
+          <tr>
+            <th></th>
+            <th>メトリクス</th>
+            <th>下限</th>
+            <th>下回ると</th>
+            <th>上限</th>
+            <th>上回ると</th>
+          </tr>
+        </thead>
+        <tbody>
+          {SPEC_METRIC_IDS.map(metric => {
+            const m = SPEC_METRICS[metric];
+            const rule = draft.rules[metric];
+            return (
+              <tr key={metric} className={rule ? '' : 'spec-row-off'}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={!!rule}
+                    onChange={e => setRule(metric, e.target.checked ? defaultRule(metric) : null)}
+                  />
+                </td>
+                <td className="spec-td-label">
+                  {m.label}{m.unit && <span className="metric-unit">{m.unit}</span>}
+                </td>
+                {rule?.kind === 'range' && (
+                  <>
+                    <td>
+                      <input
+                        type="number"
+                        className="spec-input"
+                        value={rule.min ?? ''}
+                        onChange={e => setRule(metric, { ...rule, min: parseBound(e.target.value) })}
+                      />
+                    </td>
+                    <td><SeveritySelect value={rule.belowSeverity} onChange={v => setRule(metric, { ...rule, belowSeverity: v })} /></td>
+                    <td>
+                      <input
+                        type="number"
+                        className="spec-input"
+                        value={rule.max ?? ''}
+                        onChange={e => setRule(metric, { ...rule, max: parseBound(e.target.value) })}
+                      />
+                    </td>
+                    <td><SeveritySelect value={rule.aboveSeverity} onChange={v => setRule(metric, { ...rule, aboveSeverity: v })} /></td>
+                  </>
+                )}
+                {rule?.kind === 'allowed' && (
+                  <>
+                    <td colSpan={3}>
+                      <input
+                        className="spec-input spec-input-wide"
+                        defaultValue={rule.values.join(', ')}
+                        placeholder="カンマ区切り（例: 44100, 48000）"
+                        onBlur={e => setRule(metric, {
+                          ...rule,
+                          values: e.target.value.split(',').map(s => s.trim()).filter(Boolean),
+                        })}
+                      />
+                    </td>
+                    <td><SeveritySelect value={rule.severity} onChange={v => setRule(metric, { ...rule, severity: v })} /></td>
+                  </>
+                )}
+                {!rule && <td colSpan={4} className="spec-td-off">判定しない</td>}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <table className="spec-table spec-table-detection">
+        <thead>
+          <tr>
+            <th>検出パラメータ</th>
+            <th>値</th>
+          </tr>
+        </thead>
+        <tbody>
+          {DETECTION_PARAM_IDS.map(param => {
+            const m = DETECTION_PARAMS[param];
+            return (
+              <tr key={param}>
+                <td className="spec-td-label">{m.label}</td>
+                <td>
+                  <input
+                    type="number"
+                    className="spec-input"
+                    step={m.step}
+                    value={detectionText[param] ?? draft.detection[param]}
+                    onChange={e => editDetection(param, e.target.value)}
+                    onBlur={() => commitDetection(param)}
+                  />
+                  <span className="metric-unit">{m.unit}</span>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="spec-editor-actions">
+        <button className="batch-btn batch-btn-secondary" onClick={onCancel}>キャンセル</button>
+        <button className="batch-btn batch-btn-primary" onClick={onSave} disabled={!draft.name.trim()}>保存</button>
+      </div>
+    </div>
+  );
+}
+
+export function SpecProfileSelector() {
+  const { profile, profiles, selectProfile, saveProfile, deleteProfile } = useSpecProfile();
+  const [draft, setDraft] = useState<SpecProfile | null>(null);
+
+  const builtins = profiles.filter(p => p.builtin);
+  const customs = profiles.filter(p => !p.builtin);
+
+  const startEdit = () => {
+    setDraft(profile.builtin
+      ? { ...structuredClone(profile), id: createProfileId(), name: `${profile.name} のコピー`, builtin: false }
+      : structuredClone(profile));
+  };
+
+  const summary = SPEC_METRIC_IDS
+    .filter(id => ['integratedLUFS', 'truePeakDBTP', 'loudnessRange'].includes(id) && profile.rules[id])
+    .map(id => `${SPEC_METRICS[id].label}: ${describeRule(id, profile.rules[id]!)}`)
+    .join(' · ');
+
+  return (
+    <div className="spec-wrap">
+      <div className="spec-bar">
+        <span className="spec-bar-label">納品スペック</span>
+        <select
+          className="spec-input spec-select"
+          value={profile.id}
+          onChange={e => { setDraft(null); selectProfile(e.target.value); }}
+        >
+          <optgroup label="プリセット">
+            {builtins.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+          {customs.length > 0 && (
+            <optgroup label="カスタム">
+              {customs.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button className="spec-btn" onClick={startEdit} disabled={!!draft}>
+          {profile.builtin ? '複製して編集' : '編集'}
+        </button>
+        {!profile.builtin && (
+          <button
+            className="spec-btn spec-btn-danger"
+            onClick={() => { setDraft(null); deleteProfile(profile.id); }}
+          >
+            削除
+          </button>
+        )}
+        {summary && <span className="spec-summary">{summary}</span>}
+      </div>
+      {draft && (
+        <SpecProfileEditor
+          key={draft.id}
+          draft={draft}
+          onChange={setDraft}
+          onCancel={() => setDraft(null)}
+          onSave={() => { saveProfile({ ...draft, name: draft.name.trim() }); setDraft(null); }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { formatFrequency, frequencyToPosition, positionToFrequency } from '../analysis/frequencyScale';
+import type { FrequencyScale, ProgressState, SpectrogramParams, SpectrogramResult } from '../analysis/types';
+import { usePlayerTimeline } from './playerTimeline';
+
+interface Props {
+  result: SpectrogramResult | null;
+  params: SpectrogramParams;
+  onParamsChange: (next: SpectrogramParams) => void;
+  isAnalyzing: boolean;
+  progress: ProgressState;
+}
+
+const FFT_SIZES = [1024, 2048, 4096, 8192];
+const HOP_SIZES = [256, 512, 1024, 2048];
+const SCALE_LABEL: Record<FrequencyScale, string> = { log: 'Log', mel: 'Mel' };
+
+// 最大値から下に何 dB 分を色に割り当てるか
+const DYNAMIC_RANGE_DB = 90;
+const FREQ_TICKS = [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+
+// inferno 風のカラーマップ（位置, RGB）
+const COLOR_STOPS: [number, [number, number, number]][] = [
+  [0, [0, 0, 4]],
+  [0.25, [66, 10, 104]],
+  [0.5, [147, 38, 103]],
+  [0.75, [221, 81, 58]],
+  [0.9, [252, 165, 10]],
+  [1, [252, 255, 164]],
+];
+
+function buildColorLut(): Uint8ClampedArray {
+  const lut = new Uint8ClampedArray(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const t = i / 255;
+    let s = 0;
+    while (s < COLOR_STOPS.length - 2 && t > COLOR_STOPS[s + 1][0]) s++;
+    const [t0, c0] = COLOR_STOPS[s];
+    const [t1, c1] = COLOR_STOPS[s + 1];
+    const f = (t - t0) / (t1 - t0);
+    for (let c = 0; c < 3; c++) lut[i * 3 + c] = c0[c] + (c1[c] - c0[c]) * f;
+  }
+  return lut;
+}
+
+const COLOR_LUT = buildColorLut();
+const LEGEND_GRADIENT = `linear-gradient(to top, ${COLOR_STOPS.map(([t, [r, g, b]]) => `rgb(${r},${g},${b}) ${t * 100}%`).join(', ')})`;
+
+/** 周波数×時間の画像を 1 フレーム = 1px 幅で作っておき、表示範囲だけを拡大して描く */
+function renderImage(result: SpectrogramResult, floorDb: number, topDb: number): HTMLCanvasElement {
+  const { frames, bins, data } = result;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, frames);
+  canvas.height = bins;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || frames === 0) return canvas;
+
+  const image = ctx.createImageData(frames, bins);
+  const range = topDb - floorDb;
+  for (let f = 0; f < frames; f++) {
+    for (let r = 0; r < bins; r++) {
+      const t = Math.min(1, Math.max(0, (data[f * bins + r] - floorDb) / range));
+      const lut = Math.round(t * 255) * 3;
+      // 低域が下に来るよう行を反転
+      const px = ((bins - 1 - r) * frames + f) * 4;
+      image.data[px] = COLOR_LUT[lut];
+      image.data[px + 1] = COLOR_LUT[lut + 1];
+      image.data[px + 2] = COLOR_LUT[lut + 2];
+      image.data[px + 3] = 255;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
+
+interface Readout {
+  x: number;
+  y: number;
+  time: number;
+  hz: number;
+  db: number;
+}
+
+function frameOffset(result: SpectrogramResult): number {
+  return result.fftSize / 2 / result.sampleRate;
+}
+
+function fmtTime(s: number): string {
+  const m = Math.floor(s / 60);
+  const sec = (s % 60).toFixed(2).padStart(5, '0');
+  return `${m}:${sec}`;
+}
+
+export function SpectrogramLane({ result, params, onParamsChange, isAnalyzing, progress }: Props) {
+  const timeline = usePlayerTimeline();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const wrapRef = useRef<HTMLDivElement>(null);
+  const [readout, setReadout] = useState<Readout | null>(null);
+
+  const topDb = result ? Math.ceil(result.maxDb) : 0;
+  const floorDb = topDb - DYNAMIC_RANGE_DB;
+  const image = useMemo(() => (result ? renderImage(result, floorDb, topDb) : null), [result, floorDb, topDb]);
+
+  const viewStart = timeline?.viewStart ?? 0;
+  const viewEnd = timeline?.viewEnd ?? 0;
+  const currentTime = timeline?.currentTime ?? 0;
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+    const width = rect.width;
+    const height = rect.height;
+    if (canvas.width !== Math.floor(width * dpr) || canvas.height !== Math.floor(height * dpr)) {
+      canvas.width = Math.floor(width * dpr);
+      canvas.height = Math.floor(height * dpr);
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    ctx.fillStyle = '#000004';
+    ctx.fillRect(0, 0, width, height);
+    if (!image || !result || viewEnd <= viewStart) return;
+
+    // 表示範囲に対応するフレーム範囲だけを切り出して引き伸ばす（フレーム f の中心は f * hop + fft / 2）
+    const hopSec = result.hopSize / result.sampleRate;
+    const sx = (viewStart - frameOffset(result)) / hopSec;
+    const sw = Math.max(1, (viewEnd - viewStart) / hopSec);
+    ctx.imageSmoothingEnabled = sw < width;
+    ctx.drawImage(image, sx, 0, sw, result.bins, 0, 0, width, height);
+
+    // 周波数目盛り
+    const nyquist = result.sampleRate / 2;
+    ctx.font = '10px sans-serif';
+    ctx.fillStyle = 'rgba(228, 228, 231, 0.8)';
+    ctx.strokeStyle = 'rgba(228, 228, 231, 0.15)';
+    ctx.lineWidth = 1;
+    for (const hz of FREQ_TICKS) {
+      if (hz >= nyquist) continue;
+      const y = Math.round(height * (1 - frequencyToPosition(result.scale, hz, nyquist))) + 0.5;
+      if (y < 10 || y > height - 2) continue;
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+      ctx.fillText(formatFrequency(hz), 4, y - 2);
+    }
+
+    // Playhead
+    if (currentTime > viewStart && currentTime < viewEnd) {
+      const x = Math.round(((currentTime - viewStart) / (viewEnd - viewStart)) * width) + 0.5;
+      ctx.strokeStyle = '#e4e4e7';
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+      ctx.stroke();
+    }
+  }, [image, result, viewStart, viewEnd, currentTime]);
+
+  useEffect(() => {
+    draw();
+  }, [draw]);
+
+  useEffect(() => {
+    const wrap = wrapRef.current;
+    if (!wrap) return;
+    const observer = new ResizeObserver(() => draw());
+    observer.observe(wrap);
+    return () => observer.disconnect();
+  }, [draw]);
+
+  const xToTime = useCallback((clientX: number, el: Element) => {
+    const rect = el.getBoundingClientRect();
+    return viewStart + ((clientX - rect.left) / rect.width) * (viewEnd - viewStart);
+  }, [viewStart, viewEnd]);
+
+  // ホイールで波形と同じ表示範囲を拡大縮小する
+  const zoomAt = timeline?.zoomAt;
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !zoomAt) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomAt(xToTime(e.clientX, canvas), e.deltaY < 0 ? 0.8 : 1.25);
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [zoomAt, xToTime]);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!result || result.frames === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    const time = xToTime(e.clientX, e.currentTarget);
+    const pos = Math.min(1, Math.max(0, 1 - y / rect.height));
+    const row = Math.min(result.bins - 1, Math.floor(pos * result.bins));
+    const frame = Math.min(result.frames - 1, Math.max(0, Math.round((time - frameOffset(result)) * result.sampleRate / result.hopSize)));
+    setReadout({
+      x, y, time,
+      hz: positionToFrequency(result.scale, pos, result.sampleRate / 2),
+      db: result.data[frame * result.bins + row],
+    });
+  };
+
+  const setParam = <K extends keyof SpectrogramParams>(key: K, value: SpectrogramParams[K]) => {
+    onParamsChange({ ...params, [key]: value });
+  };
+
+  return (
+    <div className="spectrogram-lane">
+      <div className="spectrogram-head">
+        <span className="spectrogram-title">Spectrogram</span>
+        <label>
+          FFT
+          <select className="spectrogram-select" value={params.fftSize} onChange={e => setParam('fftSize', Number(e.target.value))}>
+            {FFT_SIZES.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label>
+          Hop
+          <select className="spectrogram-select" value={params.hopSize} onChange={e => setParam('hopSize', Number(e.target.value))}>
+            {HOP_SIZES.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label>
+          周波数軸
+          <select className="spectrogram-select" value={params.scale} onChange={e => setParam('scale', e.target.value as FrequencyScale)}>
+            {(Object.keys(SCALE_LABEL) as FrequencyScale[]).map(s => <option key={s} value={s}>{SCALE_LABEL[s]}</option>)}
+          </select>
+        </label>
+        {isAnalyzing && <span className="spectrogram-status">{progress.label} {progress.percent}%</span>}
+        {result && !isAnalyzing && result.hopSize !== params.hopSize && (
+          <span className="spectrogram-status">長尺のため Hop {result.hopSize} で計算</span>
+        )}
+      </div>
+      <div className="spectrogram-body">
+        <div className="spectrogram-canvas-wrap" ref={wrapRef}>
+          <canvas
+            ref={canvasRef}
+            onClick={e => timeline?.seek(xToTime(e.clientX, e.currentTarget))}
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setReadout(null)}
+          />
+          {readout && (
+            <div
+              className="spectrogram-readout"
+              style={{ left: readout.x + 12, top: Math.max(0, readout.y - 28) }}
+            >
+              {fmtTime(readout.time)} · {formatFrequency(readout.hz)} · {readout.db.toFixed(1)} dB
+            </div>
+          )}
+        </div>
+        <div className="spectrogram-legend">
+          <span>{result ? topDb : ''}</span>
+          <div className="spectrogram-legend-bar" style={{ background: LEGEND_GRADIENT }} />
+          <span>{result ? floorDb : ''}</span>
+          <span className="spectrogram-legend-unit">dB</span>
+        </div>
+      </div>
+    </div>
+  );
+}
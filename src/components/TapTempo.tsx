@@ -0,0 +1,54 @@
+import { useCallback, useRef, useState } from 'react';
+
+interface Props {
+  /** タップで求めた BPM を確定する */
+  onApply: (bpm: number) => void;
+}
+
+// 前のタップからこれ以上空いたら数え直す（ミリ秒）
+const RESET_MS = 2000;
+// 直近のこの回数の間隔で平均する
+const MAX_INTERVALS = 8;
+// これ未満の間隔の数では BPM を出さない
+const MIN_INTERVALS = 3;
+
+export function TapTempo({ onApply }: Props) {
+  const tapsRef = useRef<number[]>([]);
+  const [tapped, setTapped] = useState<{ bpm: number | null; count: number }>({ bpm: null, count: 0 });
+
+  // クリックより早く発火する pointerdown で時刻を取る
+  const tap = useCallback((e: React.PointerEvent) => {
+    const now = e.timeStamp;
+    const taps = tapsRef.current;
+    if (taps.length > 0 && now - taps[taps.length - 1] > RESET_MS) taps.length = 0;
+    taps.push(now);
+    if (taps.length > MAX_INTERVALS + 1) taps.shift();
+    const intervals = taps.length - 1;
+    const bpm = intervals >= MIN_INTERVALS ? (60000 * intervals) / (taps[taps.length - 1] - taps[0]) : null;
+    setTapped({ bpm, count: taps.length });
+  }, []);
+
+  const reset = useCallback(() => {
+    tapsRef.current = [];
+    setTapped({ bpm: null, count: 0 });
+  }, []);
+
+  return (
+    <div className="tap-tempo">
+      <button className="tap-tempo-pad" onPointerDown={tap} title="曲に合わせて拍ごとにタップ（2 秒空けると数え直し）">
+        TAP
+      </button>
+      <div className="tap-tempo-value">
+        {tapped.bpm != null
+          ? `${tapped.bpm.toFixed(1)} BPM`
+          : tapped.count > 0 ? `あと ${MIN_INTERVALS + 1 - tapped.count} 回` : '---'}
+      </div>
+      <button className="batch-btn batch-btn-primary" onClick={() => tapped.bpm != null && onApply(tapped.bpm)} disabled={tapped.bpm == null}>
+        この値にする
+      </button>
+      <button className="batch-btn batch-btn-secondary" onClick={reset} disabled={tapped.count === 0}>
+        リセット
+      </button>
+    </div>
+  );
+}
@@ -1,21 +1,175 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useImperativeHandle, useRef, useState, type ReactNode, type Ref } from 'react';
+import { PlayerTimelineContext, type PlayerTimeline, type StereoTap } from './playerTimeline';
+
+/** 波形上に縦線で示す位置（True Peak オーバー等） */
+export interface WaveformMarker {
+  time: number;
+  color?: string;
+}
+
+/** 波形の背景に帯で示す区間（曲中の無音等） */
+export interface WaveformRegion {
+  start: number;
+  end: number;
+  color?: string;
+}
+
+/** 波形の背景に細い縦線で示す拍（ビートグリッド） */
+export interface WaveformBeat {
+  time: number;
+  /** 小節頭は線を強調し、メトロノームのクリックも高い音にする */
+  downbeat: boolean;
+}
+
+/** 解析結果の一覧などプレイヤーの外から再生位置を操作するためのハンドル */
+export interface WaveformPlayerHandle {
+  /** 指定位置へ移動する（拡大中はその位置が見えるよう表示範囲も動かす） */
+  jumpTo(time: number): void;
+  /** start〜end を繰り返し再生する（クリック箇所の試聴など）。区間の周りを拡大表示する */
+  loop(start: number, end: number): void;
+}
+
+/** 配信プラットフォームの正規化を再現して試聴するためのゲイン */
+export interface PlaybackNormalization {
+  label: string;
+  gainDB: number;
+  /** プラットフォームのリミッターがかかる場合 true（DynamicsCompressor で近似する） */
+  limiter: boolean;
+  /** リミッターの天井 (dBTP) */
+  ceiling: number;
+}
 
 interface Props {
   file: File | null;
   audioData: Float32Array | null;
+  markers?: WaveformMarker[];
+  regions?: WaveformRegion[];
+  /** 波形の下に並べるレーン。usePlayerTimeline() で再生位置・ズームを共有する */
+  children?: ReactNode;
+  ref?: Ref<WaveformPlayerHandle>;
+  /** 指定するとツールバーに NORM ボタンを出し、オンの間このゲインで再生する */
+  normalization?: PlaybackNormalization | null;
+  /** 時刻順の拍。指定するとビートグリッドを描き、ツールバーに CLICK（メトロノーム）ボタンを出す */
+  beats?: WaveformBeat[];
+}
+
+const NO_MARKERS: WaveformMarker[] = [];
+const NO_REGIONS: WaveformRegion[] = [];
+const NO_BEATS: WaveformBeat[] = [];
+const MARKER_COLOR = '#ef4444';
+const REGION_COLOR = 'rgba(148, 163, 184, 0.16)';
+// これ以上は拡大しない（秒）
+const MIN_VIEW_SPAN = 0.05;
+const ZOOM_STEP = 0.5;
+const TAP_FFT_SIZE = 2048;
+// ループ再生時に表示する最小の幅（秒）
+const LOOP_VIEW_SPAN = 2;
+const LOOP_COLOR = 'rgba(250, 204, 21, 0.14)';
+const BEAT_COLOR = 'rgba(228, 228, 231, 0.08)';
+const DOWNBEAT_COLOR = 'rgba(52, 211, 153, 0.35)';
+// 拍の間隔がこのピクセル数より狭いときは小節頭だけを描く
+const MIN_BEAT_SPACING_PX = 4;
+// メトロノーム: rAF ごとにこの先読み分のクリックを AudioContext の時刻で予約する
+const CLICK_LOOKAHEAD = 0.1;
+const CLICK_DURATION = 0.03;
+const CLICK_LEVEL = 0.5;
+const CLICK_FREQ = 1000;
+const DOWNBEAT_CLICK_FREQ = 1600;
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/** <audio> → (L/R タップ) → [モノラル化] → 音量 → 正規化 → [リミッター] → 出力。MediaElementSource は要素ごとに 1 回しか作れない */
+interface AudioGraph {
+  context: AudioContext;
+  element: HTMLAudioElement;
+  source: MediaElementAudioSourceNode;
+  /** 1 チャンネルに固定してダウンミックス ((L + R) / 2) させ、出力で両スピーカーに戻す */
+  monoNode: GainNode;
+  gain: GainNode;
+  normalizeNode: GainNode;
+  limiterNode: DynamicsCompressorNode;
+  /** normalizeNode が limiterNode 経由で出力に繋がっているか */
+  limited: boolean;
+}
+
+/** 未接続のノードを disconnect() すると例外になるので、切り替え前の経路だけを外す */
+function routeOutput(graph: AudioGraph, mono: boolean) {
+  const { source, monoNode, gain } = graph;
+  source.disconnect(mono ? gain : monoNode);
+  source.connect(mono ? monoNode : gain);
+}
+
+/** 正規化ゲインを設定し、リミッターの要否に応じて出力への経路を繋ぎ替える */
+function applyNormalization(graph: AudioGraph, normalization: PlaybackNormalization | null) {
+  const { context, normalizeNode, limiterNode } = graph;
+  normalizeNode.gain.value = normalization ? Math.pow(10, normalization.gainDB / 20) : 1;
+  const limited = normalization?.limiter ?? false;
+  if (normalization) limiterNode.threshold.value = normalization.ceiling;
+  if (limited === graph.limited) return;
+  normalizeNode.disconnect(limited ? context.destination : limiterNode);
+  normalizeNode.connect(limited ? limiterNode : context.destination);
+  graph.limited = limited;
+}
+
+/** 短いサイン波のクリックを when（AudioContext の時刻）に鳴らす。音量・正規化の影響を受けないよう出力に直接繋ぐ */
+function scheduleClick(context: AudioContext, when: number, downbeat: boolean) {
+  const osc = context.createOscillator();
+  const env = context.createGain();
+  osc.frequency.value = downbeat ? DOWNBEAT_CLICK_FREQ : CLICK_FREQ;
+  env.gain.setValueAtTime(CLICK_LEVEL, when);
+  env.gain.exponentialRampToValueAtTime(0.001, when + CLICK_DURATION);
+  osc.connect(env);
+  env.connect(context.destination);
+  osc.start(when);
+  osc.stop(when + CLICK_DURATION);
+}
+
+/** time 以上の最初の拍のインデックス */
+function firstBeatFrom(beats: WaveformBeat[], time: number): number {
+  let lo = 0;
+  let hi = beats.length;
+  while (lo < hi) {
+    const m = (lo + hi) >> 1;
+    if (beats[m].time < time) lo = m + 1;
+    else hi = m;
+  }
+  return lo;
 }
 
-export function WaveformPlayer({ file, audioData }: Props) {
+export function WaveformPlayer({
+  file, audioData, markers = NO_MARKERS, regions = NO_REGIONS, children, ref, normalization = null, beats = NO_BEATS,
+}: Props) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const rafRef = useRef<number>(0);
+  const graphRef = useRef<AudioGraph | null>(null);
+  const monoRef = useRef(false);
+  // rAF ループから参照するので state と別に最新値を持つ
+  const loopRef = useRef<TimeRange | null>(null);
+  // メトロノームをどの再生位置まで予約したか（シーク・ループで巻き戻ったら予約し直す）
+  const clickCursorRef = useRef<number | null>(null);
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [objectUrl, setObjectUrl] = useState<string | null>(null);
   const [volume, setVolume] = useState(1);
+  const [view, setView] = useState<TimeRange | null>(null);
+  const [stereoTap, setStereoTap] = useState<StereoTap | null>(null);
+  const [mono, setMono] = useState(false);
+  const [loop, setLoop] = useState<TimeRange | null>(null);
+  const [normalized, setNormalized] = useState(false);
+  const [metronome, setMetronome] = useState(false);
+  const activeNormalization = normalized ? normalization : null;
+  // グラフ作成時に参照する
+  const normalizationRef = useRef<PlaybackNormalization | null>(null);
+
+  const viewStart = view?.start ?? 0;
+  const viewEnd = view?.end ?? duration;
 
   // Precomputed waveform peaks (min/max per pixel column)
   const peaksRef = useRef<{ min: number; max: number }[]>([]);
@@ -26,6 +180,9 @@ export function WaveformPlayer({ file, audioData }: Props) {
     setObjectUrl(url);
     setCurrentTime(0);
     setIsPlaying(false);
+    setView(null);
+    setLoop(null);
+    loopRef.current = null;
     return () => URL.revokeObjectURL(url);
   }, [file]);
 
@@ -35,32 +192,116 @@ export function WaveformPlayer({ file, audioData }: Props) {
 
   const handleEnded = useCallback(() => setIsPlaying(false), []);
 
-  const handleVolumeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const v = parseFloat(e.target.value);
+  const applyLoop = useCallback((range: TimeRange | null) => {
+    loopRef.current = range;
+    setLoop(range);
+  }, []);
+
+  // グラフを作った後は <audio> の音量を 1 に固定し、タップより後ろの GainNode で音量を変える
+  const applyVolume = useCallback((v: number) => {
     setVolume(v);
-    if (audioRef.current) audioRef.current.volume = v;
+    if (graphRef.current) graphRef.current.gain.gain.value = v;
+    else if (audioRef.current) audioRef.current.volume = v;
+  }, []);
+
+  const handleVolumeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    applyVolume(parseFloat(e.target.value));
+  }, [applyVolume]);
+
+  // AudioContext はユーザー操作の中でしか開始できないので、初回再生時に作る
+  const ensureGraph = useCallback(() => {
+    const element = audioRef.current;
+    if (!element) return;
+    const current = graphRef.current;
+    if (current?.element === element) {
+      if (current.context.state === 'suspended') current.context.resume();
+      return;
+    }
+    current?.context.close();
+
+    const context = new AudioContext();
+    const source = context.createMediaElementSource(element);
+    const gain = context.createGain();
+    gain.gain.value = element.volume;
+    element.volume = 1;
+    const normalizeNode = context.createGain();
+    gain.connect(normalizeNode);
+    normalizeNode.connect(context.destination);
+    // ブリックウォールに近い設定。DynamicsCompressor はサンプルピーク検出なので True Peak の天井は目安
+    const limiterNode = context.createDynamicsCompressor();
+    limiterNode.knee.value = 0;
+    limiterNode.ratio.value = 20;
+    limiterNode.attack.value = 0.001;
+    limiterNode.release.value = 0.1;
+    limiterNode.connect(context.destination);
+    const monoNode = context.createGain();
+    monoNode.channelCount = 1;
+    monoNode.channelCountMode = 'explicit';
+    monoNode.channelInterpretation = 'speakers';
+    monoNode.connect(gain);
+    if (monoRef.current) source.connect(monoNode);
+    else source.connect(gain);
+
+    // モノラル素材でも L = R になるよう speakers でアップミックスしてから分ける
+    const splitter = context.createChannelSplitter(2);
+    splitter.channelInterpretation = 'speakers';
+    const left = context.createAnalyser();
+    const right = context.createAnalyser();
+    left.fftSize = TAP_FFT_SIZE;
+    right.fftSize = TAP_FFT_SIZE;
+    source.connect(splitter);
+    splitter.connect(left, 0);
+    splitter.connect(right, 1);
+
+    const graph: AudioGraph = { context, element, source, monoNode, gain, normalizeNode, limiterNode, limited: false };
+    applyNormalization(graph, normalizationRef.current);
+    graphRef.current = graph;
+    setStereoTap({ left, right });
+  }, []);
+
+  const toggleMono = useCallback(() => {
+    const next = !monoRef.current;
+    // 初回はグラフ作成時に monoRef を見て配線されるので、既存グラフのときだけ繋ぎ替える
+    const existing = graphRef.current;
+    monoRef.current = next;
+    setMono(next);
+    if (existing) routeOutput(existing, next);
+    else ensureGraph();
+  }, [ensureGraph]);
+
+  useEffect(() => {
+    normalizationRef.current = activeNormalization;
+    if (graphRef.current) applyNormalization(graphRef.current, activeNormalization);
+  }, [activeNormalization]);
+
+  useEffect(() => () => {
+    graphRef.current?.context.close();
+    graphRef.current = null;
   }, []);
 
-  // Compute peaks when audioData or canvas size changes
+  // Compute peaks for the visible range when audioData, zoom or canvas size changes
   const computePeaks = useCallback((width: number) => {
     if (!audioData || audioData.length === 0 || width === 0) return;
-    const samplesPerPixel = Math.floor(audioData.length / width);
+    const first = duration > 0 ? Math.floor((viewStart / duration) * audioData.length) : 0;
+    const last = duration > 0 ? Math.ceil((viewEnd / duration) * audioData.length) : audioData.length;
+    const samplesPerPixel = Math.max(1, (last - first) / width);
     const peaks: { min: number; max: number }[] = [];
     for (let x = 0; x < width; x++) {
-      const start = x * samplesPerPixel;
+      const start = first + Math.floor(x * samplesPerPixel);
+      const end = Math.min(audioData.length, Math.max(start + 1, first + Math.floor((x + 1) * samplesPerPixel)));
       let min = 1, max = -1;
-      for (let j = 0; j < samplesPerPixel; j++) {
-        const val = audioData[start + j];
+      for (let j = start; j < end; j++) {
+        const val = audioData[j];
         if (val < min) min = val;
         if (val > max) max = val;
       }
-      peaks.push({ min, max });
+      peaks.push(min <= max ? { min, max } : { min: 0, max: 0 });
     }
     peaksRef.current = peaks;
-  }, [audioData]);
+  }, [audioData, duration, viewStart, viewEnd]);
 
   // Draw waveform with playback progress overlay
-  const draw = useCallback((progress: number) => {
+  const draw = useCallback((time: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
@@ -78,14 +319,43 @@ export function WaveformPlayer({ file, audioData }: Props) {
       computePeaks(Math.floor(width));
     }
 
+    const span = viewEnd - viewStart;
+    const timeToX = (t: number) => (span > 0 ? ((t - viewStart) / span) * width : 0);
+
     const mid = height / 2;
     const peaks = peaksRef.current;
-    const playedX = Math.floor(progress * width);
+    const playedX = Math.floor(Math.min(Math.max(timeToX(time), 0), width));
 
     // Background
     ctx.fillStyle = '#18181b';
     ctx.fillRect(0, 0, width, height);
 
+    for (const r of regions) {
+      if (r.end < viewStart || r.start > viewEnd) continue;
+      const x0 = Math.max(0, timeToX(r.start));
+      const x1 = Math.min(width, timeToX(r.end));
+      ctx.fillStyle = r.color ?? REGION_COLOR;
+      ctx.fillRect(x0, 0, Math.max(1, x1 - x0), height);
+    }
+
+    // ビートグリッド（密すぎる拡大率では小節頭だけ）
+    if (beats.length > 0 && span > 0) {
+      const denseBeats = beats.length > 1 && (width / span) * (beats[beats.length - 1].time - beats[0].time) / beats.length < MIN_BEAT_SPACING_PX;
+      ctx.save();
+      ctx.lineWidth = 1;
+      for (let i = firstBeatFrom(beats, viewStart); i < beats.length && beats[i].time <= viewEnd; i++) {
+        const b = beats[i];
+        if (denseBeats && !b.downbeat) continue;
+        const x = Math.round(timeToX(b.time)) + 0.5;
+        ctx.strokeStyle = b.downbeat ? DOWNBEAT_COLOR : BEAT_COLOR;
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, height);
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+
     if (peaks.length === 0) return;
 
     // Draw unplayed portion (dim glow)
@@ -125,8 +395,41 @@ export function WaveformPlayer({ file, audioData }: Props) {
     ctx.stroke();
     ctx.restore();
 
+    // ループ区間
+    if (loop && loop.end > viewStart && loop.start < viewEnd) {
+      const x0 = Math.max(0, timeToX(loop.start));
+      const x1 = Math.min(width, timeToX(loop.end));
+      ctx.fillStyle = LOOP_COLOR;
+      ctx.fillRect(x0, 0, x1 - x0, height);
+    }
+
+    // Markers (duration は <audio> のメタデータ読込後に確定する)
+    if (markers.length > 0 && duration > 0) {
+      ctx.save();
+      ctx.lineWidth = 1;
+      for (const m of markers) {
+        if (m.time < viewStart || m.time > viewEnd) continue;
+        const x = Math.round(timeToX(m.time)) + 0.5;
+        ctx.strokeStyle = m.color ?? MARKER_COLOR;
+        ctx.fillStyle = m.color ?? MARKER_COLOR;
+        ctx.globalAlpha = 0.7;
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, height);
+        ctx.stroke();
+        ctx.globalAlpha = 1;
+        ctx.beginPath();
+        ctx.moveTo(x - 4, 0);
+        ctx.lineTo(x + 4, 0);
+        ctx.lineTo(x, 6);
+        ctx.closePath();
+        ctx.fill();
+      }
+      ctx.restore();
+    }
+
     // Playhead line (glowing)
-    if (progress > 0 && progress < 1) {
+    if (time > viewStart && time < viewEnd) {
       ctx.save();
       ctx.shadowColor = '#e4e4e7';
       ctx.shadowBlur = 8;
@@ -145,7 +448,7 @@ export function WaveformPlayer({ file, audioData }: Props) {
     ctx.moveTo(0, mid);
     ctx.lineTo(width, mid);
     ctx.stroke();
-  }, [computePeaks]);
+  }, [computePeaks, markers, regions, beats, loop, duration, viewStart, viewEnd]);
 
   // Animation loop for smooth playhead
   useEffect(() => {
@@ -153,26 +456,48 @@ export function WaveformPlayer({ file, audioData }: Props) {
 
     const tick = () => {
       if (audioRef.current && duration > 0) {
-        const progress = audioRef.current.currentTime / duration;
-        setCurrentTime(audioRef.current.currentTime);
-        draw(progress);
+        let t = audioRef.current.currentTime;
+        const range = loopRef.current;
+        if (range && t >= range.end) {
+          audioRef.current.currentTime = range.start;
+          t = range.start;
+        }
+        setCurrentTime(t);
+        const graph = graphRef.current;
+        if (metronome && graph && beats.length > 0) {
+          let from = clickCursorRef.current;
+          if (from == null || t < from - CLICK_LOOKAHEAD * 2 || t > from + CLICK_LOOKAHEAD) from = t;
+          const until = t + CLICK_LOOKAHEAD;
+          for (let i = firstBeatFrom(beats, from); i < beats.length && beats[i].time < until; i++) {
+            if (range && beats[i].time >= range.end) break;
+            scheduleClick(graph.context, graph.context.currentTime + (beats[i].time - t), beats[i].downbeat);
+          }
+          clickCursorRef.current = until;
+        }
+        // 拡大中は再生位置が表示範囲を出たらページ送りする
+        setView(v => {
+          if (!v || (t >= v.start && t <= v.end)) return v;
+          const span = v.end - v.start;
+          const start = Math.min(Math.max(0, t), Math.max(0, duration - span));
+          return { start, end: start + span };
+        });
+        draw(t);
       }
       rafRef.current = requestAnimationFrame(tick);
     };
     rafRef.current = requestAnimationFrame(tick);
     return () => cancelAnimationFrame(rafRef.current);
-  }, [isPlaying, duration, draw]);
+  }, [isPlaying, duration, draw, metronome, beats]);
 
-  // Initial draw + redraw on data/time change when paused
+  // Initial draw + redraw on data/time/zoom change when paused
   useEffect(() => {
     if (!audioData) return;
     const canvas = canvasRef.current;
     if (!canvas) return;
     const rect = canvas.getBoundingClientRect();
     computePeaks(Math.floor(rect.width));
-    const progress = duration > 0 ? currentTime / duration : 0;
-    draw(progress);
-  }, [audioData, currentTime, duration, draw, computePeaks]);
+    draw(currentTime);
+  }, [audioData, currentTime, draw, computePeaks]);
 
   // Resize observer
   useEffect(() => {
@@ -183,41 +508,108 @@ export function WaveformPlayer({ file, audioData }: Props) {
       if (!canvas) return;
       const rect = canvas.getBoundingClientRect();
       computePeaks(Math.floor(rect.width));
-      const progress = duration > 0 ? currentTime / duration : 0;
-      draw(progress);
+      draw(currentTime);
     });
     observer.observe(container);
     return () => observer.disconnect();
-  }, [duration, currentTime, draw, computePeaks]);
+  }, [currentTime, draw, computePeaks]);
 
   const togglePlay = useCallback(() => {
     if (!audioRef.current) return;
     if (isPlaying) {
       audioRef.current.pause();
     } else {
+      ensureGraph();
       audioRef.current.play();
     }
     setIsPlaying(!isPlaying);
-  }, [isPlaying]);
-
-  const restart = useCallback(() => {
-    if (!audioRef.current) return;
-    audioRef.current.currentTime = 0;
-    setCurrentTime(0);
-    draw(0);
-  }, [draw]);
+  }, [isPlaying, ensureGraph]);
 
-  const handleCanvasClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+  const seek = useCallback((time: number) => {
     if (!audioRef.current || !duration) return;
-    const rect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const progress = x / rect.width;
-    const time = progress * duration;
-    audioRef.current.currentTime = time;
-    setCurrentTime(time);
-    draw(progress);
+    const t = Math.min(Math.max(0, time), duration);
+    audioRef.current.currentTime = t;
+    clickCursorRef.current = null;
+    setCurrentTime(t);
+    draw(t);
   }, [duration, draw]);
 
+  const restart = useCallback(() => seek(0), [seek]);
+
+  useImperativeHandle(ref, () => ({
+    jumpTo(time: number) {
+      applyLoop(null);
+      setView(v => {
+        if (!v || (time >= v.start && time <= v.end)) return v;
+        const span = v.end - v.start;
+        const start = Math.min(Math.max(0, time - span / 2), Math.max(0, duration - span));
+        return { start, end: start + span };
+      });
+      seek(time);
+    },
+    loop(start: number, end: number) {
+      const audio = audioRef.current;
+      if (!audio || !duration) return;
+      const range = { start: Math.max(0, start), end: Math.min(duration, end) };
+      if (range.end <= range.start) return;
+      applyLoop(range);
+      const span = Math.min(duration, Math.max(LOOP_VIEW_SPAN, range.end - range.start));
+      const center = (range.start + range.end) / 2;
+      const viewFrom = Math.min(Math.max(0, center - span / 2), duration - span);
+      setView(span >= duration ? null : { start: viewFrom, end: viewFrom + span });
+      seek(range.start);
+      ensureGraph();
+      audio.play();
+      setIsPlaying(true);
+    },
+  }), [duration, seek, applyLoop, ensureGraph]);
+
+  const zoomAt = useCallback((time: number, factor: number) => {
+    if (!duration) return;
+    setView(v => {
+      const start = v?.start ?? 0;
+      const end = v?.end ?? duration;
+      const span = Math.min(Math.max((end - start) * factor, MIN_VIEW_SPAN), duration);
+      if (span >= duration) return null;
+      // カーソル位置（time）が画面上で動かないように左端を決める
+      const ratio = end > start ? (time - start) / (end - start) : 0.5;
+      const nextStart = Math.min(Math.max(0, time - span * ratio), duration - span);
+      return { start: nextStart, end: nextStart + span };
+    });
+  }, [duration]);
+
+  const zoomCenter = useCallback((factor: number) => {
+    zoomAt((viewStart + viewEnd) / 2, factor);
+  }, [zoomAt, viewStart, viewEnd]);
+
+  const xToTime = useCallback((clientX: number, el: Element) => {
+    const rect = el.getBoundingClientRect();
+    return viewStart + ((clientX - rect.left) / rect.width) * (viewEnd - viewStart);
+  }, [viewStart, viewEnd]);
+
+  const handleCanvasClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    const time = xToTime(e.clientX, e.currentTarget);
+    // ループ区間の外をクリックしたらループを解除する（そのままだと区間の先頭に戻されるため）
+    const range = loopRef.current;
+    if (range && (time < range.start || time >= range.end)) applyLoop(null);
+    seek(time);
+  }, [seek, xToTime, applyLoop]);
+
+  // ホイールで拡大縮小（ページのスクロールを止めるため passive: false で登録）
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!duration) return;
+      e.preventDefault();
+      zoomAt(xToTime(e.clientX, canvas), e.deltaY < 0 ? 0.8 : 1.25);
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [duration, zoomAt, xToTime, objectUrl]);
+
+  const timeline: PlayerTimeline = { currentTime, duration, isPlaying, stereoTap, viewStart, viewEnd, seek, zoomAt };
+
   const fmt = (s: number) => {
     const m = Math.floor(s / 60);
     const sec = Math.floor(s % 60);
@@ -243,6 +635,8 @@ export function WaveformPlayer({ file, audioData }: Props) {
         />
       </div>
 
+      <PlayerTimelineContext.Provider value={timeline}>{children}</PlayerTimelineContext.Provider>
+
       <div className="player-toolbar">
         <div className="player-toolbar-left">
           <button className="player-btn" onClick={restart} title="最初に戻す">
@@ -269,14 +663,48 @@ export function WaveformPlayer({ file, audioData }: Props) {
           {fmt(currentTime)} <span className="player-time-sep">/</span> {fmt(duration)}
         </span>
 
+        <div className="player-zoom">
+          <button className="player-btn" onClick={() => zoomCenter(1 / ZOOM_STEP)} disabled={!view} title="縮小">−</button>
+          <button className="player-btn" onClick={() => zoomCenter(ZOOM_STEP)} disabled={!duration} title="拡大（ホイールでも可）">+</button>
+          <button className="player-btn player-btn-fit" onClick={() => setView(null)} disabled={!view} title="全体を表示">全体</button>
+          {view && <span className="player-zoom-range">{fmt(view.start)}–{fmt(view.end)}</span>}
+        </div>
+
         <div className="player-toolbar-right">
+          {loop && (
+            <button
+              className="player-btn player-btn-loop active"
+              onClick={() => applyLoop(null)}
+              title="ループを解除"
+            >LOOP {loop.start.toFixed(2)}–{loop.end.toFixed(2)}s ×</button>
+          )}
+          <button
+            className={`player-btn player-btn-mono${mono ? ' active' : ''}`}
+            onClick={toggleMono}
+            title={mono ? 'ステレオに戻す' : 'モノラル (L+R) で試聴'}
+          >MONO</button>
+          {beats.length > 0 && (
+            <button
+              className={`player-btn player-btn-click${metronome ? ' active' : ''}`}
+              onClick={() => {
+                clickCursorRef.current = null;
+                setMetronome(v => !v);
+              }}
+              title={metronome ? 'メトロノームを止める' : '検出した拍でメトロノームを鳴らす'}
+            >CLICK</button>
+          )}
+          {normalization && (
+            <button
+              className={`player-btn player-btn-norm${normalized ? ' active' : ''}`}
+              onClick={() => setNormalized(v => !v)}
+              title={normalized
+                ? '正規化をやめて元の音量で再生'
+                : `${normalization.label} の正規化後の音量で試聴（${normalization.gainDB > 0 ? '+' : ''}${normalization.gainDB.toFixed(1)} dB${normalization.limiter ? '・リミッターあり' : ''}）`}
+            >NORM{normalized && ` ${normalization.label} ${normalization.gainDB > 0 ? '+' : ''}${normalization.gainDB.toFixed(1)} dB`}</button>
+          )}
           <button
             className="player-btn player-btn-vol"
-            onClick={() => {
-              const next = volume > 0 ? 0 : 1;
-              setVolume(next);
-              if (audioRef.current) audioRef.current.volume = next;
-            }}
+            onClick={() => applyVolume(volume > 0 ? 0 : 1)}
             title={volume === 0 ? 'ミュート解除' : 'ミュート'}
           >
             <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react';
+
+/** 再生中の L/R 信号を覗く AnalyserNode（ライブのゴニオメーター等） */
+export interface StereoTap {
+  left: AnalyserNode;
+  right: AnalyserNode;
+}
+
+/** 波形の下に並べるレーン（スペクトログラム等）と共有する再生位置・表示範囲 */
+export interface PlayerTimeline {
+  currentTime: number;
+  duration: number;
+  isPlaying: boolean;
+  /** 初回再生時に作る。それまでは null */
+  stereoTap: StereoTap | null;
+  /** 表示範囲（秒）。ズームしていなければ 0〜duration */
+  viewStart: number;
+  viewEnd: number;
+  seek: (time: number) => void;
+  /** time を中心に表示幅を factor 倍する（< 1 で拡大） */
+  zoomAt: (time: number, factor: number) => void;
+}
+
+export const PlayerTimelineContext = createContext<PlayerTimeline | null>(null);
+
+/** WaveformPlayer の子要素から再生位置・ズームを参照する */
+export function usePlayerTimeline(): PlayerTimeline | null {
+  return useContext(PlayerTimelineContext);
+}
@@ -0,0 +1,31 @@
+// 解析結果から波形に重ねるマーカー・区間を作る
+import type { AnalysisResult } from '../analysis/types';
+import type { WaveformMarker, WaveformRegion } from './WaveformPlayer';
+
+export const TRUE_PEAK_MARKER_COLOR = '#f59e0b';
+export const CLICK_MARKER_COLOR = '#e879f9';
+export const CLIP_MARKER_COLOR = '#ef4444';
+
+/** True Peak オーバー（橙）・クリック（紫）・クリップ（赤）。クリップを最後に描いて重なったときに優先する */
+export function analysisMarkers(result: AnalysisResult | null | undefined): WaveformMarker[] {
+  const overs = result?.loudness?.truePeak.overs ?? [];
+  const clicks = result?.quality?.clicks.events ?? [];
+  const clips = result?.quality?.clipping.events ?? [];
+  return [
+    ...overs.map(o => ({ time: o.time, color: TRUE_PEAK_MARKER_COLOR })),
+    ...clicks.map(c => ({ time: c.time, color: CLICK_MARKER_COLOR })),
+    ...clips.map(c => ({ time: c.time, color: CLIP_MARKER_COLOR })),
+  ];
+}
+
+/** 曲中の無音。チャンネルごとの区間を重なりでまとめ、1 本の帯にする */
+export function analysisRegions(result: AnalysisResult | null | undefined): WaveformRegion[] {
+  const regions = [...(result?.quality?.silence.regions ?? [])].sort((a, b) => a.start - b.start);
+  const merged: WaveformRegion[] = [];
+  for (const r of regions) {
+    const last = merged[merged.length - 1];
+    if (last && r.start <= last.end) last.end = Math.max(last.end, r.end);
+    else merged.push({ start: r.start, end: r.end });
+  }
+  return merged;
+}
@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { AudioAnalyzer } from '../analysis/analyzer';
+import { AudioAnalyzer, isAnalysisCancelled } from '../analysis/analyzer';
 import type { AnalysisResult, ProgressState } from '../analysis/types';
+import { getActiveSpecProfile } from './useSpecProfile';
 
 export function useAnalysis() {
   const [progress, setProgress] = useState<ProgressState>({
@@ -12,6 +13,7 @@ export function useAnalysis() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const analyzerRef = useRef<AudioAnalyzer | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
 
   function getAnalyzer() {
     if (!analyzerRef.current) {
@@ -22,10 +24,13 @@ export function useAnalysis() {
         (partial) => {
           setResult(prev => {
             const base = prev ?? {
-              fileInfo: { name: '', duration: 0, sampleRate: 0, channels: 0, format: '' },
+              fileInfo: { name: '', duration: 0, sampleRate: 0, analysisSampleRate: 0, channels: 0, format: '' },
               loudness: null,
+              dynamics: null,
               stereo: null,
               quality: null,
+              spectrum: null,
+              monoFold: null,
             };
             return { ...base, ...partial };
           });
@@ -35,12 +40,18 @@ export function useAnalysis() {
     return analyzerRef.current;
   }
 
-  // ページ表示時にWASMを先読み
+  // ページ表示時にWASMを先読み、アンマウント時は実行中の解析を中断
   useEffect(() => {
     getAnalyzer().init();
+    return () => controllerRef.current?.abort();
   }, []);
 
-  const analyze = useCallback(async (audioData: Float32Array, sampleRate: number, leftChannel?: Float32Array, rightChannel?: Float32Array) => {
+  const analyze = useCallback(async (channels: Float32Array[], sampleRate: number) => {
+    // 実行中の解析があれば中断して置き換える
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
     setIsAnalyzing(true);
     setError(null);
     setResult(null);
@@ -51,16 +62,33 @@ export function useAnalysis() {
     try {
       await analyzer.init(); // 先読み済みなら即resolve
       setProgress({ phase: 'phase1', percent: 5, label: '解析開始...' });
-      await analyzer.analyze(audioData, sampleRate, leftChannel, rightChannel);
+      await analyzer.analyze(channels, sampleRate, {
+        signal: controller.signal,
+        detection: getActiveSpecProfile().detection,
+      });
       setProgress({ phase: 'done', percent: 100, label: '解析完了' });
     } catch (e) {
+      if (isAnalysisCancelled(e)) {
+        // 新しい解析に置き換えられた場合は状態に触れない
+        if (controllerRef.current === controller) {
+          setProgress({ phase: 'cancelled', percent: 0, label: e.message });
+        }
+        return;
+      }
       const msg = e instanceof Error ? e.message : '解析に失敗しました';
       setError(msg);
       setProgress({ phase: 'error', percent: 0, label: msg });
     } finally {
-      setIsAnalyzing(false);
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsAnalyzing(false);
+      }
     }
   }, []);
 
-  return { progress, result, isAnalyzing, error, analyze };
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { progress, result, isAnalyzing, error, analyze, cancel };
 }
@@ -1,4 +1,10 @@
-import { useCallback, useRef, useState } from 'react';
+import { useCallback, useState } from 'react';
+
+export interface DecodedAudio {
+  audioBuffer: AudioBuffer;
+  /** ファイルヘッダー上のサンプルレート */
+  originalSampleRate: number;
+}
 
 interface AudioFileState {
   file: File | null;
@@ -14,19 +20,17 @@ export function useAudioFile() {
     error: null,
     isDecoding: false,
   });
-  const audioCtxRef = useRef<AudioContext | null>(null);
 
-  const decode = useCallback(async (file: File): Promise<AudioBuffer> => {
+  /**
+   * targetSampleRate を省略するとファイル本来のサンプルレートでデコードする。
+   */
+  const decode = useCallback(async (file: File, targetSampleRate?: number): Promise<DecodedAudio> => {
     setState(prev => ({ ...prev, file, audioBuffer: null, error: null, isDecoding: true }));
 
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      const audioCtx = new AudioContext({ sampleRate: 44100 });
-      audioCtxRef.current = audioCtx;
-      const audioBuffer = await audioCtx.decodeAudioData(arrayBuffer);
-      await audioCtx.close();
-      setState(prev => ({ ...prev, audioBuffer, isDecoding: false }));
-      return audioBuffer;
+      const decoded = await decodeAudioFile(file, targetSampleRate);
+      setState(prev => ({ ...prev, audioBuffer: decoded.audioBuffer, isDecoding: false }));
+      return decoded;
     } catch (e) {
       const msg = e instanceof Error ? e.message : 'デコードに失敗しました';
       setState(prev => ({ ...prev, error: msg, isDecoding: false }));
@@ -37,16 +41,40 @@ export function useAudioFile() {
   return { ...state, decode };
 }
 
+// OfflineAudioContext が受け付けるサンプルレートの範囲
+const MIN_CONTEXT_RATE = 3000;
+const MAX_CONTEXT_RATE = 768000;
+
+/**
+ * ファイルをデコードする。AudioContext.decodeAudioData はコンテキストの SR に
+ * リサンプリングするため、ヘッダーから読んだ SR で OfflineAudioContext を作って
+ * 元のサンプルのまま取り出す（True Peak や無音判定がリサンプリングで変わらないように）。
+ */
+export async function decodeAudioFile(file: File, targetSampleRate?: number): Promise<DecodedAudio> {
+  const originalSampleRate = await getOriginalSampleRate(file);
+  const requested = targetSampleRate ?? originalSampleRate;
+  const rate = requested >= MIN_CONTEXT_RATE && requested <= MAX_CONTEXT_RATE ? requested : 48000;
+
+  const arrayBuffer = await file.arrayBuffer();
+  const ctx = new OfflineAudioContext(1, 1, rate);
+  const audioBuffer = await ctx.decodeAudioData(arrayBuffer);
+  return { audioBuffer, originalSampleRate };
+}
+
+export function audioBufferChannels(buffer: AudioBuffer): Float32Array[] {
+  return Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+}
+
 export function audioBufferToMono(buffer: AudioBuffer): Float32Array {
   if (buffer.numberOfChannels === 1) {
     return buffer.getChannelData(0);
   }
-  const left = buffer.getChannelData(0);
-  const right = buffer.getChannelData(1);
-  const mono = new Float32Array(left.length);
-  for (let i = 0; i < left.length; i++) {
-    mono[i] = (left[i] + right[i]) / 2;
+  const channels = audioBufferChannels(buffer);
+  const mono = new Float32Array(buffer.length);
+  for (const samples of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += samples[i];
   }
+  for (let i = 0; i < mono.length; i++) mono[i] /= channels.length;
   return mono;
 }
 
@@ -1,9 +1,11 @@
-import { useCallback, useRef, useState } from 'react';
-import { AudioAnalyzer } from '../analysis/analyzer';
-import { audioBufferToMono, getFileFormat, getOriginalSampleRate } from './useAudioFile';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AudioAnalyzer, analysisPool, isAnalysisCancelled } from '../analysis/analyzer';
+import { maxPoolSize } from '../analysis/workerPool';
+import { audioBufferChannels, decodeAudioFile, getFileFormat } from './useAudioFile';
 import type { AnalysisResult, FileInfo } from '../analysis/types';
+import { getActiveSpecProfile } from './useSpecProfile';
 
-export type BatchStatus = 'pending' | 'decoding' | 'analyzing' | 'done' | 'error';
+export type BatchStatus = 'pending' | 'decoding' | 'queued' | 'analyzing' | 'done' | 'error';
 
 export interface BatchItem {
   id: string;
@@ -11,16 +13,37 @@ export interface BatchItem {
   fileInfo: FileInfo | null;
   result: AnalysisResult | null;
   status: BatchStatus;
+  progress: number;
   error: string | null;
 }
 
 const MAX_FILES = 20;
 
+interface DecodedItem {
+  item: BatchItem;
+  audioBuffer: AudioBuffer;
+  fileInfo: FileInfo;
+}
+
+async function decodeItem(item: BatchItem): Promise<DecodedItem> {
+  const { audioBuffer, originalSampleRate } = await decodeAudioFile(item.file);
+  const fileInfo: FileInfo = {
+    name: item.file.name,
+    duration: audioBuffer.duration,
+    sampleRate: originalSampleRate,
+    analysisSampleRate: audioBuffer.sampleRate,
+    channels: audioBuffer.numberOfChannels,
+    format: getFileFormat(item.file.name),
+  };
+  return { item, audioBuffer, fileInfo };
+}
+
 export function useBatchAnalysis() {
   const [items, setItems] = useState<BatchItem[]>([]);
   const [isRunning, setIsRunning] = useState(false);
+  const [concurrency, setConcurrency] = useState(() => maxPoolSize());
   const itemsRef = useRef<BatchItem[]>([]);
-  const abortRef = useRef(false);
+  const controllerRef = useRef<AbortController | null>(null);
 
   // ref を即座に更新してから setState（レンダー待ちなし）
   function updateItems(updater: (prev: BatchItem[]) => BatchItem[]) {
@@ -39,6 +62,7 @@ export function useBatchAnalysis() {
         fileInfo: null,
         result: null,
         status: 'pending',
+        progress: 0,
         error: null,
       }));
       return [...prev, ...newItems];
@@ -47,81 +71,112 @@ export function useBatchAnalysis() {
 
   const startAnalysis = useCallback(async () => {
     setIsRunning(true);
-    abortRef.current = false;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+    // 実行中にプロファイルを切り替えても、1 回のバッチ内では同じ条件で解析する
+    const { detection } = getActiveSpecProfile();
+
+    const patchItem = (id: string, patch: Partial<BatchItem>) => {
+      updateItems(prev => prev.map(i => i.id === id ? { ...i, ...patch } : i));
+    };
 
-    const analyzer = new AudioAnalyzer(() => {}, () => {});
     try {
-      await analyzer.init();
+      await analysisPool.init();
     } catch {
       setIsRunning(false);
       return;
     }
 
-    // ref から最新の items を取得してループ
-    const snapshot = itemsRef.current;
-
-    for (const item of snapshot) {
-      if (abortRef.current) break;
-      if (item.status !== 'pending') continue;
-
-      updateItems(prev => prev.map(i => i.id === item.id ? { ...i, status: 'decoding' } : i));
-
-      try {
-        // Decode
-        const arrayBuffer = await item.file.arrayBuffer();
-        const audioCtx = new AudioContext({ sampleRate: 44100 });
-        const audioBuffer = await audioCtx.decodeAudioData(arrayBuffer);
-        await audioCtx.close();
-
-        const originalSR = await getOriginalSampleRate(item.file);
-        const fileInfo: FileInfo = {
-          name: item.file.name,
-          duration: audioBuffer.duration,
-          sampleRate: originalSR,
-          channels: audioBuffer.numberOfChannels,
-          format: getFileFormat(item.file.name),
-        };
-
-        updateItems(prev => prev.map(i => i.id === item.id ? { ...i, fileInfo, status: 'analyzing' } : i));
-
-        // Analyze
-        const mono = audioBufferToMono(audioBuffer);
-        const left = audioBuffer.getChannelData(0);
-        const right = audioBuffer.numberOfChannels > 1 ? audioBuffer.getChannelData(1) : left;
-
-        let partialResult: Partial<AnalysisResult> = {};
-        const batchAnalyzer = new AudioAnalyzer(
-          () => {},
-          (partial) => { partialResult = { ...partialResult, ...partial }; },
-        );
-        await batchAnalyzer.init();
-        await batchAnalyzer.analyze(mono, audioBuffer.sampleRate, left, right);
-
-        const fullResult: AnalysisResult = {
-          fileInfo,
-          loudness: partialResult.loudness ?? null,
-          stereo: partialResult.stereo ?? null,
-          quality: partialResult.quality ?? null,
-        };
-
-        updateItems(prev => prev.map(i => i.id === item.id
-          ? { ...i, result: fullResult, status: 'done' }
-          : i
-        ));
-      } catch (e) {
-        const msg = e instanceof Error ? e.message : '解析に失敗しました';
-        updateItems(prev => prev.map(i => i.id === item.id
-          ? { ...i, status: 'error', error: msg }
-          : i
-        ));
+    // ref から最新の items を取得し、待機中の曲を各レーンで取り合う
+    const queue = itemsRef.current.filter(i => i.status === 'pending');
+    let cursor = 0;
+
+    const startDecode = (): Promise<DecodedItem | Error> | null => {
+      if (signal.aborted || cursor >= queue.length) return null;
+      const item = queue[cursor++];
+      patchItem(item.id, { status: 'decoding', progress: 0 });
+      return decodeItem(item).then(
+        decoded => {
+          if (!signal.aborted) patchItem(item.id, { fileInfo: decoded.fileInfo, status: 'queued' });
+          return decoded;
+        },
+        (e: unknown) => {
+          const msg = e instanceof Error ? e.message : 'デコードに失敗しました';
+          if (!signal.aborted) patchItem(item.id, { status: 'error', error: msg });
+          return e instanceof Error ? e : new Error(msg);
+        },
+      );
+    };
+
+    const analyzeDecoded = async ({ item, audioBuffer, fileInfo }: DecodedItem) => {
+      patchItem(item.id, { status: 'analyzing' });
+
+      let partialResult: Partial<AnalysisResult> = {};
+      const analyzer = new AudioAnalyzer(
+        (_phase, percent) => patchItem(item.id, { progress: percent }),
+        (partial) => { partialResult = { ...partialResult, ...partial }; },
+      );
+      await analyzer.analyze(audioBufferChannels(audioBuffer), audioBuffer.sampleRate, { signal, detection });
+
+      const fullResult: AnalysisResult = {
+        fileInfo,
+        loudness: partialResult.loudness ?? null,
+        dynamics: partialResult.dynamics ?? null,
+        stereo: partialResult.stereo ?? null,
+        quality: partialResult.quality ?? null,
+        spectrum: partialResult.spectrum ?? null,
+        monoFold: partialResult.monoFold ?? null,
+      };
+      patchItem(item.id, { result: fullResult, status: 'done', progress: 100 });
+    };
+
+    // 各レーンは「今の曲を解析しながら次の曲をデコード」するパイプライン
+    const lane = async () => {
+      let next = startDecode();
+      while (next) {
+        const decoded = await next;
+        next = startDecode();
+        if (decoded instanceof Error) continue;
+        if (signal.aborted) break;
+        try {
+          await analyzeDecoded(decoded);
+        } catch (e) {
+          if (isAnalysisCancelled(e)) break;
+          const msg = e instanceof Error ? e.message : '解析に失敗しました';
+          patchItem(decoded.item.id, { status: 'error', error: msg });
+        }
       }
-    }
+    };
+
+    const lanes = Math.max(1, Math.min(concurrency, queue.length));
+    await Promise.all(Array.from({ length: lanes }, lane));
 
+    if (controllerRef.current === controller) {
+      controllerRef.current = null;
+      setIsRunning(false);
+    }
+    // 並列用に起動した Worker を解放
+    analysisPool.trim(1);
+  }, [concurrency]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // 実行中のジョブを中断し、途中の曲は待機中に戻す
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    updateItems(prev => prev.map(i => i.status === 'decoding' || i.status === 'queued' || i.status === 'analyzing'
+      ? { ...i, status: 'pending', progress: 0 }
+      : i
+    ));
     setIsRunning(false);
   }, []);
 
+  // 実行中のジョブも含めて中断する
   const clear = useCallback(() => {
-    abortRef.current = true;
+    controllerRef.current?.abort();
+    controllerRef.current = null;
     updateItems(() => []);
     setIsRunning(false);
   }, []);
@@ -133,5 +188,8 @@ export function useBatchAnalysis() {
   const doneCount = items.filter(i => i.status === 'done').length;
   const errorCount = items.filter(i => i.status === 'error').length;
 
-  return { items, isRunning, addFiles, startAnalysis, clear, removeItem, doneCount, errorCount, maxFiles: MAX_FILES };
+  return {
+    items, isRunning, addFiles, startAnalysis, stop, clear, removeItem, doneCount, errorCount,
+    concurrency, setConcurrency, maxConcurrency: maxPoolSize(), maxFiles: MAX_FILES,
+  };
 }
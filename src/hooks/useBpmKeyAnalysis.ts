@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { AudioAnalyzer } from '../analysis/analyzer';
+import { AudioAnalyzer, isAnalysisCancelled } from '../analysis/analyzer';
 import type { BpmKeyResult, ProgressState } from '../analysis/types';
 
 export function useBpmKeyAnalysis() {
@@ -12,6 +12,7 @@ export function useBpmKeyAnalysis() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const analyzerRef = useRef<AudioAnalyzer | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
 
   function getAnalyzer() {
     if (!analyzerRef.current) {
@@ -27,9 +28,14 @@ export function useBpmKeyAnalysis() {
 
   useEffect(() => {
     getAnalyzer().init();
+    return () => controllerRef.current?.abort();
   }, []);
 
   const analyze = useCallback(async (audioData: Float32Array, sampleRate: number) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
     setIsAnalyzing(true);
     setError(null);
     setResult(null);
@@ -40,17 +46,30 @@ export function useBpmKeyAnalysis() {
     try {
       await analyzer.init();
       setProgress({ phase: 'phase1', percent: 5, label: 'BPM/Key解析開始...' });
-      const bpmKeyResult = await analyzer.analyzeBpmKey(audioData, sampleRate);
+      const bpmKeyResult = await analyzer.analyzeBpmKey(audioData, sampleRate, { signal: controller.signal });
       setResult(bpmKeyResult);
       setProgress({ phase: 'done', percent: 100, label: '解析完了' });
     } catch (e) {
+      if (isAnalysisCancelled(e)) {
+        if (controllerRef.current === controller) {
+          setProgress({ phase: 'cancelled', percent: 0, label: e.message });
+        }
+        return;
+      }
       const msg = e instanceof Error ? e.message : 'BPM/Key解析に失敗しました';
       setError(msg);
       setProgress({ phase: 'error', percent: 0, label: msg });
     } finally {
-      setIsAnalyzing(false);
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsAnalyzing(false);
+      }
     }
   }, []);
 
-  return { progress, result, isAnalyzing, error, analyze };
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { progress, result, isAnalyzing, error, analyze, cancel };
 }
@@ -0,0 +1,72 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+const OVERRIDES_KEY = 'nx-bpm-overrides';
+
+/** ファイルごとにユーザーが確定した BPM（候補から選んだ値・タップテンポ） */
+export type BpmOverrides = Record<string, number>;
+
+function loadOverrides(): BpmOverrides {
+  try {
+    const raw = localStorage.getItem(OVERRIDES_KEY);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter((e): e is [string, number] => typeof e[1] === 'number' && e[1] > 0),
+    );
+  } catch {
+    return {};
+  }
+}
+
+function persist(next: BpmOverrides) {
+  try {
+    localStorage.setItem(OVERRIDES_KEY, JSON.stringify(next));
+  } catch { /* storage unavailable — keep in memory only */ }
+}
+
+// モジュール単位のストア — BPM タブで確定した値をバッチ表などからも参照する
+let state: BpmOverrides = loadOverrides();
+const listeners = new Set<() => void>();
+
+function setState(next: BpmOverrides) {
+  state = next;
+  persist(next);
+  listeners.forEach(l => l());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function getSnapshot() {
+  return state;
+}
+
+/** 同じファイルを別のタブ・次回の起動で開いても対応が取れるよう、名前とサイズで識別する */
+export function bpmOverrideKey(file: File): string {
+  return `${file.name}:${file.size}`;
+}
+
+/** 上書きがあればそれを、無ければ検出値を返す */
+export function effectiveBpm(detected: number, override: number | null | undefined): number {
+  return override != null && override > 0 ? override : detected;
+}
+
+export function useBpmOverrides() {
+  const overrides = useSyncExternalStore(subscribe, getSnapshot);
+
+  const getOverride = useCallback((file: File | null) => (file ? overrides[bpmOverrideKey(file)] ?? null : null), [overrides]);
+
+  /** bpm に null を渡すと上書きを解除して検出値に戻す */
+  const setOverride = useCallback((file: File, bpm: number | null) => {
+    const key = bpmOverrideKey(file);
+    const next = { ...state };
+    if (bpm != null && bpm > 0) next[key] = bpm;
+    else delete next[key];
+    setState(next);
+  }, []);
+
+  return { getOverride, setOverride };
+}
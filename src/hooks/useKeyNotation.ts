@@ -0,0 +1,39 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { KEY_NOTATIONS, type KeyNotation } from '../analysis/keyNotation';
+
+const NOTATION_KEY = 'nx-key-notation';
+
+function loadNotation(): KeyNotation {
+  try {
+    const saved = localStorage.getItem(NOTATION_KEY);
+    if (KEY_NOTATIONS.some(n => n.id === saved)) return saved as KeyNotation;
+  } catch { /* storage unavailable */ }
+  return 'standard';
+}
+
+// モジュール単位のストア — キー表記の好みを次回の起動にも引き継ぐ
+let state: KeyNotation = loadNotation();
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function getSnapshot() {
+  return state;
+}
+
+export function useKeyNotation() {
+  const notation = useSyncExternalStore(subscribe, getSnapshot);
+
+  const setNotation = useCallback((next: KeyNotation) => {
+    state = next;
+    try {
+      localStorage.setItem(NOTATION_KEY, next);
+    } catch { /* storage unavailable — keep in memory only */ }
+    listeners.forEach(l => l());
+  }, []);
+
+  return { notation, setNotation };
+}
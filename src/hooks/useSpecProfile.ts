@@ -0,0 +1,147 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  BUILTIN_PROFILES, DEFAULT_DETECTION, DEFAULT_PROFILE_ID, DETECTION_PARAM_IDS, SPEC_METRICS, SPEC_METRIC_IDS,
+  type Severity, type SpecProfile, type SpecRule,
+} from '../analysis/spec';
+import type { DetectionParams } from '../analysis/types';
+
+const PROFILES_KEY = 'nx-spec-profiles';
+const SELECTED_KEY = 'nx-spec-profile';
+
+interface SpecProfileState {
+  profiles: SpecProfile[];
+  selectedId: string;
+}
+
+function toSeverity(v: unknown): Severity {
+  return v === 'danger' ? 'danger' : 'warning';
+}
+
+function toBound(v: unknown): number | null | undefined {
+  if (v == null) return null;
+  return typeof v === 'number' && isFinite(v) ? v : undefined;
+}
+
+/** メトリクスの種類と合わない・値が壊れたルールは捨てる（判定しない扱い） */
+function normalizeRules(raw: unknown): SpecProfile['rules'] {
+  if (typeof raw !== 'object' || raw === null) return {};
+  const source = raw as Record<string, unknown>;
+  const rules: SpecProfile['rules'] = {};
+  for (const metric of SPEC_METRIC_IDS) {
+    const r = source[metric] as Record<string, unknown> | null | undefined;
+    if (typeof r !== 'object' || r === null || r.kind !== SPEC_METRICS[metric].kind) continue;
+    let rule: SpecRule;
+    if (r.kind === 'range') {
+      const min = toBound(r.min);
+      const max = toBound(r.max);
+      if (min === undefined || max === undefined) continue;
+      rule = { kind: 'range', min, max, belowSeverity: toSeverity(r.belowSeverity), aboveSeverity: toSeverity(r.aboveSeverity) };
+    } else {
+      if (!Array.isArray(r.values)) continue;
+      rule = { kind: 'allowed', values: r.values.filter((v): v is string => typeof v === 'string'), severity: toSeverity(r.severity) };
+    }
+    rules[metric] = rule;
+  }
+  return rules;
+}
+
+/** 保存時に無かった・数値でない検出パラメータは既定値で補う */
+function normalizeDetection(raw: unknown): DetectionParams {
+  const source = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const detection = { ...DEFAULT_DETECTION };
+  for (const param of DETECTION_PARAM_IDS) {
+    const v = source[param];
+    if (typeof v === 'number' && isFinite(v)) detection[param] = v;
+  }
+  return detection;
+}
+
+function loadCustomProfiles(): SpecProfile[] {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((p): p is SpecProfile => typeof p?.id === 'string' && typeof p?.name === 'string')
+      .map(p => ({ id: p.id, name: p.name, builtin: false, rules: normalizeRules(p.rules), detection: normalizeDetection(p.detection) }));
+  } catch {
+    return [];
+  }
+}
+
+function loadState(): SpecProfileState {
+  const profiles = [...BUILTIN_PROFILES, ...loadCustomProfiles()];
+  let selectedId = DEFAULT_PROFILE_ID;
+  try {
+    selectedId = localStorage.getItem(SELECTED_KEY) ?? DEFAULT_PROFILE_ID;
+  } catch { /* storage unavailable */ }
+  if (!profiles.some(p => p.id === selectedId)) selectedId = DEFAULT_PROFILE_ID;
+  return { profiles, selectedId };
+}
+
+function persist(next: SpecProfileState) {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(next.profiles.filter(p => !p.builtin)));
+    localStorage.setItem(SELECTED_KEY, next.selectedId);
+  } catch { /* storage unavailable — keep in memory only */ }
+}
+
+// モジュール単位のストア — 全ビューで同じプロファイルを参照する
+let state: SpecProfileState = loadState();
+const listeners = new Set<() => void>();
+
+function setState(next: SpecProfileState) {
+  state = next;
+  persist(next);
+  listeners.forEach(l => l());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function getSnapshot() {
+  return state;
+}
+
+/** React 外（解析フック等）から現在のプロファイルを取得する */
+export function getActiveSpecProfile(): SpecProfile {
+  return state.profiles.find(p => p.id === state.selectedId) ?? BUILTIN_PROFILES[0];
+}
+
+export function createProfileId(): string {
+  return `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function useSpecProfile() {
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot);
+  const profile = snapshot.profiles.find(p => p.id === snapshot.selectedId) ?? BUILTIN_PROFILES[0];
+
+  const selectProfile = useCallback((id: string) => {
+    if (!state.profiles.some(p => p.id === id)) return;
+    setState({ ...state, selectedId: id });
+  }, []);
+
+  // ユーザー定義プロファイルの追加・更新（組み込みは上書き不可）
+  const saveProfile = useCallback((next: SpecProfile) => {
+    const existing = state.profiles.find(p => p.id === next.id);
+    if (existing?.builtin) return;
+    const saved: SpecProfile = { ...next, builtin: false };
+    const profiles = existing
+      ? state.profiles.map(p => p.id === saved.id ? saved : p)
+      : [...state.profiles, saved];
+    setState({ profiles, selectedId: saved.id });
+  }, []);
+
+  const deleteProfile = useCallback((id: string) => {
+    const target = state.profiles.find(p => p.id === id);
+    if (!target || target.builtin) return;
+    const profiles = state.profiles.filter(p => p.id !== id);
+    const selectedId = state.selectedId === id ? DEFAULT_PROFILE_ID : state.selectedId;
+    setState({ profiles, selectedId });
+  }, []);
+
+  return { profile, profiles: snapshot.profiles, selectProfile, saveProfile, deleteProfile };
+}
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AudioAnalyzer, isAnalysisCancelled } from '../analysis/analyzer';
+import type { ProgressState, SpectrogramParams, SpectrogramResult } from '../analysis/types';
+
+export const DEFAULT_SPECTROGRAM_PARAMS: SpectrogramParams = {
+  fftSize: 2048,
+  hopSize: 512,
+  scale: 'log',
+  bins: 256,
+};
+
+export function useSpectrogram() {
+  const [progress, setProgress] = useState<ProgressState>({
+    phase: 'init',
+    percent: 0,
+    label: '',
+  });
+  const [params, setParamsState] = useState<SpectrogramParams>(DEFAULT_SPECTROGRAM_PARAMS);
+  const [result, setResult] = useState<SpectrogramResult | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const analyzerRef = useRef<AudioAnalyzer | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  // パラメータ変更時に同じ音声で再計算するため、最後の入力を保持する
+  const inputRef = useRef<{ audioData: Float32Array; sampleRate: number } | null>(null);
+  const paramsRef = useRef<SpectrogramParams>(DEFAULT_SPECTROGRAM_PARAMS);
+
+  function getAnalyzer() {
+    if (!analyzerRef.current) {
+      analyzerRef.current = new AudioAnalyzer(
+        (phase, percent, label) => {
+          setProgress({ phase: phase as ProgressState['phase'], percent, label });
+        },
+        () => {},
+      );
+    }
+    return analyzerRef.current;
+  }
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const run = useCallback(async (audioData: Float32Array, sampleRate: number, runParams: SpectrogramParams) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setIsAnalyzing(true);
+    setError(null);
+    setProgress({ phase: 'phase1', percent: 0, label: 'スペクトログラム計算中...' });
+
+    try {
+      await getAnalyzer().init();
+      const spectrogram = await getAnalyzer().analyzeSpectrogram(audioData, sampleRate, runParams, { signal: controller.signal });
+      setResult(spectrogram);
+      setProgress({ phase: 'done', percent: 100, label: '計算完了' });
+    } catch (e) {
+      if (isAnalysisCancelled(e)) {
+        if (controllerRef.current === controller) {
+          setProgress({ phase: 'cancelled', percent: 0, label: e.message });
+        }
+        return;
+      }
+      const msg = e instanceof Error ? e.message : 'スペクトログラムの計算に失敗しました';
+      setError(msg);
+      setProgress({ phase: 'error', percent: 0, label: msg });
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsAnalyzing(false);
+      }
+    }
+  }, []);
+
+  const analyze = useCallback((audioData: Float32Array, sampleRate: number) => {
+    inputRef.current = { audioData, sampleRate };
+    setResult(null);
+    return run(audioData, sampleRate, paramsRef.current);
+  }, [run]);
+
+  // 表示中の結果は再計算が終わるまで残す（切り替え中に空白にならないように）
+  const setParams = useCallback((next: SpectrogramParams) => {
+    paramsRef.current = next;
+    setParamsState(next);
+    const input = inputRef.current;
+    if (input) run(input.audioData, input.sampleRate, next);
+  }, [run]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { progress, params, setParams, result, isAnalyzing, error, analyze, cancel };
+}
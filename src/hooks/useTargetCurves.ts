@@ -0,0 +1,93 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { BUILTIN_TARGET_CURVES, DEFAULT_TARGET_CURVE_ID, type TargetCurve } from '../analysis/tonalBalance';
+
+const CURVES_KEY = 'nx-target-curves';
+const SELECTED_KEY = 'nx-target-curve';
+
+interface TargetCurveState {
+  curves: TargetCurve[];
+  selectedId: string;
+}
+
+function loadCustomCurves(): TargetCurve[] {
+  try {
+    const raw = localStorage.getItem(CURVES_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((c): c is TargetCurve => typeof c?.id === 'string' && typeof c?.name === 'string' && Array.isArray(c?.levels))
+      .map(c => ({ ...c, builtin: false }));
+  } catch {
+    return [];
+  }
+}
+
+function loadState(): TargetCurveState {
+  const curves = [...BUILTIN_TARGET_CURVES, ...loadCustomCurves()];
+  let selectedId = DEFAULT_TARGET_CURVE_ID;
+  try {
+    selectedId = localStorage.getItem(SELECTED_KEY) ?? DEFAULT_TARGET_CURVE_ID;
+  } catch { /* storage unavailable */ }
+  if (!curves.some(c => c.id === selectedId)) selectedId = DEFAULT_TARGET_CURVE_ID;
+  return { curves, selectedId };
+}
+
+function persist(next: TargetCurveState) {
+  try {
+    localStorage.setItem(CURVES_KEY, JSON.stringify(next.curves.filter(c => !c.builtin)));
+    localStorage.setItem(SELECTED_KEY, next.selectedId);
+  } catch { /* storage unavailable — keep in memory only */ }
+}
+
+// モジュール単位のストア — リファレンス比較で保存したカーブを詳細ビューから選べるようにする
+let state: TargetCurveState = loadState();
+const listeners = new Set<() => void>();
+
+function setState(next: TargetCurveState) {
+  state = next;
+  persist(next);
+  listeners.forEach(l => l());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function getSnapshot() {
+  return state;
+}
+
+export function createCurveId(): string {
+  return `curve-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function useTargetCurves() {
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot);
+  const curve = snapshot.curves.find(c => c.id === snapshot.selectedId) ?? BUILTIN_TARGET_CURVES[0];
+
+  const selectCurve = useCallback((id: string) => {
+    if (!state.curves.some(c => c.id === id)) return;
+    setState({ ...state, selectedId: id });
+  }, []);
+
+  // リファレンス曲から作ったカーブを追加して選択する
+  const saveCurve = useCallback((next: TargetCurve) => {
+    const saved: TargetCurve = { ...next, builtin: false };
+    const curves = state.curves.some(c => c.id === saved.id)
+      ? state.curves.map(c => c.id === saved.id ? saved : c)
+      : [...state.curves, saved];
+    setState({ curves, selectedId: saved.id });
+  }, []);
+
+  const deleteCurve = useCallback((id: string) => {
+    const target = state.curves.find(c => c.id === id);
+    if (!target || target.builtin) return;
+    const curves = state.curves.filter(c => c.id !== id);
+    const selectedId = state.selectedId === id ? DEFAULT_TARGET_CURVE_ID : state.selectedId;
+    setState({ curves, selectedId });
+  }, []);
+
+  return { curve, curves: snapshot.curves, selectCurve, saveCurve, deleteCurve };
+}
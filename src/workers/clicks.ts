@@ -0,0 +1,124 @@
+// クリック / ポップ検出: 2 階差分（高域だけを残す簡易ハイパス）の突出を探す
+// 編集点の段差やバッファ落ちは 1〜数サンプルの尖りになり、周囲の高域成分から大きく外れる
+import type { ClickEvent, ClickResult } from '../analysis/types';
+
+// 差分を集計するブロック（この中で最大の 1 点を候補にする）
+const BLOCK_SEC = 0.01;
+// 背景レベル = 前後のブロックの RMS の中央値（クリック自身の影響を受けないように）
+const BACKGROUND_BLOCKS = 25;
+// 候補点の前後このサンプル数はブロック内 RMS から除く
+const PEAK_EXCLUDE = 2;
+// 小さすぎる段差は聞こえないので数えない（2 階差分の絶対値）
+const MIN_AMPLITUDE = 0.01;
+// しきい値をこれだけ上回ったら danger
+const DANGER_MARGIN_DB = 12;
+// 同じチャンネルでこの間隔以内の候補は 1 件にまとめる
+const MERGE_SEC = 0.02;
+const MAX_REPORTED_CLICKS = 200;
+// 背景が完全な無音のときのゼロ割り防止
+const SILENT_BACKGROUND = 1e-6;
+
+function toDb(ratio: number): number {
+  return 20 * Math.log10(ratio);
+}
+
+function median(values: Float32Array): number {
+  const sorted = Float32Array.from(values).sort();
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function secondDiff(samples: Float32Array, i: number): number {
+  return i >= 2 && i < samples.length ? samples[i] - 2 * samples[i - 1] + samples[i - 2] : 0;
+}
+
+/** ClipDetector と同じく addChannel() でチャンネルを 1 本ずつ流し、result() で集計する */
+export class ClickDetector {
+  private readonly sampleRate: number;
+  private readonly threshold: number;
+  private events: ClickEvent[] = [];
+  private channelCount = 0;
+
+  constructor(sampleRate: number, thresholdDB: number) {
+    this.sampleRate = sampleRate;
+    this.threshold = thresholdDB;
+  }
+
+  addChannel(samples: Float32Array) {
+    const channel = this.channelCount++;
+    const blockSize = Math.max(PEAK_EXCLUDE * 4, Math.round(this.sampleRate * BLOCK_SEC));
+    const blockCount = Math.ceil(samples.length / blockSize);
+    const blockRms = new Float32Array(blockCount);
+    const peakValue = new Float32Array(blockCount);
+    const peakIndex = new Int32Array(blockCount);
+    // ピーク付近を除いた RMS。ハイハット等の広帯域な音はブロック全体が大きく、ここで弾かれる
+    const residualRms = new Float32Array(blockCount);
+
+    for (let b = 0; b < blockCount; b++) {
+      const start = b * blockSize;
+      const end = Math.min(samples.length, start + blockSize);
+      let sumSq = 0;
+      let peak = 0;
+      let peakAt = start;
+      for (let i = start; i < end; i++) {
+        const d = secondDiff(samples, i);
+        sumSq += d * d;
+        const abs = Math.abs(d);
+        if (abs > peak) {
+          peak = abs;
+          peakAt = i;
+        }
+      }
+      let excluded = 0;
+      let excludedCount = 0;
+      for (let i = Math.max(start, peakAt - PEAK_EXCLUDE); i <= Math.min(end - 1, peakAt + PEAK_EXCLUDE); i++) {
+        const d = secondDiff(samples, i);
+        excluded += d * d;
+        excludedCount++;
+      }
+      const n = end - start;
+      blockRms[b] = Math.sqrt(sumSq / n);
+      residualRms[b] = n > excludedCount ? Math.sqrt(Math.max(0, sumSq - excluded) / (n - excludedCount)) : 0;
+      peakValue[b] = peak;
+      peakIndex[b] = peakAt;
+    }
+
+    const mergeGap = Math.round(this.sampleRate * MERGE_SEC);
+    let last: { event: ClickEvent; index: number } | null = null;
+    for (let b = 0; b < blockCount; b++) {
+      const peak = peakValue[b];
+      if (peak < MIN_AMPLITUDE) continue;
+      const lo = Math.max(0, b - BACKGROUND_BLOCKS);
+      const hi = Math.min(blockCount, b + BACKGROUND_BLOCKS + 1);
+      const background = Math.max(median(blockRms.subarray(lo, hi)), residualRms[b], SILENT_BACKGROUND);
+      const strength = toDb(peak / background);
+      if (strength < this.threshold) continue;
+
+      const index = peakIndex[b];
+      const event: ClickEvent = {
+        time: index / this.sampleRate,
+        channel,
+        strength,
+        severity: strength >= this.threshold + DANGER_MARGIN_DB ? 'danger' : 'warning',
+      };
+      if (last && index - last.index <= mergeGap) {
+        if (strength > last.event.strength) Object.assign(last.event, event);
+        last.index = index;
+        continue;
+      }
+      this.events.push(event);
+      last = { event, index };
+    }
+  }
+
+  result(): ClickResult {
+    return {
+      threshold: this.threshold,
+      count: this.events.length,
+      dangerCount: this.events.filter(e => e.severity === 'danger').length,
+      events: [...this.events]
+        .sort((a, b) => a.time - b.time || a.channel - b.channel)
+        .slice(0, MAX_REPORTED_CLICKS),
+    };
+  }
+}
@@ -0,0 +1,70 @@
+// クリップ検出: 判定レベル以上のサンプルが minRun 個以上連続した箇所を 1 件として数える
+import type { ClipEvent, ClippingResult } from '../analysis/types';
+
+// 波形マーカー・一覧用に返す件数の上限（先頭から。件数・合計時間は全件で集計する）
+const MAX_REPORTED_CLIPS = 500;
+
+/** TruePeakMeter と同じく addChannel() でチャンネルを 1 本ずつ流し、result() で集計する */
+export class ClipDetector {
+  private readonly sampleRate: number;
+  private readonly level: number;
+  private readonly levelLinear: number;
+  private readonly minRun: number;
+  private events: ClipEvent[] = [];
+  private channelCounts: number[] = [];
+  private count = 0;
+  private clippedSamples = 0;
+
+  constructor(sampleRate: number, levelDBFS: number, minRun: number) {
+    this.sampleRate = sampleRate;
+    this.level = levelDBFS;
+    this.levelLinear = Math.pow(10, levelDBFS / 20);
+    this.minRun = Math.max(1, Math.round(minRun));
+  }
+
+  addChannel(samples: Float32Array) {
+    const channel = this.channelCounts.length;
+    let channelCount = 0;
+    let runStart = -1;
+
+    const close = (end: number) => {
+      const length = end - runStart;
+      if (length >= this.minRun) {
+        channelCount++;
+        this.clippedSamples += length;
+        this.events.push({
+          time: runStart / this.sampleRate,
+          duration: length / this.sampleRate,
+          channel,
+          samples: length,
+        });
+      }
+      runStart = -1;
+    };
+
+    for (let i = 0; i < samples.length; i++) {
+      if (Math.abs(samples[i]) >= this.levelLinear) {
+        if (runStart < 0) runStart = i;
+      } else if (runStart >= 0) {
+        close(i);
+      }
+    }
+    if (runStart >= 0) close(samples.length);
+
+    this.channelCounts.push(channelCount);
+    this.count += channelCount;
+  }
+
+  result(): ClippingResult {
+    return {
+      level: this.level,
+      minRun: this.minRun,
+      count: this.count,
+      totalDuration: this.clippedSamples / this.sampleRate,
+      channelCounts: this.channelCounts,
+      events: [...this.events]
+        .sort((a, b) => a.time - b.time || a.channel - b.channel)
+        .slice(0, MAX_REPORTED_CLIPS),
+    };
+  }
+}
@@ -0,0 +1,74 @@
+// ダイナミクス指標: TT Dynamic Range 方式の DR 値と、short-term 窓ごとの PSR
+import { SHORT_TERM_BLOCKS } from './loudness';
+
+// DR: 3 秒ブロックのうち RMS の大きい上位 20% を「ラウドな部分」とみなす
+const DR_BLOCK_SEC = 3;
+const DR_LOUD_FRACTION = 0.2;
+// PSR を求めない（ゲートする）short-term ラウドネス
+const PSR_GATE_LUFS = -70;
+
+function toDb(linear: number): number {
+  return linear > 0 ? 20 * Math.log10(linear) : -Infinity;
+}
+
+/**
+ * TT DR Meter と同じ手順: ブロックごとの RMS（正弦波が 0 dBFS になるよう √2 倍）とピークを取り、
+ * 上位 20% のブロックの RMS と 2 番目に大きいピークの比をチャンネルごとに求め、平均して丸める
+ */
+export class DynamicRangeMeter {
+  private readonly blockSize: number;
+  private channelValues: number[] = [];
+
+  constructor(sampleRate: number) {
+    this.blockSize = Math.max(1, Math.round(sampleRate * DR_BLOCK_SEC));
+  }
+
+  addChannel(samples: Float32Array) {
+    const rms: number[] = [];
+    let peak1 = 0;
+    let peak2 = 0;
+    for (let start = 0; start < samples.length; start += this.blockSize) {
+      const end = Math.min(samples.length, start + this.blockSize);
+      let sumSq = 0;
+      let peak = 0;
+      for (let i = start; i < end; i++) {
+        const x = samples[i];
+        sumSq += x * x;
+        const abs = Math.abs(x);
+        if (abs > peak) peak = abs;
+      }
+      rms.push(Math.sqrt((2 * sumSq) / (end - start)));
+      if (peak > peak1) {
+        peak2 = peak1;
+        peak1 = peak;
+      } else if (peak > peak2) {
+        peak2 = peak;
+      }
+    }
+    // ブロックが 1 つしかない短い素材は 2 番目のピークが無いので最大ピークを使う
+    const refPeak = peak2 > 0 ? peak2 : peak1;
+    const loud = rms.sort((a, b) => b - a).slice(0, Math.max(1, Math.round(rms.length * DR_LOUD_FRACTION)));
+    const loudRms = Math.sqrt(loud.reduce((sum, r) => sum + r * r, 0) / loud.length);
+    this.channelValues.push(loudRms > 0 && refPeak > 0 ? toDb(refPeak / loudRms) : 0);
+  }
+
+  result(): { dr: number; channels: number[] } {
+    const n = this.channelValues.length;
+    const mean = n > 0 ? this.channelValues.reduce((a, b) => a + b, 0) / n : 0;
+    return { dr: Math.round(mean), channels: this.channelValues };
+  }
+}
+
+/**
+ * short-term ラウドネスと同じ窓（100ms hop・3 秒）の PSR = 窓内の True Peak − Short-term。
+ * blockPeaks は TruePeakMeter.blockPeaks()（100ms ごと・全チャンネルの最大）。ゲートした窓は NaN
+ */
+export function psrSeries(shortTerm: number[], blockPeaks: Float64Array): number[] {
+  return shortTerm.map((lufs, i) => {
+    if (!(lufs > PSR_GATE_LUFS)) return NaN;
+    let peak = 0;
+    const end = Math.min(blockPeaks.length, i + SHORT_TERM_BLOCKS);
+    for (let b = i; b < end; b++) if (blockPeaks[b] > peak) peak = blockPeaks[b];
+    return peak > 0 ? toDb(peak) - lufs : NaN;
+  });
+}
@@ -1,4 +1,24 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import type {
+  AnalysisResult, BeatGrid, BpmKeyResult, ChannelBalance, ChannelDcOffset, ChannelLevel, DetectionParams, DynamicsResult, KeyCandidate, KeyTimeline, MonoFoldBand, MonoFoldRegion,
+  SpectrogramParams, SpectrogramResult, SpectrumResult, StereoResult, TempoCandidate,
+  WorkerJobMessage, WorkerMessage, WorkerResponse,
+} from '../analysis/types';
+import { channelLayout } from '../analysis/channels';
+import { bandEdges, LOG_MIN_HZ, scaleEdges, THIRD_OCTAVE_CENTERS } from '../analysis/frequencyScale';
+import { estimateBeatGrid } from './beats';
+import { ClickDetector } from './clicks';
+import { ClipDetector } from './clipping';
+import { DynamicRangeMeter, psrSeries } from './dynamics';
+import { rankKeyCandidates } from './keyCandidates';
+import { measureKeyTimeline, type KeyEstimate } from './keyTimeline';
+import { measureLoudnessStats } from './loudnessStats';
+import { SilenceDetector } from './silence';
+import { measureTempoCurve, rankTempoCandidates } from './tempo';
+import { LoudnessMeter } from './loudness';
+import { MultibandStereoMeter } from './multiband';
+import { measureStereo } from './stereo';
+import { TruePeakMeter } from './truePeak';
 
 let essentia: any = null;
 let EssentiaModule: any = null;
@@ -22,304 +42,827 @@ async function initEssentia() {
   return essentia.version;
 }
 
-function postProgress(phase: string, percent: number, label: string) {
-  self.postMessage({ type: 'progress', phase, percent, label });
+function post(msg: WorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(msg, { transfer });
 }
 
-function postPartial(data: any) {
-  self.postMessage({ type: 'partial', data });
+function postProgress(jobId: number, phase: string, percent: number, label: string) {
+  post({ type: 'progress', jobId, phase, percent, label });
 }
 
-function computeTruePeak(left: Float32Array, right: Float32Array): number {
-  // 4x oversampling via cubic Hermite interpolation (ITU-R BS.1770)
-  // Only interpolate near sample-level peaks
-  let maxSample = 0;
-  const channels = [left, right];
+function postPartial(jobId: number, data: Partial<AnalysisResult>) {
+  post({ type: 'partial', jobId, data });
+}
 
-  for (const samples of channels) {
-    for (let i = 0; i < samples.length; i++) {
-      const abs = Math.abs(samples[i]);
-      if (abs > maxSample) maxSample = abs;
-    }
-  }
+// ── キャンセル ──
+// 解析は同期処理なので、チェックポイントで一度イベントループに戻して
+// cancel メッセージを受け取れるようにする
+class JobCancelled extends Error {}
+
+const cancelledJobs = new Set<number>();
+let runningJobId: number | null = null;
 
-  if (maxSample === 0) return -Infinity;
+async function checkpoint(jobId: number) {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  if (cancelledJobs.has(jobId)) throw new JobCancelled();
+}
 
-  const threshold = maxSample * 0.707;
-  let maxAbs = maxSample;
+function toDbfs(linear: number): number {
+  return linear > 0 ? 20 * Math.log10(linear) : -Infinity;
+}
 
-  for (const samples of channels) {
-    for (let i = 1; i < samples.length - 2; i++) {
-      if (Math.abs(samples[i]) < threshold && Math.abs(samples[i + 1]) < threshold) continue;
-
-      const y0 = samples[i - 1];
-      const y1 = samples[i];
-      const y2 = samples[i + 1];
-      const y3 = samples[i + 2];
-      const a = -0.5 * y0 + 1.5 * y1 - 1.5 * y2 + 0.5 * y3;
-      const b = y0 - 2.5 * y1 + 2 * y2 - 0.5 * y3;
-      const c = -0.5 * y0 + 0.5 * y2;
-      const d = y1;
-      for (const t of [0.25, 0.5, 0.75]) {
-        const val = ((a * t + b) * t + c) * t + d;
-        const abs = Math.abs(val);
-        if (abs > maxAbs) maxAbs = abs;
-      }
-    }
+function measureChannelLevel(samples: Float32Array): ChannelLevel {
+  let peak = 0;
+  let sumSq = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const v = samples[i];
+    const abs = Math.abs(v);
+    if (abs > peak) peak = abs;
+    sumSq += v * v;
   }
-  return 20 * Math.log10(maxAbs);
+  const rms = samples.length > 0 ? Math.sqrt(sumSq / samples.length) : 0;
+  return { peak: toDbfs(peak), rms: toDbfs(rms) };
 }
 
-function runAnalysis(sampleRate: number, leftChannel: Float32Array, rightChannel: Float32Array) {
-  postProgress('phase1', 5, 'LUFS解析中...');
+// 帯域分割はサンプルごとのフィルタ処理で重いので、この長さごとにキャンセルを確認する
+const MULTIBAND_CHUNK = 1 << 20;
 
-  // EBU R128 Loudness
-  const leftVector = essentia.arrayToVector(leftChannel);
-  const rightVector = essentia.arrayToVector(rightChannel);
-  let ebuResult: any = null;
-  try {
-    ebuResult = essentia.LoudnessEBUR128(leftVector, rightVector, 0.1, sampleRate, false);
-  } catch (e) {
-    console.warn('LoudnessEBUR128 failed:', e);
-  }
+async function runAnalysis(
+  jobId: number,
+  sampleRate: number,
+  channels: Float32Array[],
+  detection: DetectionParams,
+): Promise<StereoResult> {
+  postProgress(jobId, 'phase1', 5, 'LUFS解析中...');
+
+  // ステレオ系の指標は先頭 2 チャンネル（モノラルは同じ信号を L/R として扱う）
+  const leftChannel = channels[0];
+  const rightChannel = channels[1] ?? channels[0];
 
+  // EBU R128 Loudness
   let integratedLUFS = -Infinity;
   let loudnessRange = 0;
   let momentaryLoudness: number[] = [];
   let shortTermLoudness: number[] = [];
 
-  if (ebuResult) {
-    integratedLUFS = ebuResult.integratedLoudness ?? -Infinity;
-    loudnessRange = ebuResult.loudnessRange ?? 0;
-    if (ebuResult.momentaryLoudness) {
-      momentaryLoudness = Array.from(essentia.vectorToArray(ebuResult.momentaryLoudness)) as number[];
-      ebuResult.momentaryLoudness.delete();
+  if (channels.length !== 2) {
+    // Essentia はステレオ専用 — BS.1770 のチャンネル重み付きで自前計算
+    // （モノラルを L/R 両方に入れると 2 チャンネル分の和になり約 3 dB 高く出るので、重み 1.0 の 1 チャンネルで測る）
+    const layout = channelLayout(channels.length);
+    const loudnessMeter = new LoudnessMeter(sampleRate);
+    for (let i = 0; i < channels.length; i++) {
+      loudnessMeter.addChannel(channels[i], layout[i].weight);
+      await checkpoint(jobId);
     }
-    if (ebuResult.shortTermLoudness) {
-      shortTermLoudness = Array.from(essentia.vectorToArray(ebuResult.shortTermLoudness)) as number[];
-      ebuResult.shortTermLoudness.delete();
+    ({ integratedLUFS, loudnessRange, momentaryLoudness, shortTermLoudness } = loudnessMeter.result());
+  } else {
+    const leftVector = essentia.arrayToVector(leftChannel);
+    const rightVector = essentia.arrayToVector(rightChannel);
+    try {
+      let ebuResult: any = null;
+      try {
+        ebuResult = essentia.LoudnessEBUR128(leftVector, rightVector, 0.1, sampleRate, false);
+      } catch (e) {
+        console.warn('LoudnessEBUR128 failed:', e);
+      }
+
+      if (ebuResult) {
+        integratedLUFS = ebuResult.integratedLoudness ?? -Infinity;
+        loudnessRange = ebuResult.loudnessRange ?? 0;
+        if (ebuResult.momentaryLoudness) {
+          momentaryLoudness = Array.from(essentia.vectorToArray(ebuResult.momentaryLoudness)) as number[];
+          ebuResult.momentaryLoudness.delete();
+        }
+        if (ebuResult.shortTermLoudness) {
+          shortTermLoudness = Array.from(essentia.vectorToArray(ebuResult.shortTermLoudness)) as number[];
+          ebuResult.shortTermLoudness.delete();
+        }
+      }
+    } finally {
+      leftVector.delete();
+      rightVector.delete();
     }
   }
-  leftVector.delete();
-  rightVector.delete();
-
-  postProgress('phase1', 40, 'True Peak解析中...');
-
-  // True Peak (4x oversampled)
-  const truePeakDBTP = computeTruePeak(leftChannel, rightChannel);
-
-  // Stereo width (Mid/Side ratio)
-  const len = Math.min(leftChannel.length, rightChannel.length);
-  let midSumSq = 0, sideSumSq = 0;
-  for (let i = 0; i < len; i++) {
-    const mid = (leftChannel[i] + rightChannel[i]) * 0.5;
-    const side = (leftChannel[i] - rightChannel[i]) * 0.5;
-    midSumSq += mid * mid;
-    sideSumSq += side * side;
+
+  await checkpoint(jobId);
+  postProgress(jobId, 'phase1', 40, 'True Peak解析中...');
+
+  // True Peak (BS.1770-4, 4x oversampled) — LFE を含む全チャンネル
+  const meter = new TruePeakMeter(sampleRate, detection.truePeakCeiling);
+  for (const samples of channels) {
+    meter.addChannel(samples);
+    await checkpoint(jobId);
+  }
+  const truePeak = meter.result();
+  const truePeakDBTP = Math.max(...truePeak.channels);
+
+  const channelLevels = channels.map(measureChannelLevel);
+
+  // ダイナミクス（PLR / PSR / クレストファクター / DR）
+  const drMeter = new DynamicRangeMeter(sampleRate);
+  for (const samples of channels) {
+    drMeter.addChannel(samples);
+    await checkpoint(jobId);
+  }
+  const { dr, channels: drChannels } = drMeter.result();
+  const psr = psrSeries(shortTermLoudness, meter.blockPeaks());
+  const psrMax = psr.reduce((max, v) => (v > max ? v : max), -Infinity);
+  const dynamics: DynamicsResult = {
+    // 無音などで Integrated か True Peak が -∞ のときは測れない
+    plr: isFinite(integratedLUFS) && isFinite(truePeakDBTP) ? truePeakDBTP - integratedLUFS : NaN,
+    psrSeries: psr,
+    psrMax,
+    crestFactors: channelLevels.map(l => l.peak - l.rms),
+    dr,
+    drChannels,
+  };
+
+  // Stereo width (Mid/Side ratio) と L/R 相関
+  postProgress(jobId, 'phase1', 55, 'ステレオ解析中...');
+  const bandMeter = new MultibandStereoMeter(sampleRate);
+  for (let start = 0; start < leftChannel.length; start += MULTIBAND_CHUNK) {
+    bandMeter.add(leftChannel.subarray(start, start + MULTIBAND_CHUNK), rightChannel.subarray(start, start + MULTIBAND_CHUNK));
+    await checkpoint(jobId);
   }
-  const midRMS = Math.sqrt(midSumSq / len);
-  const sideRMS = Math.sqrt(sideSumSq / len);
-  const stereoWidth = midRMS > 0 ? sideRMS / midRMS : 0;
+  const stereo: StereoResult = { ...measureStereo(leftChannel, rightChannel, sampleRate), bands: bandMeter.result() };
 
-  postProgress('phase1', 70, '解析結果まとめ中...');
+  postProgress(jobId, 'phase1', 70, '解析結果まとめ中...');
 
-  postPartial({
-    loudness: { integratedLUFS, loudnessRange, truePeakDBTP, momentaryLoudness, shortTermLoudness },
-    stereo: { width: stereoWidth },
+  postPartial(jobId, {
+    loudness: {
+      integratedLUFS, loudnessRange, truePeakDBTP, truePeak, channelLevels, momentaryLoudness, shortTermLoudness,
+      stats: measureLoudnessStats(momentaryLoudness, shortTermLoudness),
+    },
+    dynamics,
+    stereo,
   });
+  return stereo;
 }
 
-function runBpmKeyAnalysis(audioData: Float32Array, sampleRate: number) {
-  postProgress('phase1', 10, 'BPM解析中...');
+const HPCP_FRAME_SIZE = 4096;
+const HPCP_HOP_SIZE = 2048;
+const HPCP_SIZE = 12;
 
-  const signal = essentia.arrayToVector(audioData);
+/** フレームごとの HPCP（HPCP_SIZE 個ずつ）を並べて返す */
+async function computeHpcpFrames(jobId: number, audioData: Float32Array, sampleRate: number): Promise<Float32Array> {
+  const numFrames = Math.max(0, Math.floor((audioData.length - HPCP_FRAME_SIZE) / HPCP_HOP_SIZE) + 1);
+  const hpcpFrames = new Float32Array(numFrames * HPCP_SIZE);
 
-  // ── BPM detection ──
-  // RhythmExtractor2013 を第一候補（信頼度付き）
-  let bpm = 0;
-  let bpmConfidence = 0;
-  try {
-    const rhythmResult = essentia.RhythmExtractor2013(signal, 208, 'multifeature', 40);
-    bpm = rhythmResult.bpm ?? 0;
-    bpmConfidence = rhythmResult.confidence ?? 0;
-    if (rhythmResult.ticks) rhythmResult.ticks.delete();
-    if (rhythmResult.estimates) rhythmResult.estimates.delete();
-    if (rhythmResult.bpmIntervals) rhythmResult.bpmIntervals.delete();
-  } catch (e) {
-    console.warn('RhythmExtractor2013 failed, trying PercivalBpmEstimator:', e);
-    try {
-      const bpmResult = essentia.PercivalBpmEstimator(signal, 1024, 2048, 128, 128, 210, 50, sampleRate);
-      bpm = bpmResult.bpm ?? 0;
-    } catch (e2) {
-      console.warn('PercivalBpmEstimator also failed:', e2);
+  for (let f = 0; f < numFrames; f++) {
+    const start = f * HPCP_HOP_SIZE;
+    const frameData = audioData.slice(start, start + HPCP_FRAME_SIZE);
+
+    // Apply Hann window
+    for (let i = 0; i < frameData.length; i++) {
+      frameData[i] *= 0.5 * (1 - Math.cos((2 * Math.PI * i) / (frameData.length - 1)));
     }
+
+    const frameVec = essentia.arrayToVector(frameData);
+    const spec = essentia.Spectrum(frameVec);
+    const peaks = essentia.SpectralPeaks(spec.spectrum);
+    const hpcp = essentia.HPCP(peaks.frequencies, peaks.magnitudes,
+      true, 500, 0, 5000, false, 40, false, 'unitMax', 440, sampleRate, HPCP_SIZE, 'squaredCosine', 1);
+
+    hpcpFrames.set(essentia.vectorToArray(hpcp.hpcp), f * HPCP_SIZE);
+
+    frameVec.delete();
+    spec.spectrum.delete();
+    peaks.frequencies.delete();
+    peaks.magnitudes.delete();
+    hpcp.hpcp.delete();
+
+    // 進捗更新（重いので間引き）
+    if (f % 50 === 0) {
+      postProgress(jobId, 'phase1', 50 + Math.round((f / numFrames) * 30), 'HPCP計算中...');
+      await checkpoint(jobId);
+    }
+  }
+  return hpcpFrames;
+}
+
+/** 平均した HPCP から Key でキーを求める */
+function estimateKey(hpcp: Float32Array): KeyEstimate {
+  const vec = essentia.arrayToVector(hpcp);
+  try {
+    const out = essentia.Key(vec, 4, 36, 'bgate', 0.6, false, true, true);
+    return { key: out.key ?? '', scale: out.scale ?? '', strength: out.strength ?? 0 };
+  } finally {
+    vec.delete();
   }
+}
 
-  postProgress('phase1', 50, 'Key解析中...');
+async function runBpmKeyAnalysis(jobId: number, audioData: Float32Array, sampleRate: number): Promise<BpmKeyResult> {
+  postProgress(jobId, 'phase1', 10, 'BPM解析中...');
 
-  // ── Key detection ──
-  // KeyExtractor: 正しいパラメータ順序で呼び出し
-  // KeyExtractor(audio, averageDetuningCorrection, frameSize, hopSize, hpcpSize,
-  //   maxFrequency, maximumSpectralPeaks, minFrequency, pcpThreshold,
-  //   profileType, sampleRate, spectralPeaksThreshold, tuningFrequency,
-  //   weightType, windowType)
+  const signal = essentia.arrayToVector(audioData);
+
+  let bpm = 0;
+  let bpmConfidence = 0;
+  let bpmCandidates: TempoCandidate[] = [];
+  let beatGrid: BeatGrid | null = null;
   let key = '';
   let scale = '';
   let keyStrength = 0;
+  let keyCandidates: KeyCandidate[] = [];
+  let keyTimeline: KeyTimeline | null = null;
+
   try {
-    const keyResult = essentia.KeyExtractor(
-      signal,
-      true,       // averageDetuningCorrection
-      4096,       // frameSize
-      4096,       // hopSize
-      12,         // hpcpSize
-      3500,       // maxFrequency
-      60,         // maximumSpectralPeaks
-      25,         // minFrequency
-      0.2,        // pcpThreshold
-      'bgate',    // profileType
-      sampleRate, // sampleRate
-      0.0001,     // spectralPeaksThreshold (was 0.5 — too high!)
-      440,        // tuningFrequency (was 500 — wrong!)
-      'cosine',   // weightType
-      'hann',     // windowType (was 'cosine' — invalid!)
-    );
-    key = keyResult.key ?? '';
-    scale = keyResult.scale ?? '';
-    keyStrength = keyResult.strength ?? 0;
-  } catch (e) {
-    console.warn('KeyExtractor failed, trying frame-by-frame HPCP+Key:', e);
+    // ── BPM detection ──
+    // RhythmExtractor2013 を第一候補（信頼度付き）
+    let estimates: number[] = [];
     try {
-      // Fallback: フレーム単位で HPCP を計算して平均 → Key
-      const frameSize = 4096;
-      const hopSize = 2048;
-      const numFrames = Math.floor((audioData.length - frameSize) / hopSize) + 1;
-      const hpcpSize = 12;
-      const avgHpcp = new Float32Array(hpcpSize);
-      let validFrames = 0;
-
-      for (let f = 0; f < numFrames; f++) {
-        const start = f * hopSize;
-        const frameData = audioData.slice(start, start + frameSize);
-
-        // Apply Hann window
-        for (let i = 0; i < frameData.length; i++) {
-          frameData[i] *= 0.5 * (1 - Math.cos((2 * Math.PI * i) / (frameData.length - 1)));
-        }
+      const rhythmResult = essentia.RhythmExtractor2013(signal, 208, 'multifeature', 40);
+      bpm = rhythmResult.bpm ?? 0;
+      bpmConfidence = rhythmResult.confidence ?? 0;
+      if (rhythmResult.ticks) {
+        beatGrid = estimateBeatGrid(essentia.vectorToArray(rhythmResult.ticks), audioData, sampleRate);
+        rhythmResult.ticks.delete();
+      }
+      if (rhythmResult.estimates) {
+        estimates = Array.from(essentia.vectorToArray(rhythmResult.estimates));
+        rhythmResult.estimates.delete();
+      }
+      if (rhythmResult.bpmIntervals) rhythmResult.bpmIntervals.delete();
+    } catch (e) {
+      console.warn('RhythmExtractor2013 failed, trying PercivalBpmEstimator:', e);
+    }
 
-        const frameVec = essentia.arrayToVector(frameData);
-        const spec = essentia.Spectrum(frameVec);
-        const peaks = essentia.SpectralPeaks(spec.spectrum);
-        const hpcp = essentia.HPCP(peaks.frequencies, peaks.magnitudes,
-          true, 500, 0, 5000, false, 40, false, 'unitMax', 440, sampleRate, hpcpSize, 'squaredCosine', 1);
+    await checkpoint(jobId);
 
-        const hpcpArr = essentia.vectorToArray(hpcp.hpcp);
-        for (let i = 0; i < hpcpSize; i++) {
-          avgHpcp[i] += hpcpArr[i];
-        }
-        validFrames++;
+    // PercivalBpmEstimator は RhythmExtractor2013 が失敗したときの代わり兼、候補の別の票
+    let percival: number | null = null;
+    try {
+      const bpmResult = essentia.PercivalBpmEstimator(signal, 1024, 2048, 128, 128, 210, 50, sampleRate);
+      percival = bpmResult.bpm > 0 ? bpmResult.bpm : null;
+    } catch (e) {
+      console.warn('PercivalBpmEstimator failed:', e);
+    }
+    // 候補は RhythmExtractor2013 の値（失敗時は 0）で順位付けし、Percival の票が二重に数えられないようにする
+    bpmCandidates = rankTempoCandidates(bpm, estimates, percival);
+    if (bpm <= 0 && percival) bpm = percival;
 
-        frameVec.delete();
-        spec.spectrum.delete();
-        peaks.frequencies.delete();
-        peaks.magnitudes.delete();
-        hpcp.hpcp.delete();
+    await checkpoint(jobId);
+    postProgress(jobId, 'phase1', 50, 'Key解析中...');
 
-        // 進捗更新（重いので間引き）
-        if (f % 50 === 0) {
-          postProgress('phase1', 50 + Math.round((f / numFrames) * 30), 'HPCP計算中...');
+    // ── Key timeline / candidates ──
+    // フレーム単位の HPCP を窓で平均してキーの変化を追う。全フレームの平均を 24 キーで採点し、
+    // 1 位を曲全体のキーとする（キーと候補を同じ HPCP・プロファイルで出し、食い違わないようにする）
+    try {
+      const hpcpFrames = await computeHpcpFrames(jobId, audioData, sampleRate);
+      const frameRate = sampleRate / HPCP_HOP_SIZE;
+      keyTimeline = measureKeyTimeline(hpcpFrames, HPCP_SIZE, frameRate, audioData.length / sampleRate, estimateKey);
+
+      const frames = hpcpFrames.length / HPCP_SIZE;
+      if (frames > 0) {
+        const avgHpcp = new Float32Array(HPCP_SIZE);
+        for (let f = 0; f < frames; f++) {
+          for (let i = 0; i < HPCP_SIZE; i++) avgHpcp[i] += hpcpFrames[f * HPCP_SIZE + i];
         }
+        for (let i = 0; i < HPCP_SIZE; i++) avgHpcp[i] /= frames;
+        keyCandidates = rankKeyCandidates(avgHpcp);
+        if (keyCandidates.length > 0) ({ key, scale, score: keyStrength } = keyCandidates[0]);
       }
+    } catch (e) {
+      if (e instanceof JobCancelled) throw e;
+      console.warn('Frame-by-frame HPCP+Key failed, falling back to KeyExtractor:', e);
+    }
+
+    // ── Key detection（HPCP が取れなかったときの代わり） ──
+    // KeyExtractor: 正しいパラメータ順序で呼び出し
+    // KeyExtractor(audio, averageDetuningCorrection, frameSize, hopSize, hpcpSize,
+    //   maxFrequency, maximumSpectralPeaks, minFrequency, pcpThreshold,
+    //   profileType, sampleRate, spectralPeaksThreshold, tuningFrequency,
+    //   weightType, windowType)
+    if (!key) {
+      try {
+        const keyResult = essentia.KeyExtractor(
+          signal,
+          true,       // averageDetuningCorrection
+          4096,       // frameSize
+          4096,       // hopSize
+          12,         // hpcpSize
+          3500,       // maxFrequency
+          60,         // maximumSpectralPeaks
+          25,         // minFrequency
+          0.2,        // pcpThreshold
+          'bgate',    // profileType
+          sampleRate, // sampleRate
+          0.0001,     // spectralPeaksThreshold (was 0.5 — too high!)
+          440,        // tuningFrequency (was 500 — wrong!)
+          'cosine',   // weightType
+          'hann',     // windowType (was 'cosine' — invalid!)
+        );
+        key = keyResult.key ?? '';
+        scale = keyResult.scale ?? '';
+        keyStrength = keyResult.strength ?? 0;
+      } catch (e) {
+        console.warn('KeyExtractor failed:', e);
+      }
+    }
+  } finally {
+    signal.delete();
+  }
+
+  postProgress(jobId, 'phase1', 90, '結果まとめ中...');
+
+  const tempo = beatGrid ? measureTempoCurve(beatGrid.beats, audioData.length / sampleRate) : null;
+
+  return { bpm, bpmConfidence, bpmCandidates, beatGrid, tempo, key, scale, keyStrength, keyCandidates, keyTimeline };
+}
 
-      if (validFrames > 0) {
-        for (let i = 0; i < hpcpSize; i++) {
-          avgHpcp[i] /= validFrames;
+// 長尺でもメモリを食い過ぎないよう、フレーム数が上限を超える場合はホップを広げる
+const MAX_SPECTROGRAM_FRAMES = 20000;
+const SPECTROGRAM_FLOOR_DB = -120;
+
+async function runSpectrogram(
+  jobId: number,
+  audioData: Float32Array,
+  sampleRate: number,
+  params: SpectrogramParams,
+): Promise<SpectrogramResult> {
+  const { fftSize, scale, bins } = params;
+  const usable = Math.max(0, audioData.length - fftSize);
+  const hopSize = Math.max(params.hopSize, Math.ceil(usable / (MAX_SPECTROGRAM_FRAMES - 1)));
+  const frames = audioData.length >= fftSize ? Math.floor(usable / hopSize) + 1 : 0;
+
+  // 各行に対応する FFT ビンの範囲。行が 1 ビンより細い低域は中心周波数で線形補間する
+  const nyquist = sampleRate / 2;
+  const binHz = sampleRate / fftSize;
+  const edges = scaleEdges(scale, bins, nyquist);
+  const frequencies = new Float32Array(bins);
+  for (let r = 0; r < bins; r++) frequencies[r] = Math.sqrt(Math.max(edges[r], 1) * edges[r + 1]);
+
+  const data = new Float32Array(frames * bins);
+  let minDb = Infinity;
+  let maxDb = -Infinity;
+
+  for (let f = 0; f < frames; f++) {
+    const frameVector = essentia.arrayToVector(audioData.subarray(f * hopSize, f * hopSize + fftSize));
+    let windowed: any = null;
+    let spectrum: Float32Array;
+    try {
+      // normalized 窓ではフルスケールの正弦波が振幅 1 になる
+      windowed = essentia.Windowing(frameVector, true, fftSize, 'hann');
+      const spec = essentia.Spectrum(windowed.frame, fftSize);
+      spectrum = essentia.vectorToArray(spec.spectrum);
+      spec.spectrum.delete();
+    } finally {
+      frameVector.delete();
+      windowed?.frame.delete();
+    }
+
+    const row = f * bins;
+    for (let r = 0; r < bins; r++) {
+      const kLo = edges[r] / binHz;
+      const kHi = edges[r + 1] / binHz;
+      let mag = 0;
+      if (Math.floor(kHi) - Math.ceil(kLo) < 0) {
+        const k = frequencies[r] / binHz;
+        const k0 = Math.min(Math.floor(k), spectrum.length - 1);
+        const k1 = Math.min(k0 + 1, spectrum.length - 1);
+        mag = spectrum[k0] + (spectrum[k1] - spectrum[k0]) * (k - k0);
+      } else {
+        for (let k = Math.ceil(kLo); k <= Math.min(Math.floor(kHi), spectrum.length - 1); k++) {
+          if (spectrum[k] > mag) mag = spectrum[k];
         }
-        const avgVec = essentia.arrayToVector(avgHpcp);
-        const keyOut = essentia.Key(avgVec, 4, 36, 'bgate', 0.6, false, true, true);
-        key = keyOut.key ?? '';
-        scale = keyOut.scale ?? '';
-        keyStrength = keyOut.strength ?? 0;
-        avgVec.delete();
       }
-    } catch (e2) {
-      console.warn('Frame-by-frame HPCP+Key also failed:', e2);
+      const db = mag > 0 ? Math.max(SPECTROGRAM_FLOOR_DB, 20 * Math.log10(mag)) : SPECTROGRAM_FLOOR_DB;
+      data[row + r] = db;
+      if (db < minDb) minDb = db;
+      if (db > maxDb) maxDb = db;
+    }
+
+    if (f % 500 === 499) {
+      postProgress(jobId, 'phase1', 5 + Math.round((f / frames) * 90), 'スペクトログラム計算中...');
+      await checkpoint(jobId);
     }
   }
 
-  signal.delete();
-  postProgress('phase1', 90, '結果まとめ中...');
+  return {
+    data, frames, bins, frequencies, hopSize, fftSize, scale, sampleRate,
+    minDb: isFinite(minDb) ? minDb : SPECTROGRAM_FLOOR_DB,
+    maxDb: isFinite(maxDb) ? maxDb : 0,
+  };
+}
+
+// ── 長時間平均スペクトル (LTAS) ──
+const LTAS_FFT_SIZE = 8192;
+const LTAS_HOP_SIZE = LTAS_FFT_SIZE / 2;
+// これより静かなフレームは平均に含めない（フェードや曲間の無音で高域が沈むのを防ぐ）
+const LTAS_GATE_DB = -60;
+const LTAS_SMOOTHED_POINTS = 160;
+const LTAS_FLOOR_DB = -120;
+
+function powerToDb(power: number): number {
+  return power > 0 ? Math.max(LTAS_FLOOR_DB, 10 * Math.log10(power)) : LTAS_FLOOR_DB;
+}
+
+/** 全チャンネル中で最も大きいフレーム RMS でゲートする（片側だけ鳴っている区間も含める） */
+function activeFrames(signals: Float32Array[]): number[] {
+  const length = signals[0]?.length ?? 0;
+  const frames = length >= LTAS_FFT_SIZE ? Math.floor((length - LTAS_FFT_SIZE) / LTAS_HOP_SIZE) + 1 : 0;
+  const gate = Math.pow(10, LTAS_GATE_DB / 20);
+  const active: number[] = [];
+  for (let f = 0; f < frames; f++) {
+    const start = f * LTAS_HOP_SIZE;
+    let loudest = 0;
+    for (const samples of signals) {
+      let sumSq = 0;
+      for (let i = start; i < start + LTAS_FFT_SIZE; i++) sumSq += samples[i] * samples[i];
+      loudest = Math.max(loudest, Math.sqrt(sumSq / LTAS_FFT_SIZE));
+    }
+    if (loudest > gate) active.push(f);
+  }
+  return active;
+}
+
+/** active のフレームだけを平均したパワースペクトル（ビンごと） */
+function averagePowerSpectrum(samples: Float32Array, active: number[]): Float64Array {
+  const power = new Float64Array(LTAS_FFT_SIZE / 2 + 1);
+  for (const f of active) {
+    const start = f * LTAS_HOP_SIZE;
+    const frameVector = essentia.arrayToVector(samples.subarray(start, start + LTAS_FFT_SIZE));
+    let windowed: any = null;
+    try {
+      windowed = essentia.Windowing(frameVector, true, LTAS_FFT_SIZE, 'hann');
+      const spec = essentia.Spectrum(windowed.frame, LTAS_FFT_SIZE);
+      const mag: Float32Array = essentia.vectorToArray(spec.spectrum);
+      spec.spectrum.delete();
+      for (let k = 0; k < power.length && k < mag.length; k++) power[k] += mag[k] * mag[k];
+    } finally {
+      frameVector.delete();
+      windowed?.frame.delete();
+    }
+  }
+  if (active.length > 0) for (let k = 0; k < power.length; k++) power[k] /= active.length;
+  return power;
+}
 
-  self.postMessage({
-    type: 'bpmKeyComplete',
-    bpmKeyData: { bpm, bpmConfidence, key, scale, keyStrength },
+/** 帯域内ビンのパワー合計。帯域が 1 ビンより狭い場合は中心周波数で補間してビン幅比を掛ける */
+function bandPower(power: Float64Array, binHz: number, lo: number, hi: number): number {
+  const kLo = Math.ceil(lo / binHz);
+  const kHi = Math.min(Math.floor(hi / binHz), power.length - 1);
+  if (kHi < kLo) {
+    const k = Math.sqrt(lo * hi) / binHz;
+    const k0 = Math.min(Math.floor(k), power.length - 1);
+    const k1 = Math.min(k0 + 1, power.length - 1);
+    return (power[k0] + (power[k1] - power[k0]) * (k - k0)) * (hi - lo) / binHz;
+  }
+  let sum = 0;
+  for (let k = kLo; k <= kHi; k++) sum += power[k];
+  return sum;
+}
+
+/** ナイキスト以下に収まる 1/3 オクターブ中心周波数 */
+function thirdOctaveCenters(sampleRate: number): number[] {
+  return THIRD_OCTAVE_CENTERS.filter(hz => bandEdges(hz, 3)[1] <= sampleRate / 2);
+}
+
+interface ChannelSpectra {
+  active: number[];
+  /** channels と同じ並び。LFE は null */
+  powers: (Float64Array | null)[];
+}
+
+/**
+ * LFE を除く各チャンネルのパワースペクトルをフレーム平均し、1/3 オクターブと平滑化 FFT にまとめる。
+ * 平滑化 FFT も 1/3 オクターブ帯域幅あたりのパワーに換算して、両者を同じ目盛りで重ねられるようにする。
+ * チャンネルごとのパワーはモノラル化の帯域比較でも使うので返す。
+ */
+async function runAverageSpectrum(jobId: number, channels: Float32Array[], sampleRate: number): Promise<ChannelSpectra> {
+  postProgress(jobId, 'phase1', 80, 'スペクトル解析中...');
+
+  const layout = channelLayout(channels.length);
+  const active = activeFrames(channels.filter((_, i) => layout[i].weight > 0));
+
+  const powers: (Float64Array | null)[] = [];
+  for (let i = 0; i < channels.length; i++) {
+    powers.push(layout[i].weight > 0 ? averagePowerSpectrum(channels[i], active) : null);
+    await checkpoint(jobId);
+  }
+
+  const included = powers.filter((p): p is Float64Array => p !== null);
+  const power = new Float64Array(LTAS_FFT_SIZE / 2 + 1);
+  for (const p of included) for (let k = 0; k < power.length; k++) power[k] += p[k] / included.length;
+
+  const nyquist = sampleRate / 2;
+  const binHz = sampleRate / LTAS_FFT_SIZE;
+
+  const thirdOctave = { frequencies: [] as number[], levels: [] as number[] };
+  for (const hz of thirdOctaveCenters(sampleRate)) {
+    const [lo, hi] = bandEdges(hz, 3);
+    thirdOctave.frequencies.push(hz);
+    thirdOctave.levels.push(powerToDb(bandPower(power, binHz, lo, hi)));
+  }
+
+  const smoothed = { frequencies: [] as number[], levels: [] as number[] };
+  const maxHz = Math.min(20000, bandEdges(nyquist, 6)[0]);
+  for (let i = 0; i < LTAS_SMOOTHED_POINTS; i++) {
+    const hz = LOG_MIN_HZ * Math.pow(maxHz / LOG_MIN_HZ, i / (LTAS_SMOOTHED_POINTS - 1));
+    const [lo, hi] = bandEdges(hz, 6);
+    const [thirdLo, thirdHi] = bandEdges(hz, 3);
+    smoothed.frequencies.push(hz);
+    smoothed.levels.push(powerToDb(bandPower(power, binHz, lo, hi) * (thirdHi - thirdLo) / (hi - lo)));
+  }
+
+  const spectrum: SpectrumResult = { thirdOctave, smoothed };
+  postPartial(jobId, { spectrum });
+  return { active, powers };
+}
+
+// ── モノラル化 (L+R) ──
+// 帯域の打ち消しは、最大バンドからこれ以上小さいバンドでは求めない（ノイズで値が暴れるため）
+const MONO_BAND_RANGE_DB = 60;
+// 区間比較で無視する静かな short-term 窓 (LUFS)
+const MONO_REGION_GATE_LUFS = -50;
+const MONO_REGION_COUNT = 5;
+// short-term の窓長と hop（LoudnessMeter と同じ）
+const SHORT_TERM_SEC = 3;
+const SHORT_TERM_HOP_SEC = 0.1;
+
+/**
+ * L/R を (L + R) / 2 にまとめて両スピーカーから鳴らした場合と、元のステレオを比べる。
+ * 無相関なら -3 dB、逆相成分が多いほど大きく落ちる。
+ */
+async function runMonoFoldDown(jobId: number, channels: Float32Array[], sampleRate: number, spectra: ChannelSpectra) {
+  if (channels.length < 2) return;
+  postProgress(jobId, 'phase1', 90, 'モノラル互換性チェック中...');
+
+  const [left, right] = channels;
+  const mono = new Float32Array(Math.min(left.length, right.length));
+  for (let i = 0; i < mono.length; i++) mono[i] = (left[i] + right[i]) * 0.5;
+
+  const stereoMeter = new LoudnessMeter(sampleRate);
+  stereoMeter.addChannel(left, 1);
+  stereoMeter.addChannel(right, 1);
+  await checkpoint(jobId);
+  // 同じ信号を L/R 両方に出すので重み 2
+  const monoMeter = new LoudnessMeter(sampleRate);
+  monoMeter.addChannel(mono, 2);
+  await checkpoint(jobId);
+  const stereoLoudness = stereoMeter.result();
+  const monoLoudness = monoMeter.result();
+
+  // 周波数帯ごとの落ち込み: 2·P(M) / (P(L) + P(R))
+  const monoPower = averagePowerSpectrum(mono, spectra.active);
+  await checkpoint(jobId);
+  const leftPower = spectra.powers[0];
+  const rightPower = spectra.powers[1];
+  const bands: MonoFoldBand[] = [];
+  if (leftPower && rightPower) {
+    const binHz = sampleRate / LTAS_FFT_SIZE;
+    const rows = thirdOctaveCenters(sampleRate).map(hz => {
+      const [lo, hi] = bandEdges(hz, 3);
+      return {
+        frequency: hz,
+        stereo: bandPower(leftPower, binHz, lo, hi) + bandPower(rightPower, binHz, lo, hi),
+        mono: 2 * bandPower(monoPower, binHz, lo, hi),
+      };
+    });
+    const loudest = Math.max(0, ...rows.map(r => r.stereo));
+    const floor = loudest * Math.pow(10, -MONO_BAND_RANGE_DB / 10);
+    for (const r of rows) {
+      if (r.stereo <= floor || r.stereo === 0) continue;
+      bands.push({ frequency: r.frequency, drop: powerToDb(r.mono / r.stereo) });
+    }
+  }
+
+  // short-term（3s 窓・100ms hop）で差の大きい区間を重ならないように拾う
+  const st = stereoLoudness.shortTermLoudness;
+  const mt = monoLoudness.shortTermLoudness;
+  const candidates: { index: number; drop: number }[] = [];
+  for (let i = 0; i < Math.min(st.length, mt.length); i++) {
+    if (st[i] > MONO_REGION_GATE_LUFS) candidates.push({ index: i, drop: mt[i] - st[i] });
+  }
+  candidates.sort((a, b) => a.drop - b.drop);
+  const worstRegions: MonoFoldRegion[] = [];
+  for (const c of candidates) {
+    if (worstRegions.length >= MONO_REGION_COUNT) break;
+    const start = c.index * SHORT_TERM_HOP_SEC;
+    if (worstRegions.some(r => start < r.end && start + SHORT_TERM_SEC > r.start)) continue;
+    worstRegions.push({ start, end: start + SHORT_TERM_SEC, drop: c.drop });
+  }
+
+  postPartial(jobId, {
+    monoFold: {
+      stereoLUFS: stereoLoudness.integratedLUFS,
+      monoLUFS: monoLoudness.integratedLUFS,
+      drop: monoLoudness.integratedLUFS - stereoLoudness.integratedLUFS,
+      bands,
+      worstRegions,
+    },
   });
 }
 
-function runQualityCheck(audioData: Float32Array, sampleRate: number) {
+/** L/R それぞれ単独の Integrated（BS.1770 の 1 チャンネル扱い）と RMS の差 */
+async function measureBalance(jobId: number, left: Float32Array, right: Float32Array, sampleRate: number): Promise<ChannelBalance> {
+  const integrated = async (samples: Float32Array) => {
+    const meter = new LoudnessMeter(sampleRate);
+    meter.addChannel(samples, 1);
+    await checkpoint(jobId);
+    return meter.result().integratedLUFS;
+  };
+  const leftLUFS = await integrated(left);
+  const rightLUFS = await integrated(right);
+  // 片側だけ無音なら ±∞、両方無音なら差なし
+  const diff = (l: number, r: number) => (isFinite(l) || isFinite(r) ? l - r : 0);
+  return {
+    leftLUFS,
+    rightLUFS,
+    loudnessDiff: diff(leftLUFS, rightLUFS),
+    rmsDiff: diff(measureChannelLevel(left).rms, measureChannelLevel(right).rms),
+  };
+}
+
+async function runQualityCheck(
+  jobId: number,
+  channels: Float32Array[],
+  sampleRate: number,
+  detection: DetectionParams,
+  stereo: StereoResult,
+) {
   const THRESHOLD = 0.001;
+  const length = channels[0]?.length ?? 0;
+
+  // 各位置で全チャンネル中の最大振幅を見る
+  const amplitudeAt = (i: number) => {
+    let max = 0;
+    for (const samples of channels) {
+      const abs = Math.abs(samples[i] ?? 0);
+      if (abs > max) max = abs;
+    }
+    return max;
+  };
 
-  const startAmplitude = Math.abs(audioData[0] ?? 0);
-  const endAmplitude = Math.abs(audioData[audioData.length - 1] ?? 0);
+  const startAmplitude = length > 0 ? amplitudeAt(0) : 0;
+  const endAmplitude = length > 0 ? amplitudeAt(length - 1) : 0;
 
   let headSilenceSamples = 0;
-  for (let i = 0; i < audioData.length; i++) {
-    if (Math.abs(audioData[i]) > THRESHOLD) break;
+  for (let i = 0; i < length; i++) {
+    if (amplitudeAt(i) > THRESHOLD) break;
     headSilenceSamples++;
   }
 
   let tailSilenceSamples = 0;
-  for (let i = audioData.length - 1; i >= 0; i--) {
-    if (Math.abs(audioData[i]) > THRESHOLD) break;
+  for (let i = length - 1; i >= 0; i--) {
+    if (amplitudeAt(i) > THRESHOLD) break;
     tailSilenceSamples++;
   }
 
-  postPartial({
+  const clips = new ClipDetector(sampleRate, detection.clipLevel, detection.clipMinRun);
+  const clicks = new ClickDetector(sampleRate, detection.clickThreshold);
+  const silence = new SilenceDetector(sampleRate, detection.silenceThreshold, detection.silenceMinDuration);
+  const dcOffset: ChannelDcOffset[] = [];
+  for (const samples of channels) {
+    clips.addChannel(samples);
+    clicks.addChannel(samples);
+    silence.addChannel(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i];
+    const mean = samples.length > 0 ? sum / samples.length : 0;
+    dcOffset.push({ mean, dB: toDbfs(Math.abs(mean)) });
+    await checkpoint(jobId);
+  }
+
+  // バランス・極性は先頭 2 チャンネルを L/R として見る
+  const isStereo = channels.length >= 2;
+  const balance = isStereo ? await measureBalance(jobId, channels[0], channels[1], sampleRate) : null;
+  const lowBand = stereo.bands.find(b => b.id === 'low');
+  const polarity = isStereo
+    ? { correlation: stereo.correlation, lowCorrelation: lowBand?.correlation ?? stereo.correlation }
+    : null;
+
+  postPartial(jobId, {
     quality: {
       startAmplitude, endAmplitude,
       startIsZero: startAmplitude < THRESHOLD,
       endIsZero: endAmplitude < THRESHOLD,
       headSilence: headSilenceSamples / sampleRate,
       tailSilence: tailSilenceSamples / sampleRate,
+      clipping: clips.result(),
+      clicks: clicks.result(),
+      silence: silence.result(),
+      dcOffset,
+      balance,
+      polarity,
     },
   });
 }
 
-self.onmessage = async (event: MessageEvent) => {
-  const { type, audioData, leftChannel, rightChannel, sampleRate } = event.data;
+// ── ジョブキュー ──
+// Worker 内で 1 ジョブずつ順番に処理する。init 完了前に届いたジョブも待機させる
+const queue: WorkerJobMessage[] = [];
+let draining = false;
+let initPromise: Promise<string> | null = null;
+
+function ensureEssentia(): Promise<string> {
+  if (!initPromise) {
+    initPromise = initEssentia().catch(e => {
+      initPromise = null;
+      throw e;
+    });
+  }
+  return initPromise;
+}
 
-  if (type === 'init') {
-    try {
-      const version = await initEssentia();
-      self.postMessage({ type: 'ready', version });
-    } catch (e: any) {
-      self.postMessage({ type: 'error', message: `WASM初期化エラー: ${e.message}` });
+async function runJob(job: WorkerJobMessage) {
+  runningJobId = job.jobId;
+  try {
+    if (cancelledJobs.has(job.jobId)) throw new JobCancelled();
+    switch (job.type) {
+      case 'analyze':
+        try {
+          const stereo = await runAnalysis(job.jobId, job.sampleRate, job.channels, job.detection);
+          await runQualityCheck(job.jobId, job.channels, job.sampleRate, job.detection, stereo);
+          const spectra = await runAverageSpectrum(job.jobId, job.channels, job.sampleRate);
+          await runMonoFoldDown(job.jobId, job.channels, job.sampleRate, spectra);
+          postProgress(job.jobId, 'done', 100, '解析完了');
+          post({ type: 'complete', jobId: job.jobId });
+        } catch (e: any) {
+          if (e instanceof JobCancelled) throw e;
+          post({ type: 'error', jobId: job.jobId, message: `解析エラー: ${e.message}` });
+        }
+        break;
+      case 'analyzeBpmKey':
+        try {
+          const bpmKeyData = await runBpmKeyAnalysis(job.jobId, job.audioData, job.sampleRate);
+          postProgress(job.jobId, 'done', 100, '解析完了');
+          post({ type: 'bpmKeyComplete', jobId: job.jobId, bpmKeyData });
+        } catch (e: any) {
+          if (e instanceof JobCancelled) throw e;
+          post({ type: 'error', jobId: job.jobId, message: `BPM/Key解析エラー: ${e.message}` });
+        }
+        break;
+      case 'spectrogram':
+        try {
+          const spectrogram = await runSpectrogram(job.jobId, job.audioData, job.sampleRate, job.params);
+          postProgress(job.jobId, 'done', 100, '解析完了');
+          post(
+            { type: 'spectrogramComplete', jobId: job.jobId, spectrogram },
+            [spectrogram.data.buffer, spectrogram.frequencies.buffer],
+          );
+        } catch (e: any) {
+          if (e instanceof JobCancelled) throw e;
+          post({ type: 'error', jobId: job.jobId, message: `スペクトログラム計算エラー: ${e.message}` });
+        }
+        break;
     }
-    return;
+  } catch (e) {
+    if (!(e instanceof JobCancelled)) throw e;
+    post({ type: 'cancelled', jobId: job.jobId });
+  } finally {
+    runningJobId = null;
+    cancelledJobs.delete(job.jobId);
   }
+}
 
-  if (type === 'analyze' && sampleRate) {
-    try {
-      const left: Float32Array = leftChannel ?? audioData;
-      const right: Float32Array = rightChannel ?? left;
+async function drain() {
+  if (draining) return;
+  draining = true;
+  try {
+    while (queue.length > 0) {
+      const job = queue.shift()!;
+      // ensureEssentia を待つ間に届いた cancel も受け付けるよう、取り出した時点で実行中にする（runJob の先頭で確認）
+      runningJobId = job.jobId;
+      try {
+        await ensureEssentia();
+      } catch (e: any) {
+        runningJobId = null;
+        cancelledJobs.delete(job.jobId);
+        post({ type: 'error', jobId: job.jobId, message: `WASM初期化エラー: ${e.message}` });
+        continue;
+      }
+      await runJob(job);
+    }
+  } finally {
+    draining = false;
+  }
+}
 
-      runAnalysis(sampleRate, left, right);
-      runQualityCheck(left, sampleRate);
+self.onmessage = async (event: MessageEvent<WorkerMessage>) => {
+  const msg = event.data;
 
-      postProgress('done', 100, '解析完了');
-      self.postMessage({ type: 'complete' });
+  if (msg.type === 'init') {
+    try {
+      const version = await ensureEssentia();
+      post({ type: 'ready', version });
     } catch (e: any) {
-      self.postMessage({ type: 'error', message: `解析エラー: ${e.message}` });
+      post({ type: 'error', message: `WASM初期化エラー: ${e.message}` });
     }
+    return;
   }
 
-  if (type === 'analyzeBpmKey' && audioData && sampleRate) {
-    try {
-      runBpmKeyAnalysis(audioData, sampleRate);
-      postProgress('done', 100, '解析完了');
-      self.postMessage({ type: 'complete' });
-    } catch (e: any) {
-      self.postMessage({ type: 'error', message: `BPM/Key解析エラー: ${e.message}` });
+  if (msg.type === 'cancel') {
+    const queued = queue.findIndex(j => j.jobId === msg.jobId);
+    if (queued >= 0) {
+      queue.splice(queued, 1);
+      post({ type: 'cancelled', jobId: msg.jobId });
+    } else if (runningJobId === msg.jobId) {
+      cancelledJobs.add(msg.jobId);
     }
+    return;
   }
+
+  queue.push(msg);
+  drain();
 };
@@ -0,0 +1,50 @@
+// キー候補: 曲全体の平均 HPCP と 24 キーの調性プロファイルの相関で順位を付ける
+// Key は 1 つの答えしか返さないので、同じ計算を 24 キー分行って次点（平行調・属調などと迷っている場合）も出す
+import type { KeyCandidate } from '../analysis/types';
+
+// Essentia の HPCP は基準周波数 440 Hz なので、0 番目が A
+const HPCP_PITCHES = ['A', 'Bb', 'B', 'C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab'];
+
+// Essentia の Key の 'bgate' プロファイル（主音から半音ずつ）。
+// usePolyphony を切った Key はこのプロファイルとのピアソン相関が最大のキーを返し、その相関を strength とする
+const MAJOR_PROFILE = [1.00, 0.00, 0.42, 0.00, 0.53, 0.37, 0.00, 0.77, 0.00, 0.38, 0.21, 0.30];
+const MINOR_PROFILE = [1.00, 0.00, 0.36, 0.39, 0.00, 0.38, 0.00, 0.74, 0.27, 0.00, 0.42, 0.23];
+
+const MAX_CANDIDATES = 5;
+
+/** hpcp[(tonic + k) % 12] と profile[k] のピアソン相関 */
+function correlation(hpcp: Float32Array, profile: number[], tonic: number): number {
+  const n = profile.length;
+  let meanH = 0;
+  let meanP = 0;
+  for (let k = 0; k < n; k++) {
+    meanH += hpcp[(tonic + k) % n];
+    meanP += profile[k];
+  }
+  meanH /= n;
+  meanP /= n;
+  let cov = 0;
+  let varH = 0;
+  let varP = 0;
+  for (let k = 0; k < n; k++) {
+    const h = hpcp[(tonic + k) % n] - meanH;
+    const p = profile[k] - meanP;
+    cov += h * p;
+    varH += h * h;
+    varP += p * p;
+  }
+  return varH > 0 && varP > 0 ? cov / Math.sqrt(varH * varP) : 0;
+}
+
+/** 12 次元の平均 HPCP からスコア（相関 -1〜1）順のキー候補を返す。先頭は Key（bgate・usePolyphony なし）の答えと一致する */
+export function rankKeyCandidates(hpcp: Float32Array): KeyCandidate[] {
+  if (hpcp.length !== HPCP_PITCHES.length) return [];
+  // 無音などで HPCP が平らなら、どのキーとも相関が取れないので候補なし
+  if (hpcp.every(v => v === hpcp[0])) return [];
+  const candidates: KeyCandidate[] = [];
+  for (let tonic = 0; tonic < HPCP_PITCHES.length; tonic++) {
+    candidates.push({ key: HPCP_PITCHES[tonic], scale: 'major', score: correlation(hpcp, MAJOR_PROFILE, tonic) });
+    candidates.push({ key: HPCP_PITCHES[tonic], scale: 'minor', score: correlation(hpcp, MINOR_PROFILE, tonic) });
+  }
+  return candidates.sort((a, b) => b.score - a.score).slice(0, MAX_CANDIDATES);
+}
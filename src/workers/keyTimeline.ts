@@ -0,0 +1,119 @@
+// 区間ごとのキー推定: フレーム単位の HPCP を窓で平均して Key に通し、同じキーが続く区間にまとめる
+// 最後のサビで転調する曲などは曲全体の 1 つのキーでは正しく表せない
+import type { KeyModulation, KeySegment, KeyTimeline } from '../analysis/types';
+
+export interface KeyEstimate {
+  key: string;
+  scale: string;
+  strength: number;
+}
+
+// 1 つのキーを推定する窓の長さと送り（秒）
+const WINDOW_SEC = 16;
+const HOP_SEC = 4;
+// 前後の窓と違う 1 窓だけの判定は、前後に合わせる（経過和音に引っ張られた誤判定）
+const SMOOTH_WINDOWS = 1;
+// これより短い区間は前の区間に吸収する（秒）
+const MIN_SEGMENT_SEC = 12;
+
+function sameKey(a: KeyEstimate, b: KeyEstimate): boolean {
+  return a.key === b.key && a.scale === b.scale;
+}
+
+/** 窓ごとの推定を前後 SMOOTH_WINDOWS 窓の多数決でならす（同数なら元の判定を残す） */
+function smoothLabels(windows: KeySegment[]): KeySegment[] {
+  return windows.map((w, i) => {
+    const neighbours = windows.slice(Math.max(0, i - SMOOTH_WINDOWS), i + SMOOTH_WINDOWS + 1);
+    let best = w;
+    let bestCount = neighbours.filter(n => sameKey(n, w)).length;
+    for (const n of neighbours) {
+      const count = neighbours.filter(m => sameKey(m, n)).length;
+      if (count > bestCount) {
+        best = n;
+        bestCount = count;
+      }
+    }
+    return best === w ? w : { ...w, key: best.key, scale: best.scale };
+  });
+}
+
+/** 同じキーが続く窓をつなげ、短すぎる区間を前（先頭なら後ろ）の区間に吸収する */
+function mergeSegments(windows: KeySegment[]): KeySegment[] {
+  let segments: KeySegment[] = [];
+  for (const w of windows) {
+    const last = segments[segments.length - 1];
+    if (last && sameKey(last, w)) {
+      // 強さは窓の長さで重み付けした平均
+      const total = (last.end - last.start) + (w.end - w.start);
+      last.strength = (last.strength * (last.end - last.start) + w.strength * (w.end - w.start)) / total;
+      last.end = w.end;
+    } else {
+      segments.push({ ...w });
+    }
+  }
+
+  while (segments.length > 1) {
+    const shortest = segments.reduce((min, s, i) => (s.end - s.start < segments[min].end - segments[min].start ? i : min), 0);
+    const s = segments[shortest];
+    if (s.end - s.start >= MIN_SEGMENT_SEC) break;
+    const into = shortest > 0 ? shortest - 1 : 1;
+    const target = segments[into];
+    target.start = Math.min(target.start, s.start);
+    target.end = Math.max(target.end, s.end);
+    segments = segments.filter((_, i) => i !== shortest);
+    // 吸収で同じキーが隣り合ったらつなげ直す
+    segments = segments.reduce<KeySegment[]>((acc, seg) => {
+      const last = acc[acc.length - 1];
+      if (last && sameKey(last, seg)) last.end = seg.end;
+      else acc.push(seg);
+      return acc;
+    }, []);
+  }
+  return segments;
+}
+
+/**
+ * hpcpFrames はフレームごとの HPCP（hpcpSize 個ずつ）を並べたもの。
+ * estimate は平均した HPCP からキーを求める（Essentia の Key を呼ぶ）
+ */
+export function measureKeyTimeline(
+  hpcpFrames: Float32Array,
+  hpcpSize: number,
+  frameRate: number,
+  duration: number,
+  estimate: (hpcp: Float32Array) => KeyEstimate,
+): KeyTimeline {
+  const frames = Math.floor(hpcpFrames.length / hpcpSize);
+  const windowFrames = Math.max(1, Math.round(WINDOW_SEC * frameRate));
+  const hopFrames = Math.max(1, Math.round(HOP_SEC * frameRate));
+
+  const windows: KeySegment[] = [];
+  for (let start = 0; start < frames; start += hopFrames) {
+    const end = Math.min(frames, start + windowFrames);
+    // 末尾の短い窓は直前の窓とほぼ同じ範囲なので省く
+    if (windows.length > 0 && end - start < windowFrames / 2) break;
+    const avg = new Float32Array(hpcpSize);
+    for (let f = start; f < end; f++) {
+      for (let i = 0; i < hpcpSize; i++) avg[i] += hpcpFrames[f * hpcpSize + i];
+    }
+    for (let i = 0; i < hpcpSize; i++) avg[i] /= end - start;
+    const { key, scale, strength } = estimate(avg);
+    if (!key) continue;
+    // 窓は重なっているので、各窓の受け持ちは中心の前後 HOP_SEC / 2 とする
+    const center = (start + end) / 2 / frameRate;
+    windows.push({ start: center - HOP_SEC / 2, end: center + HOP_SEC / 2, key, scale, strength });
+  }
+  if (windows.length === 0) return { segments: [], modulations: [] };
+  windows[0].start = 0;
+  windows[windows.length - 1].end = duration;
+  for (let i = 1; i < windows.length; i++) windows[i].start = windows[i - 1].end;
+
+  const segments = mergeSegments(smoothLabels(windows));
+  const modulations: KeyModulation[] = [];
+  for (let i = 1; i < segments.length; i++) {
+    const from = segments[i - 1];
+    const to = segments[i];
+    modulations.push({ time: to.start, fromKey: from.key, fromScale: from.scale, toKey: to.key, toScale: to.scale });
+  }
+  return { segments, modulations };
+}
@@ -0,0 +1,152 @@
+// ITU-R BS.1770-4 / EBU Tech 3341・3342 のラウドネスメーター（N チャンネル対応）
+// Essentia の LoudnessEBUR128 はステレオ専用なので、モノラルと 3 チャンネル以上はこちらで測る
+
+// 100ms ブロックを単位に、momentary = 4 ブロック、short-term = 30 ブロック
+export const BLOCK_SEC = 0.1;
+const MOMENTARY_BLOCKS = 4;
+export const SHORT_TERM_BLOCKS = 30;
+
+const ABSOLUTE_GATE = -70;
+const INTEGRATED_RELATIVE_GATE = -10;
+const LRA_RELATIVE_GATE = -20;
+
+// 時系列の無音区間は -∞ ではなく絶対ゲートの値で埋める（グラフの補間が NaN にならないように）
+const SERIES_FLOOR = ABSOLUTE_GATE;
+
+export interface LoudnessMeasurement {
+  integratedLUFS: number;
+  loudnessRange: number;
+  momentaryLoudness: number[];
+  shortTermLoudness: number[];
+}
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+/**
+ * K 特性フィルタ（高域シェルフ + RLB ハイパス）の係数を任意のサンプルレートで求める。
+ * BS.1770 の表は 48kHz のみなので、アナログ原型から双一次変換で導出する（libebur128 と同じ式）。
+ */
+function kWeighting(sampleRate: number): [Biquad, Biquad] {
+  let f0 = 1681.974450955533;
+  const G = 3.999843853973347;
+  let Q = 0.7071752369554196;
+  let K = Math.tan(Math.PI * f0 / sampleRate);
+  const Vh = Math.pow(10, G / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + Vb * K / Q + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  f0 = 38.13547087602444;
+  Q = 0.5003270373238773;
+  K = Math.tan(Math.PI * f0 / sampleRate);
+  a0 = 1 + K / Q + K * K;
+  const highpass: Biquad = {
+    b0: 1, b1: -2, b2: 1,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+  return [shelf, highpass];
+}
+
+function toLufs(meanSquare: number): number {
+  return meanSquare > 0 ? -0.691 + 10 * Math.log10(meanSquare) : -Infinity;
+}
+
+/** 窓ごとの重み付き平均二乗を hop = 1 ブロックで並べる */
+function windowPowers(blocks: Float64Array, blockSize: number, windowBlocks: number): number[] {
+  const powers: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < blocks.length; i++) {
+    sum += blocks[i];
+    if (i >= windowBlocks) sum -= blocks[i - windowBlocks];
+    if (i >= windowBlocks - 1) powers.push(Math.max(0, sum) / (windowBlocks * blockSize));
+  }
+  return powers;
+}
+
+function gatedMean(powers: number[], relativeGate: number): { mean: number; gated: number[] } {
+  const aboveAbsolute = powers.filter(p => toLufs(p) > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) return { mean: 0, gated: [] };
+  const absMean = aboveAbsolute.reduce((a, b) => a + b, 0) / aboveAbsolute.length;
+  const threshold = toLufs(absMean) + relativeGate;
+  const gated = aboveAbsolute.filter(p => toLufs(p) > threshold);
+  const mean = gated.length > 0 ? gated.reduce((a, b) => a + b, 0) / gated.length : 0;
+  return { mean, gated };
+}
+
+function percentile(sorted: number[], p: number): number {
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * p)));
+  return sorted[idx];
+}
+
+/**
+ * TruePeakMeter と同じく、チャンネルを 1 本ずつ addChannel() で流し込んで result() で集計する。
+ * フィルタ後の信号は保持せず、100ms ブロックごとの重み付きエネルギーだけを足し込む。
+ */
+export class LoudnessMeter {
+  private readonly filters: [Biquad, Biquad];
+  private readonly blockSize: number;
+  private blocks: Float64Array | null = null;
+
+  constructor(sampleRate: number) {
+    this.filters = kWeighting(sampleRate);
+    this.blockSize = Math.round(sampleRate * BLOCK_SEC);
+  }
+
+  addChannel(samples: Float32Array, weight: number) {
+    if (weight === 0) return;
+    const blockCount = Math.floor(samples.length / this.blockSize);
+    if (!this.blocks) this.blocks = new Float64Array(blockCount);
+    const blocks = this.blocks;
+
+    const [s, h] = this.filters;
+    let sx1 = 0, sx2 = 0, sy1 = 0, sy2 = 0;
+    let hy1 = 0, hy2 = 0;
+    const limit = Math.min(blockCount, blocks.length) * this.blockSize;
+
+    for (let i = 0; i < limit; i++) {
+      const x = samples[i];
+      const y = s.b0 * x + s.b1 * sx1 + s.b2 * sx2 - s.a1 * sy1 - s.a2 * sy2;
+      // シェルフの出力がそのまま RLB ハイパスの入力（遅延要素を共有する）
+      const z = h.b0 * y + h.b1 * sy1 + h.b2 * sy2 - h.a1 * hy1 - h.a2 * hy2;
+      sx2 = sx1; sx1 = x;
+      sy2 = sy1; sy1 = y;
+      hy2 = hy1; hy1 = z;
+      blocks[(i / this.blockSize) | 0] += weight * z * z;
+    }
+  }
+
+  result(): LoudnessMeasurement {
+    const blocks = this.blocks ?? new Float64Array(0);
+
+    const momentaryPowers = windowPowers(blocks, this.blockSize, MOMENTARY_BLOCKS);
+    const shortTermPowers = windowPowers(blocks, this.blockSize, SHORT_TERM_BLOCKS);
+
+    // Integrated: 400ms ブロック（75% オーバーラップ）を絶対 / 相対ゲート
+    const integrated = gatedMean(momentaryPowers, INTEGRATED_RELATIVE_GATE);
+
+    // LRA: 3s 窓を絶対 / 相対ゲートした分布の 10〜95 パーセンタイル幅
+    const lraGated = gatedMean(shortTermPowers, LRA_RELATIVE_GATE).gated
+      .map(toLufs)
+      .sort((a, b) => a - b);
+    const loudnessRange = lraGated.length > 0
+      ? percentile(lraGated, 0.95) - percentile(lraGated, 0.10)
+      : 0;
+
+    return {
+      integratedLUFS: toLufs(integrated.mean),
+      loudnessRange,
+      momentaryLoudness: momentaryPowers.map(p => Math.max(SERIES_FLOOR, toLufs(p))),
+      shortTermLoudness: shortTermPowers.map(p => Math.max(SERIES_FLOOR, toLufs(p))),
+    };
+  }
+}
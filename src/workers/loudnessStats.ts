@@ -0,0 +1,40 @@
+// momentary / short-term 系列の統計（最大値とパーセンタイル、それぞれの位置）
+import type { LoudnessPoint, LoudnessStats } from '../analysis/types';
+import { BLOCK_SEC } from './loudness';
+
+// 統計に含める窓（系列の無音区間は絶対ゲートの値で埋まっている）
+const ABSOLUTE_GATE = -70;
+
+function gatedIndices(series: number[]): number[] {
+  const indices: number[] = [];
+  for (let i = 0; i < series.length; i++) if (series[i] > ABSOLUTE_GATE) indices.push(i);
+  return indices;
+}
+
+function pointAt(series: number[], index: number): LoudnessPoint {
+  return { value: series[index], time: index * BLOCK_SEC };
+}
+
+function maxPoint(series: number[]): LoudnessPoint | null {
+  let best = -1;
+  for (let i = 0; i < series.length; i++) if (series[i] > ABSOLUTE_GATE && (best < 0 || series[i] > series[best])) best = i;
+  return best >= 0 ? pointAt(series, best) : null;
+}
+
+/** nearest-rank 法のパーセンタイル。位置はその値を取った最初の窓 */
+function percentilePoint(series: number[], indices: number[], p: number): LoudnessPoint | null {
+  if (indices.length === 0) return null;
+  const sorted = indices.map(i => series[i]).sort((a, b) => a - b);
+  const rank = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return pointAt(series, series.indexOf(sorted[rank]));
+}
+
+export function measureLoudnessStats(momentary: number[], shortTerm: number[]): LoudnessStats {
+  const gated = gatedIndices(shortTerm);
+  return {
+    maxMomentary: maxPoint(momentary),
+    maxShortTerm: maxPoint(shortTerm),
+    shortTermP10: percentilePoint(shortTerm, gated, 10),
+    shortTermP95: percentilePoint(shortTerm, gated, 95),
+  };
+}
@@ -0,0 +1,133 @@
+// マルチバンド M/S: Linkwitz-Riley (LR4) クロスオーバーで帯域分割し、帯域ごとの width / 相関を測る
+import { STEREO_BAND_CROSSOVERS, STEREO_BANDS } from '../analysis/stereoBands';
+import type { StereoBandResult } from '../analysis/types';
+import { correlationOf } from './stereo';
+
+const BUTTERWORTH_Q = Math.SQRT1_2;
+// ナイキストに近すぎるクロスオーバーは分割しない（上の帯域は空になる）
+const MAX_CROSSOVER_RATIO = 0.45;
+
+class Biquad {
+  private readonly b0: number;
+  private readonly b1: number;
+  private readonly b2: number;
+  private readonly a1: number;
+  private readonly a2: number;
+  private x1 = 0; private x2 = 0;
+  private y1 = 0; private y2 = 0;
+
+  /** RBJ Audio EQ Cookbook の 2 次ローパス / ハイパス */
+  constructor(kind: 'lowpass' | 'highpass', freq: number, sampleRate: number) {
+    const w0 = 2 * Math.PI * freq / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * BUTTERWORTH_Q);
+    const a0 = 1 + alpha;
+    const b1 = kind === 'lowpass' ? 1 - cos : -(1 + cos);
+    this.b0 = Math.abs(b1) / 2 / a0;
+    this.b1 = b1 / a0;
+    this.b2 = this.b0;
+    this.a1 = (-2 * cos) / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  process(x: number): number {
+    const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+    this.x2 = this.x1; this.x1 = x;
+    this.y2 = this.y1; this.y1 = y;
+    return y;
+  }
+}
+
+/** LR4 = 同じ Butterworth を 2 段重ねたもの。ローパスとハイパスの和がオールパスになる */
+class Crossover {
+  private readonly low: [Biquad, Biquad] | null;
+  private readonly high: [Biquad, Biquad] | null;
+
+  constructor(freq: number, sampleRate: number) {
+    if (freq >= sampleRate * MAX_CROSSOVER_RATIO) {
+      this.low = null;
+      this.high = null;
+      return;
+    }
+    this.low = [new Biquad('lowpass', freq, sampleRate), new Biquad('lowpass', freq, sampleRate)];
+    this.high = [new Biquad('highpass', freq, sampleRate), new Biquad('highpass', freq, sampleRate)];
+  }
+
+  // サンプルごとに呼ばれるので配列を返さず、下側・上側を別々に求める
+  lowpass(x: number): number {
+    return this.low ? this.low[1].process(this.low[0].process(x)) : x;
+  }
+
+  highpass(x: number): number {
+    return this.high ? this.high[1].process(this.high[0].process(x)) : 0;
+  }
+}
+
+interface BandSums {
+  ll: number; rr: number; lr: number;
+  mm: number; ss: number;
+}
+
+/**
+ * L/R を同時に流す必要があるので、他のメーターと違いチャンネル単位ではなく
+ * 区間単位で add() する（フィルタ状態は区間をまたいで保持される）。
+ */
+export class MultibandStereoMeter {
+  private readonly left: Crossover[];
+  private readonly right: Crossover[];
+  private readonly sums: BandSums[] = STEREO_BANDS.map(() => ({ ll: 0, rr: 0, lr: 0, mm: 0, ss: 0 }));
+  private readonly bandL = new Float64Array(STEREO_BANDS.length);
+  private readonly bandR = new Float64Array(STEREO_BANDS.length);
+  private samples = 0;
+
+  constructor(sampleRate: number) {
+    this.left = STEREO_BAND_CROSSOVERS.map(f => new Crossover(f, sampleRate));
+    this.right = STEREO_BAND_CROSSOVERS.map(f => new Crossover(f, sampleRate));
+  }
+
+  /** 低い方から順に切り出し、残りを次のクロスオーバーへ渡す */
+  private splitInto(x: number, crossovers: Crossover[], out: Float64Array) {
+    let rest = x;
+    for (let k = 0; k < crossovers.length; k++) {
+      out[k] = crossovers[k].lowpass(rest);
+      rest = crossovers[k].highpass(rest);
+    }
+    out[crossovers.length] = rest;
+  }
+
+  add(left: Float32Array, right: Float32Array) {
+    const len = Math.min(left.length, right.length);
+    const { bandL, bandR, sums } = this;
+    this.samples += len;
+    for (let i = 0; i < len; i++) {
+      this.splitInto(left[i], this.left, bandL);
+      this.splitInto(right[i], this.right, bandR);
+      for (let b = 0; b < sums.length; b++) {
+        const l = bandL[b];
+        const r = bandR[b];
+        const mid = (l + r) * 0.5;
+        const side = (l - r) * 0.5;
+        const s = sums[b];
+        s.ll += l * l;
+        s.rr += r * r;
+        s.lr += l * r;
+        s.mm += mid * mid;
+        s.ss += side * side;
+      }
+    }
+  }
+
+  result(): StereoBandResult[] {
+    return STEREO_BANDS.map((band, b) => {
+      const { ll, rr, lr, mm, ss } = this.sums[b];
+      const total = mm + ss;
+      const n = Math.max(1, this.samples);
+      return {
+        id: band.id,
+        width: mm > 0 ? Math.sqrt(ss / mm) : 0,
+        correlation: correlationOf(lr / n, ll / n, rr / n),
+        sideLevel: total > 0 && ss > 0 ? 10 * Math.log10(ss / total) : -Infinity,
+      };
+    });
+  }
+}
@@ -0,0 +1,52 @@
+// 曲中の無音検出: しきい値未満のサンプルが最小時間以上続いた区間（冒頭・末尾に接する区間は除く）
+import type { SilenceResult, SilentRegion } from '../analysis/types';
+
+const MAX_REPORTED_REGIONS = 200;
+
+/** ClipDetector と同じく addChannel() でチャンネルを 1 本ずつ流し、result() で集計する */
+export class SilenceDetector {
+  private readonly sampleRate: number;
+  private readonly threshold: number;
+  private readonly thresholdLinear: number;
+  private readonly minDuration: number;
+  private regions: SilentRegion[] = [];
+  private channelCount = 0;
+
+  constructor(sampleRate: number, thresholdDBFS: number, minDuration: number) {
+    this.sampleRate = sampleRate;
+    this.threshold = thresholdDBFS;
+    this.thresholdLinear = Math.pow(10, thresholdDBFS / 20);
+    this.minDuration = minDuration;
+  }
+
+  addChannel(samples: Float32Array) {
+    const channel = this.channelCount++;
+    const minSamples = Math.max(1, Math.round(this.minDuration * this.sampleRate));
+    let runStart = -1;
+
+    for (let i = 0; i < samples.length; i++) {
+      if (Math.abs(samples[i]) < this.thresholdLinear) {
+        if (runStart < 0) runStart = i;
+        continue;
+      }
+      // 冒頭の無音（runStart === 0）は headSilence で扱う
+      if (runStart > 0 && i - runStart >= minSamples) {
+        this.regions.push({ start: runStart / this.sampleRate, end: i / this.sampleRate, channel });
+      }
+      runStart = -1;
+    }
+    // 末尾まで続いた無音は tailSilence で扱うので数えない
+  }
+
+  result(): SilenceResult {
+    return {
+      threshold: this.threshold,
+      minDuration: this.minDuration,
+      count: this.regions.length,
+      totalDuration: this.regions.reduce((sum, r) => sum + (r.end - r.start), 0),
+      regions: [...this.regions]
+        .sort((a, b) => a.start - b.start || a.channel - b.channel)
+        .slice(0, MAX_REPORTED_REGIONS),
+    };
+  }
+}
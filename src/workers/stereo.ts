@@ -0,0 +1,116 @@
+// ステレオ計測: Mid/Side 比・L/R 相関（それぞれ全体と時系列）・ゴニオメーター用の分布
+import { CORRELATION_HOP_SEC, CORRELATION_WINDOW_SEC } from '../analysis/correlation';
+import type { StereoResult } from '../analysis/types';
+
+const GONIOMETER_SIZE = 128;
+// 両チャンネルともこれより静かな窓は相関を求めず +1（位相問題なし）として扱う
+const SILENCE_POWER = 1e-7;
+
+/** 平均パワーから相関係数を求める */
+export function correlationOf(lr: number, ll: number, rr: number): number {
+  if (ll < SILENCE_POWER && rr < SILENCE_POWER) return 1;
+  const denom = Math.sqrt(ll * rr);
+  // 片側だけ鳴っている場合は無相関
+  return denom > 0 ? Math.max(-1, Math.min(1, lr / denom)) : 0;
+}
+
+// Side だけの窓（逆相）で Infinity にならないよう、時系列の width は表示上限で打ち切る
+const MAX_SERIES_WIDTH = 2;
+
+function windowWidth(mm: number, ss: number): number {
+  if (mm + ss < SILENCE_POWER) return 0;
+  return mm > 0 ? Math.min(MAX_SERIES_WIDTH, Math.sqrt(Math.max(0, ss) / mm)) : MAX_SERIES_WIDTH;
+}
+
+/** 先頭 2 チャンネルを L/R として計測する（モノラルは同じ信号を渡す）。帯域別は MultibandStereoMeter */
+export function measureStereo(left: Float32Array, right: Float32Array, sampleRate: number): Omit<StereoResult, 'bands'> {
+  const len = Math.min(left.length, right.length);
+  const hop = Math.round(sampleRate * CORRELATION_HOP_SEC);
+  const windowBlocks = Math.round(CORRELATION_WINDOW_SEC / CORRELATION_HOP_SEC);
+  const blockCount = Math.floor(len / hop);
+  const blockLL = new Float64Array(blockCount);
+  const blockRR = new Float64Array(blockCount);
+  const blockLR = new Float64Array(blockCount);
+  const blockMM = new Float64Array(blockCount);
+  const blockSS = new Float64Array(blockCount);
+
+  let peak = 0;
+  for (let i = 0; i < len; i++) {
+    const abs = Math.max(Math.abs(left[i]), Math.abs(right[i]));
+    if (abs > peak) peak = abs;
+  }
+
+  let midSumSq = 0, sideSumSq = 0;
+  let sumLL = 0, sumRR = 0, sumLR = 0;
+  const counts = new Float64Array(GONIOMETER_SIZE * GONIOMETER_SIZE);
+  // M を縦・S を横に 45° 回転した座標をピークで正規化（L 単独は左上、R 単独は右上の斜線になる）
+  const scale = peak > 0 ? 1 / (Math.SQRT2 * peak) : 0;
+
+  for (let i = 0; i < len; i++) {
+    const l = left[i];
+    const r = right[i];
+    const mid = (l + r) * 0.5;
+    const side = (l - r) * 0.5;
+    midSumSq += mid * mid;
+    sideSumSq += side * side;
+    sumLL += l * l;
+    sumRR += r * r;
+    sumLR += l * r;
+
+    const b = (i / hop) | 0;
+    if (b < blockCount) {
+      blockLL[b] += l * l;
+      blockRR[b] += r * r;
+      blockLR[b] += l * r;
+      blockMM[b] += mid * mid;
+      blockSS[b] += side * side;
+    }
+
+    const x = (r - l) * scale;
+    const y = (l + r) * scale;
+    const col = Math.min(GONIOMETER_SIZE - 1, ((x + 1) / 2 * GONIOMETER_SIZE) | 0);
+    const row = Math.min(GONIOMETER_SIZE - 1, ((1 - y) / 2 * GONIOMETER_SIZE) | 0);
+    counts[row * GONIOMETER_SIZE + col]++;
+  }
+
+  const midRMS = len > 0 ? Math.sqrt(midSumSq / len) : 0;
+  const sideRMS = len > 0 ? Math.sqrt(sideSumSq / len) : 0;
+  const width = midRMS > 0 ? sideRMS / midRMS : 0;
+
+  const correlationSeries: number[] = [];
+  const widthSeries: number[] = [];
+  let wLL = 0, wRR = 0, wLR = 0, wMM = 0, wSS = 0;
+  for (let b = 0; b < blockCount; b++) {
+    wLL += blockLL[b];
+    wRR += blockRR[b];
+    wLR += blockLR[b];
+    wMM += blockMM[b];
+    wSS += blockSS[b];
+    if (b >= windowBlocks) {
+      wLL -= blockLL[b - windowBlocks];
+      wRR -= blockRR[b - windowBlocks];
+      wLR -= blockLR[b - windowBlocks];
+      wMM -= blockMM[b - windowBlocks];
+      wSS -= blockSS[b - windowBlocks];
+    }
+    if (b >= windowBlocks - 1) {
+      const n = windowBlocks * hop;
+      correlationSeries.push(correlationOf(wLR / n, wLL / n, wRR / n));
+      widthSeries.push(windowWidth(wMM / n, wSS / n));
+    }
+  }
+
+  // 点の多い中心付近だけが明るくならないよう対数で圧縮する
+  let maxCount = 0;
+  for (let i = 0; i < counts.length; i++) if (counts[i] > maxCount) maxCount = counts[i];
+  const logMax = Math.log1p(maxCount);
+  const density = Array.from(counts, c => (logMax > 0 ? Math.log1p(c) / logMax : 0));
+
+  return {
+    width,
+    correlation: len > 0 ? correlationOf(sumLR / len, sumLL / len, sumRR / len) : 1,
+    correlationSeries,
+    widthSeries,
+    goniometer: { size: GONIOMETER_SIZE, density },
+  };
+}
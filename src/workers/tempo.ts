@@ -0,0 +1,156 @@
+// テンポの時間変化と候補: 拍間隔から局所テンポを求めて安定度とテンポの違う区間を出し、複数の推定値から倍・半分を含む候補を順位付けする
+// ライブ録音の揺れ・テンポランプ・ハーフタイム区間などで、曲全体の 1 つの BPM が当てにならない場合に使う
+import type { TempoCandidate, TempoCurve, TempoSection } from '../analysis/types';
+
+// 局所テンポはこの拍数の間隔の中央値（拍の取りこぼし・誤検出 1 つに引っ張られないように）
+const SMOOTH_BEATS = 8;
+// 基準テンポからこの比率以内の拍を「安定」と数える
+const STABLE_TOLERANCE = 0.02;
+// 区間のテンポからこの比率以上外れた拍が続いたら新しい区間の候補にする
+const SECTION_TOLERANCE = 0.05;
+// この拍数以上続いたら区間として切る（フィルの揺れ等は無視）
+const MIN_SECTION_BEATS = 16;
+// 局所テンポとして扱う範囲（拍の取りこぼしで極端な値が出るのを除く）
+const MIN_BPM = 30;
+const MAX_BPM = 300;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** 拍 i と i+1 の中点の時刻に、その周辺の間隔の中央値から求めた BPM を置く */
+function localTempo(beats: number[]): { times: number[]; bpm: number[] } {
+  const intervals: number[] = [];
+  for (let i = 1; i < beats.length; i++) intervals.push(beats[i] - beats[i - 1]);
+  const times: number[] = [];
+  const bpm: number[] = [];
+  const half = SMOOTH_BEATS >> 1;
+  for (let i = 0; i < intervals.length; i++) {
+    const window = intervals.slice(Math.max(0, i - half), Math.min(intervals.length, i + half + 1));
+    const interval = median(window);
+    if (interval <= 0) continue;
+    const value = 60 / interval;
+    if (value < MIN_BPM || value > MAX_BPM) continue;
+    times.push((beats[i] + beats[i + 1]) / 2);
+    bpm.push(value);
+  }
+  return { times, bpm };
+}
+
+/** 局所テンポを区間テンポから外れた拍の連続で区切る。区切りは外れ始めた位置 */
+function findSections(times: number[], bpm: number[], end: number): TempoSection[] {
+  const bounds = [0];
+  let sectionStart = 0;
+  let outlierStart = -1;
+  for (let i = 0; i < bpm.length; i++) {
+    const reference = median(bpm.slice(sectionStart, outlierStart >= 0 ? outlierStart : i + 1));
+    if (Math.abs(bpm[i] - reference) / reference <= SECTION_TOLERANCE) {
+      outlierStart = -1;
+      continue;
+    }
+    if (outlierStart < 0) outlierStart = i;
+    if (i - outlierStart + 1 >= MIN_SECTION_BEATS) {
+      bounds.push(outlierStart);
+      sectionStart = outlierStart;
+      outlierStart = -1;
+    }
+  }
+  bounds.push(bpm.length);
+
+  const sections: TempoSection[] = [];
+  for (let s = 0; s + 1 < bounds.length; s++) {
+    const from = bounds[s];
+    const to = bounds[s + 1];
+    sections.push({
+      start: s === 0 ? 0 : times[from],
+      end: s + 2 === bounds.length ? end : times[to],
+      bpm: median(bpm.slice(from, to)),
+    });
+  }
+  return sections;
+}
+
+/** 拍が少なすぎるときは null */
+export function measureTempoCurve(beats: number[], duration: number): TempoCurve | null {
+  const { times, bpm } = localTempo(beats);
+  if (bpm.length < SMOOTH_BEATS) return null;
+
+  const reference = median(bpm);
+  const stable = bpm.filter(v => Math.abs(v - reference) / reference <= STABLE_TOLERANCE).length;
+  const mean = bpm.reduce((sum, v) => sum + v, 0) / bpm.length;
+  const variance = bpm.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / bpm.length;
+
+  return {
+    times,
+    bpm,
+    stability: stable / bpm.length,
+    deviation: Math.sqrt(variance),
+    min: Math.min(...bpm),
+    max: Math.max(...bpm),
+    sections: findSections(times, bpm, duration),
+  };
+}
+
+// 同じテンポとみなす比率の幅
+const CANDIDATE_TOLERANCE = 0.03;
+// 倍・半分の関係にある推定値は、その候補への支持をこの重みで数える
+const OCTAVE_WEIGHT = 0.5;
+// 候補として出すテンポの範囲
+const MIN_CANDIDATE_BPM = 50;
+const MAX_CANDIDATE_BPM = 220;
+// よくあるテンポ帯（120 BPM 中心、1 オクターブ幅）を少しだけ優先する事前分布
+const PRIOR_CENTER_BPM = 120;
+const PRIOR_WEIGHT = 0.3;
+const MAX_CANDIDATES = 5;
+
+function sameTempo(a: number, b: number): boolean {
+  return Math.abs(a - b) / b <= CANDIDATE_TOLERANCE;
+}
+
+/** bpm への支持: 一致する推定値は 1、倍・半分の推定値は OCTAVE_WEIGHT で数える */
+function support(bpm: number, votes: number[]): number {
+  let score = 0;
+  for (const v of votes) {
+    if (sameTempo(v, bpm)) score += 1;
+    else if (sameTempo(v, bpm * 2) || sameTempo(v, bpm / 2)) score += OCTAVE_WEIGHT;
+  }
+  return score / votes.length;
+}
+
+function prior(bpm: number): number {
+  const octaves = Math.log2(bpm / PRIOR_CENTER_BPM);
+  return Math.exp(-0.5 * octaves * octaves);
+}
+
+/**
+ * RhythmExtractor2013 の bpm（失敗時は 0）・estimates と PercivalBpmEstimator の値からテンポ候補を順位付けする。
+ * 検出器は倍・半分のテンポを返しがちなので、各推定値の倍・半分も候補に加える
+ */
+export function rankTempoCandidates(bpm: number, estimates: number[], percival: number | null): TempoCandidate[] {
+  const votes = [...estimates, ...(percival ? [percival] : [])].filter(v => v > 0);
+  if (bpm > 0) votes.push(bpm);
+  if (votes.length === 0) return [];
+
+  const seeds: TempoCandidate[] = [];
+  const addSeed = (value: number, source: TempoCandidate['source']) => {
+    if (value < MIN_CANDIDATE_BPM || value > MAX_CANDIDATE_BPM) return;
+    if (seeds.some(c => sameTempo(value, c.bpm))) return;
+    seeds.push({ bpm: value, score: 0, source });
+  };
+  if (bpm > 0) addSeed(bpm, 'rhythm');
+  for (const v of estimates) addSeed(v, 'rhythm');
+  if (percival) addSeed(percival, 'percival');
+  for (const c of [...seeds]) {
+    addSeed(c.bpm / 2, 'half');
+    addSeed(c.bpm * 2, 'double');
+  }
+
+  const raw = seeds.map(c => ({ ...c, score: support(c.bpm, votes) * (1 - PRIOR_WEIGHT + PRIOR_WEIGHT * prior(c.bpm)) }));
+  const total = raw.reduce((sum, c) => sum + c.score, 0);
+  return raw
+    .map(c => ({ ...c, score: total > 0 ? c.score / total : 0 }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+}
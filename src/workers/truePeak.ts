@@ -0,0 +1,126 @@
+// ITU-R BS.1770-4 Annex 2 準拠の True Peak メーター
+// 48 タップ FIR（4 位相 × 12 タップ）で 4 倍オーバーサンプリングし、補間後の絶対値の最大を取る
+import type { TruePeakOver, TruePeakResult } from '../analysis/types';
+import { BLOCK_SEC } from './loudness';
+
+const PHASE_0 = [
+  0.0017089843750, 0.0109863281250, -0.0196533203125, 0.0332031250000,
+  -0.0594482421875, 0.1373291015625, 0.9721679687500, -0.1022949218750,
+  0.0476074218750, -0.0266113281250, 0.0148925781250, -0.0083007812500,
+];
+const PHASE_1 = [
+  -0.0291748046875, 0.0292968750000, -0.0517578125000, 0.0891113281250,
+  -0.1665039062500, 0.4650878906250, 0.7797851562500, -0.2003173828125,
+  0.1015625000000, -0.0582275390625, 0.0330810546875, -0.0189208984375,
+];
+
+// 位相 2, 3 は位相 1, 0 の係数を反転したもの
+const PHASES = [PHASE_0, PHASE_1, [...PHASE_1].reverse(), [...PHASE_0].reverse()]
+  .map(p => Float64Array.from(p));
+const OVERSAMPLE = PHASES.length;
+const TAPS = PHASE_0.length;
+
+// フィルタ全体の群遅延（入力サンプル単位）: (48 - 1) / 2 / 4
+const GROUP_DELAY = (TAPS * OVERSAMPLE - 1) / 2 / OVERSAMPLE;
+
+// この間隔以内に続くオーバーは 1 箇所としてまとめる
+const OVER_MERGE_SEC = 0.01;
+const MAX_REPORTED_OVERS = 20;
+
+function toDb(linear: number): number {
+  return linear > 0 ? 20 * Math.log10(linear) : -Infinity;
+}
+
+/**
+ * チャンネルを 1 本ずつ addChannel() で流し込み、最後に result() で集計する。
+ * 解析側がチャンネルの合間にキャンセル確認を挟めるよう、処理をチャンネル単位に分けている。
+ */
+export class TruePeakMeter {
+  private readonly sampleRate: number;
+  private readonly ceiling: number;
+  private readonly ceilingLinear: number;
+  private channelPeaks: number[] = [];
+  private overs: TruePeakOver[] = [];
+  private overSamples = 0;
+  // ラウドネスと同じ 100ms ブロックごとの全チャンネル最大（PSR 用、リニア）
+  private peaksPerBlock: Float64Array | null = null;
+
+  constructor(sampleRate: number, ceilingDBTP: number) {
+    this.sampleRate = sampleRate;
+    this.ceiling = ceilingDBTP;
+    this.ceilingLinear = Math.pow(10, ceilingDBTP / 20);
+  }
+
+  addChannel(samples: Float32Array) {
+    const channel = this.channelPeaks.length;
+    const len = samples.length;
+    const mergeGap = Math.max(1, Math.round(this.sampleRate * OVER_MERGE_SEC));
+    let peak = 0;
+    let current: { over: TruePeakOver; peak: number; lastIndex: number } | null = null;
+    const blockSize = Math.max(1, Math.round(this.sampleRate * BLOCK_SEC));
+    if (!this.peaksPerBlock) this.peaksPerBlock = new Float64Array(Math.ceil(len / blockSize));
+    const blockPeaks = this.peaksPerBlock;
+
+    // フィルタの尾まで出力するため len + TAPS - 1 サンプル分回す
+    for (let n = 0; n < len + TAPS - 1; n++) {
+      const jMin = Math.max(0, n - len + 1);
+      const jMax = Math.min(TAPS - 1, n);
+
+      let nMax = n < len ? Math.abs(samples[n]) : 0;
+      let nPhase = -1;
+      for (let p = 0; p < OVERSAMPLE; p++) {
+        const h = PHASES[p];
+        let acc = 0;
+        for (let j = jMin; j <= jMax; j++) acc += h[j] * samples[n - j];
+        const abs = Math.abs(acc);
+        if (abs > nMax) {
+          nMax = abs;
+          nPhase = p;
+        }
+      }
+      if (nMax > peak) peak = nMax;
+      // フィルタの尾は最後のブロックに含める
+      const block = Math.min(blockPeaks.length - 1, (Math.min(n, len - 1) / blockSize) | 0);
+      if (nMax > blockPeaks[block]) blockPeaks[block] = nMax;
+      if (nMax <= this.ceilingLinear) continue;
+
+      this.overSamples++;
+      // 補間値が最大なら群遅延を差し引いた位置、元サンプルが最大ならその位置
+      const pos = nPhase >= 0 ? n + nPhase / OVERSAMPLE - GROUP_DELAY : n;
+      const time = Math.min(Math.max(0, pos), len - 1) / this.sampleRate;
+
+      if (current && n - current.lastIndex <= mergeGap) {
+        current.lastIndex = n;
+        if (nMax > current.peak) {
+          current.peak = nMax;
+          current.over.time = time;
+          current.over.dBTP = toDb(nMax);
+        }
+      } else {
+        if (current) this.overs.push(current.over);
+        current = { over: { time, channel, dBTP: toDb(nMax) }, peak: nMax, lastIndex: n };
+      }
+    }
+    if (current) this.overs.push(current.over);
+
+    this.channelPeaks.push(peak);
+  }
+
+  /** 100ms ブロックごとの True Peak（全チャンネルの最大、リニア） */
+  blockPeaks(): Float64Array {
+    return this.peaksPerBlock ?? new Float64Array(0);
+  }
+
+  result(): TruePeakResult {
+    const overs = [...this.overs]
+      .sort((a, b) => b.dBTP - a.dBTP)
+      .slice(0, MAX_REPORTED_OVERS);
+    return {
+      channels: this.channelPeaks.map(toDb),
+      ceiling: this.ceiling,
+      overSamples: this.overSamples,
+      overCount: this.overs.length,
+      overs,
+    };
+  }
+}